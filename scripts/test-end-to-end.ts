@@ -5,9 +5,12 @@
  */
 
 import { embeddingGemmaService } from '../src/lib/embeddings/EmbeddingGemmaService';
-import type { PageRecord, Passage } from '../src/lib/storage/types';
+import type { PageRecord, Passage, KeywordField } from '../src/lib/storage/types';
 import type { SearchResult } from '../src/lib/search/types';
-import { RRF_CONFIG } from '../src/lib/config/searchConfig';
+import { RRF_CONFIG, DEFAULT_SEARCH_OPTIONS } from '../src/lib/config/searchConfig';
+import { resolveBM25FParams, bm25Idf, bm25fTermScore } from '../src/lib/search/bm25f';
+import { tokenizeFields } from '../src/lib/storage/keywordIndex';
+import { analyzeQuery } from '../src/lib/utils/analyzers';
 
 import fs from 'node:fs';
 import path from 'node:path';
@@ -466,8 +469,8 @@ async function performSemanticSearch(query: string, threshold: number | null = 0
   return results;
 }
 
-// Keyword search (simplified TF-IDF)
-async function performKeywordSearch(query: string, k: number = 10): Promise<SearchResult[]> {
+// Keyword search (simplified TF-IDF, the scorer docs/GROUND_TRUTH.json was measured with)
+async function performTfidfKeywordSearch(query: string, k: number = 10): Promise<SearchResult[]> {
   const queryLower = query.toLowerCase();
   const queryTerms = queryLower.split(/\s+/).filter(t => t.length >= 3);
   
@@ -512,6 +515,90 @@ async function performKeywordSearch(query: string, k: number = 10): Promise<Sear
   return results.slice(0, k);
 }
 
+// Keyword search (BM25F, same analyzers and scorer as KeywordSearch, without typo tolerance)
+async function performBM25FKeywordSearch(query: string, k: number = 10): Promise<SearchResult[]> {
+  const queryTerms = analyzeQuery(query);
+  if (queryTerms.length === 0) {
+    return [];
+  }
+
+  const params = resolveBM25FParams();
+  const documents = inMemoryPages.map(page => ({ page, fields: tokenizeFields(page) }));
+  const fieldNames = Object.keys(params.fieldWeights) as KeywordField[];
+
+  // Corpus statistics
+  const averageFieldLengths = {} as Record<KeywordField, number>;
+  for (const field of fieldNames) {
+    const total = documents.reduce((sum, doc) => sum + doc.fields[field].length, 0);
+    averageFieldLengths[field] = documents.length > 0 ? total / documents.length : 0;
+  }
+
+  const idfScores = new Map<string, number>();
+  for (const term of queryTerms.flatMap(queryTerm => queryTerm.variants)) {
+    const df = documents.filter(doc => fieldNames.some(field => doc.fields[field].includes(term))).length;
+    idfScores.set(term, bm25Idf(df, documents.length));
+  }
+
+  const results: SearchResult[] = [];
+
+  for (const { page, fields } of documents) {
+    const fieldLengths = {} as Record<KeywordField, number>;
+    for (const field of fieldNames) {
+      fieldLengths[field] = fields[field].length;
+    }
+
+    let score = 0;
+    const matchedTerms: string[] = [];
+
+    // A query word scores as its best-scoring variant
+    for (const { variants } of queryTerms) {
+      let best = 0;
+      let bestTerm = '';
+      for (const term of variants) {
+        const termFrequencies: Partial<Record<KeywordField, number>> = {};
+        for (const field of fieldNames) {
+          const tf = fields[field].filter(token => token === term).length;
+          if (tf > 0) {
+            termFrequencies[field] = tf;
+          }
+        }
+
+        const termScore = bm25fTermScore(termFrequencies, fieldLengths, averageFieldLengths, idfScores.get(term) || 0, params);
+        if (termScore > best) {
+          best = termScore;
+          bestTerm = term;
+        }
+      }
+
+      if (best > 0) {
+        score += best;
+        if (!matchedTerms.includes(bestTerm)) matchedTerms.push(bestTerm);
+      }
+    }
+
+    if (score > 0) {
+      results.push({
+        page,
+        similarity: 0,
+        relevanceScore: score,
+        keywordScore: score,
+        matchedTerms,
+        searchMode: 'keyword',
+      });
+    }
+  }
+
+  results.sort((a, b) => b.relevanceScore - a.relevanceScore);
+  return results.slice(0, k);
+}
+
+// Keyword search with the configured scorer (DEFAULT_SEARCH_OPTIONS.keywordScorer)
+async function performKeywordSearch(query: string, k: number = 10): Promise<SearchResult[]> {
+  return DEFAULT_SEARCH_OPTIONS.keywordScorer === 'bm25f'
+    ? performBM25FKeywordSearch(query, k)
+    : performTfidfKeywordSearch(query, k);
+}
+
 // Weighted RRF
 function weightedReciprocalRankFusion(
   rankedLists: SearchResult[][],
@@ -846,6 +933,7 @@ async function main() {
         topPassageSnippet: r.topPassageSnippet,
       })),
     })),
+    keywordScorer: DEFAULT_SEARCH_OPTIONS.keywordScorer,
     aggregates: {
       semantic: semanticAgg,
       keyword: keywordAgg,
@@ -0,0 +1,399 @@
+/**
+ * IndexImporter - Restores an EXPORT_INDEX dump into the local index
+ *
+ * Pages are merged by normalized URL: visit counts are summed, the latest
+ * timestamp wins, and the newer copy's text and passages are kept. Passages
+ * whose embeddings are missing, malformed or carry another embedding signature
+ * are re-embedded.
+ *
+ * Large imports are chunked like exports: begin() → importChunk() × N → complete().
+ */
+
+import type { Passage, PageMetadata, PageRecordUpdate, EmbeddingSignature } from '../lib/storage/types';
+import { embeddingGemmaService } from '../lib/embeddings/EmbeddingGemmaService';
+import { isSameEmbeddingSignature } from '../lib/embeddings/embeddingSignature';
+import { vectorStore } from '../lib/storage/VectorStore';
+import { annIndex } from '../lib/search/AnnIndex';
+import { normalizeUrl } from '../lib/utils/urlNormalization';
+import { detectLanguage } from '../lib/utils/languageDetection';
+import { loggers } from '../lib/utils/logger';
+
+/**
+ * Counts reported back to the caller
+ */
+export interface ImportSummary {
+  /** Pages added as new records */
+  imported: number;
+
+  /** Pages merged into an existing record with the same normalized URL */
+  merged: number;
+
+  /** Entries that were not valid page records */
+  skipped: number;
+
+  /** Passages whose embeddings were regenerated */
+  reembedded: number;
+}
+
+/**
+ * Page parsed from the export payload
+ */
+interface ImportedPage {
+  url: string;
+  title: string;
+  content: string;
+  passages: Passage[];
+  timestamp: number;
+  dwellTime: number;
+  lastAccessed: number;
+  visitCount: number;
+
+  /** Exported content language, or detected from the content when older exports lack it */
+  language?: string;
+
+  /** Signature recorded with the exported vectors (absent in older exports) */
+  embeddingSignature?: EmbeddingSignature;
+}
+
+/**
+ * State of an in-progress chunked import
+ */
+interface ImportSession {
+  /** Embedding model that produced the exported vectors (if known) */
+  embeddingModel?: string;
+
+  /** Existing pages keyed by normalized URL (loaded on first chunk) */
+  pagesByUrl: Map<string, PageMetadata> | null;
+
+  summary: ImportSummary;
+
+  /** Chunks received but not yet imported */
+  pendingChunks: number;
+
+  /** Drops the session when the client stops sending chunks (armed while none are pending) */
+  idleTimer: ReturnType<typeof setTimeout> | null;
+}
+
+// Imports with no chunk for this long are dropped (the client went away)
+const SESSION_IDLE_TIMEOUT_MS = 10 * 60 * 1000;
+
+/**
+ * Convert an exported embedding back into a Float32Array
+ * Exports sent through chrome messaging turn typed arrays into index-keyed objects
+ */
+function toFloat32Array(value: unknown): Float32Array | null {
+  if (value instanceof Float32Array) {
+    return value;
+  }
+
+  if (Array.isArray(value)) {
+    return value.every(v => typeof v === 'number') ? Float32Array.from(value) : null;
+  }
+
+  if (value && typeof value === 'object') {
+    const entries = Object.values(value as Record<string, unknown>);
+    return entries.length > 0 && entries.every(v => typeof v === 'number')
+      ? Float32Array.from(entries as number[])
+      : null;
+  }
+
+  return null;
+}
+
+/**
+ * IndexImporter class
+ */
+export class IndexImporter {
+  private sessions = new Map<string, ImportSession>();
+  private chain: Promise<unknown> = Promise.resolve();
+
+  /**
+   * Start a chunked import
+   * @param embeddingModel Model name recorded with the export (optional)
+   * @returns Request ID to pass with each chunk
+   */
+  begin(embeddingModel?: string): string {
+    const requestId = crypto.randomUUID();
+    const session: ImportSession = {
+      embeddingModel,
+      pagesByUrl: null,
+      summary: { imported: 0, merged: 0, skipped: 0, reembedded: 0 },
+      pendingChunks: 0,
+      idleTimer: null,
+    };
+    this.sessions.set(requestId, session);
+    this._touch(requestId, session);
+    return requestId;
+  }
+
+  /**
+   * Import one chunk of pages
+   * Chunks are processed one at a time in arrival order
+   */
+  importChunk(requestId: string, pages: unknown[]): Promise<ImportSummary> {
+    const session = this.sessions.get(requestId);
+    if (!session) {
+      return Promise.reject(new Error(`Unknown import request: ${requestId}`));
+    }
+
+    session.pendingChunks++;
+    this._touch(requestId, session);
+    return this.enqueue(async () => {
+      try {
+        for (const raw of pages) {
+          await this._importPage(raw, session);
+        }
+      } catch (error) {
+        // A failed chunk ends the import
+        this._drop(requestId);
+        throw error;
+      } finally {
+        session.pendingChunks--;
+      }
+      this._touch(requestId, session);
+      return { ...session.summary };
+    });
+  }
+
+  /**
+   * Finish a chunked import
+   * @returns Totals for the whole import
+   */
+  complete(requestId: string): Promise<ImportSummary> {
+    const session = this.sessions.get(requestId);
+    if (!session) {
+      return Promise.reject(new Error(`Unknown import request: ${requestId}`));
+    }
+
+    return this.enqueue(async () => {
+      this._drop(requestId);
+      loggers.indexImporter.info('Import complete:', session.summary);
+      return session.summary;
+    });
+  }
+
+  /**
+   * Import a whole (small) payload in one call
+   */
+  async importPages(pages: unknown[], embeddingModel?: string): Promise<ImportSummary> {
+    const requestId = this.begin(embeddingModel);
+    const imported = this.importChunk(requestId, pages);
+    const summary = this.complete(requestId); // Queued behind the chunk, runs even if it fails
+    await imported;
+    return summary;
+  }
+
+  /**
+   * Restart a session's idle timer (stopped while chunks are pending)
+   */
+  private _touch(requestId: string, session: ImportSession): void {
+    if (session.idleTimer) {
+      clearTimeout(session.idleTimer);
+      session.idleTimer = null;
+    }
+    if (session.pendingChunks > 0) {
+      return;
+    }
+    session.idleTimer = setTimeout(() => {
+      if (this.sessions.get(requestId) === session) {
+        loggers.indexImporter.warn('Import abandoned, dropping session:', requestId, session.summary);
+        this.sessions.delete(requestId);
+      }
+    }, SESSION_IDLE_TIMEOUT_MS);
+  }
+
+  /**
+   * Forget a session (and its cached pages)
+   */
+  private _drop(requestId: string): void {
+    const session = this.sessions.get(requestId);
+    if (session?.idleTimer) {
+      clearTimeout(session.idleTimer);
+    }
+    this.sessions.delete(requestId);
+  }
+
+  private enqueue<T>(task: () => Promise<T>): Promise<T> {
+    const run = this.chain.then(task);
+    this.chain = run.catch(() => undefined);
+    return run;
+  }
+
+  /**
+   * Merge a single exported page into the index
+   */
+  private async _importPage(raw: unknown, session: ImportSession): Promise<void> {
+    const page = this._parsePage(raw);
+    if (!page) {
+      session.summary.skipped++;
+      return;
+    }
+
+    if (!session.pagesByUrl) {
+      const existingPages = await vectorStore.getAllPageMetadata();
+      session.pagesByUrl = new Map(existingPages.map(existing => [normalizeUrl(existing.url), existing]));
+    }
+
+    const key = normalizeUrl(page.url);
+    const existing = session.pagesByUrl.get(key);
+
+    const embeddingSignature = embeddingGemmaService.getEmbeddingSignature();
+
+    if (!existing) {
+      const passages = await this._ensureEmbeddings(page, session);
+      const id = await vectorStore.addPage({ ...page, passages, embeddingSignature });
+      this._updateAnnIndex(id, passages);
+
+      session.pagesByUrl.set(key, {
+        id,
+        url: page.url,
+        title: page.title,
+        passageCount: passages.length,
+        timestamp: page.timestamp,
+        dwellTime: page.dwellTime,
+        lastAccessed: page.lastAccessed,
+        visitCount: page.visitCount,
+        embeddingSignature,
+        versionCount: 0,
+        language: page.language,
+      });
+      session.summary.imported++;
+      return;
+    }
+
+    const updates: PageRecordUpdate = {
+      visitCount: existing.visitCount + page.visitCount,
+      lastAccessed: Math.max(existing.lastAccessed, page.lastAccessed),
+    };
+
+    // The newer copy wins for text, passages and timestamp
+    const importedIsNewer = page.timestamp > existing.timestamp;
+    if (importedIsNewer) {
+      updates.title = page.title;
+      updates.content = page.content;
+      updates.passages = await this._ensureEmbeddings(page, session);
+      updates.embeddingSignature = embeddingSignature;
+      updates.timestamp = page.timestamp;
+      updates.dwellTime = page.dwellTime;
+      updates.language = page.language;
+    }
+
+    await vectorStore.updatePage(existing.id, updates);
+    if (updates.passages) {
+      this._updateAnnIndex(existing.id, updates.passages);
+    }
+
+    session.pagesByUrl.set(key, {
+      ...existing,
+      ...(importedIsNewer
+        ? { title: page.title, timestamp: page.timestamp, dwellTime: page.dwellTime, embeddingSignature, language: page.language }
+        : {}),
+      passageCount: updates.passages?.length ?? existing.passageCount,
+      visitCount: updates.visitCount!,
+      lastAccessed: updates.lastAccessed!,
+    });
+    session.summary.merged++;
+  }
+
+  /**
+   * Validate an exported page record and decode its embeddings
+   */
+  private _parsePage(raw: unknown): ImportedPage | null {
+    if (!raw || typeof raw !== 'object') {
+      return null;
+    }
+
+    const record = raw as Record<string, any>;
+    if (typeof record.url !== 'string' || typeof record.title !== 'string' || !Array.isArray(record.passages)) {
+      return null;
+    }
+
+    const passages: Passage[] = [];
+    for (const [index, passage] of (record.passages as any[]).entries()) {
+      if (!passage || typeof passage.text !== 'string') {
+        continue;
+      }
+      passages.push({
+        id: typeof passage.id === 'string' ? passage.id : `passage-${index}`,
+        text: passage.text,
+        wordCount: typeof passage.wordCount === 'number' ? passage.wordCount : passage.text.split(/\s+/).length,
+        position: typeof passage.position === 'number' ? passage.position : index,
+        quality: typeof passage.quality === 'number' ? passage.quality : 0.5,
+        embedding: toFloat32Array(passage.embedding) ?? undefined,
+      });
+    }
+
+    if (passages.length === 0) {
+      return null;
+    }
+
+    const timestamp = Number(record.timestamp);
+    const content = typeof record.content === 'string' ? record.content : passages.map(p => p.text).join('\n\n');
+    return {
+      url: record.url,
+      title: record.title,
+      content,
+      passages,
+      timestamp: Number.isFinite(timestamp) ? timestamp : Date.now(),
+      dwellTime: Number(record.dwellTime) || 0,
+      lastAccessed: Number(record.lastAccessed) || 0,
+      visitCount: Math.max(1, Number(record.visitCount) || 1),
+      language: typeof record.language === 'string' && record.language ? record.language : detectLanguage(content),
+      embeddingSignature: this._parseSignature(record.embeddingSignature),
+    };
+  }
+
+  /**
+   * Validate an exported embedding signature
+   */
+  private _parseSignature(raw: unknown): EmbeddingSignature | undefined {
+    if (!raw || typeof raw !== 'object') {
+      return undefined;
+    }
+
+    const { model, dimensions, promptVersion } = raw as Record<string, unknown>;
+    if (typeof model !== 'string' || typeof dimensions !== 'number' || typeof promptVersion !== 'number') {
+      return undefined;
+    }
+
+    return { model, dimensions, promptVersion };
+  }
+
+  /**
+   * Re-embed passages whose embeddings are missing or unusable
+   * All passages are re-embedded when the page's signature (or, for older exports
+   * without one, the export's model) differs from the current one
+   */
+  private async _ensureEmbeddings(page: ImportedPage, session: ImportSession): Promise<Passage[]> {
+    const modelInfo = embeddingGemmaService.getModelInfo();
+    const compatible = page.embeddingSignature
+      ? isSameEmbeddingSignature(page.embeddingSignature, embeddingGemmaService.getEmbeddingSignature())
+      : !session.embeddingModel || session.embeddingModel === modelInfo.name;
+
+    const passages: Passage[] = [];
+    for (const passage of page.passages) {
+      if (compatible && passage.embedding?.length === modelInfo.dimensions) {
+        passages.push(passage);
+        continue;
+      }
+
+      const embedding = await embeddingGemmaService.generateEmbedding(passage.text, 'document', modelInfo.dimensions, page.title);
+      passages.push({ ...passage, embedding });
+      session.summary.reembedded++;
+    }
+
+    return passages;
+  }
+
+  /**
+   * Update the ANN index in the background (training can take a while)
+   */
+  private _updateAnnIndex(pageId: string, passages: Passage[]): void {
+    annIndex.upsertPage(pageId, passages).catch((error) => {
+      loggers.indexImporter.error('Failed to update ANN index:', error);
+    });
+  }
+}
+
+// Export singleton instance
+export const indexImporter = new IndexImporter();
@@ -4,9 +4,11 @@
  */
 
 import type { QueuedPage } from './IndexingQueue';
+import type { PageVisit } from '../lib/storage/types';
 import type { ExtractedContent } from '../content/ContentExtractor';
 import { embeddingGemmaService } from '../lib/embeddings/EmbeddingGemmaService';
 import { vectorStore } from '../lib/storage/VectorStore';
+import { annIndex } from '../lib/search/AnnIndex';
 import { loggers } from '../lib/utils/logger';
 
 export interface IndexingResult {
@@ -86,8 +88,15 @@ export class IndexingPipeline {
         title: content.title,
         content: content.content,
         passages: passagesWithEmbeddings,
+        language: content.language,
         timestamp: queuedPage.startTime,
         dwellTime: queuedPage.dwellTime,
+        visit: {
+          id: queuedPage.visitId,
+          tabId: queuedPage.tabId,
+          windowId: queuedPage.windowId,
+          transitionType: queuedPage.transitionType,
+        },
       });
 
       const totalTime = Date.now() - startTime;
@@ -273,34 +282,44 @@ export class IndexingPipeline {
   }
 
   /**
-   * Store page in database and notify UI of new content
+   * Store page in database, log the visit and notify UI of new content
+   * A visit reported again (with its final dwell time) updates the page without counting a new visit
    */
   private async _storePage(data: {
     url: string;
     title: string;
     content: string;
     passages: any[];
+    language?: string;
     timestamp: number;
     dwellTime: number;
+    visit: Pick<PageVisit, 'id' | 'tabId' | 'windowId' | 'transitionType'>;
   }): Promise<string> {
     // Check if page already exists
     const existing = await vectorStore.getPageByUrl(data.url);
+    const embeddingSignature = embeddingGemmaService.getEmbeddingSignature();
     let pageId: string;
     let isUpdate = false;
 
     if (existing) {
-      // Update existing page and increment visit count
+      const isNewVisit = !(await vectorStore.hasVisit(data.visit.id));
+
+      // Update existing page and increment visit count for a new visit
       await vectorStore.updatePage(existing.id, {
         title: data.title,
         content: data.content,
         passages: data.passages,
-        timestamp: data.timestamp,
-        dwellTime: data.dwellTime,
-        visitCount: existing.visitCount + 1, // Increment visit count
+        language: data.language,
+        embeddingSignature,
+        // Page-level timestamp/dwell describe the most recent visit
+        ...(data.timestamp >= existing.timestamp ? { timestamp: data.timestamp, dwellTime: data.dwellTime } : {}),
+        visitCount: existing.visitCount + (isNewVisit ? 1 : 0),
       });
       pageId = existing.id;
       isUpdate = true;
-      loggers.indexingPipeline.debug(`Page re-visited (visitCount: ${existing.visitCount} → ${existing.visitCount + 1})`);
+      if (isNewVisit) {
+        loggers.indexingPipeline.debug(`Page re-visited (visitCount: ${existing.visitCount} → ${existing.visitCount + 1})`);
+      }
     } else {
       // Add new page
       pageId = await vectorStore.addPage({
@@ -308,6 +327,8 @@ export class IndexingPipeline {
         title: data.title,
         content: data.content,
         passages: data.passages,
+        language: data.language,
+        embeddingSignature,
         timestamp: data.timestamp,
         dwellTime: data.dwellTime,
         lastAccessed: 0,
@@ -316,6 +337,19 @@ export class IndexingPipeline {
       loggers.indexingPipeline.debug('New page indexed (visitCount: 1)');
     }
 
+    await vectorStore.recordVisit({
+      ...data.visit,
+      pageId,
+      url: data.url,
+      startTime: data.timestamp,
+      dwellTime: data.dwellTime,
+    });
+
+    // Update the ANN index in the background (training can take a while)
+    annIndex.upsertPage(pageId, data.passages).catch((error) => {
+      loggers.indexingPipeline.error('Failed to update ANN index:', error);
+    });
+
     // Broadcast to all tabs that a page has been indexed
     // This allows the sidebar UI to update in real-time
     this._broadcastPageIndexed({
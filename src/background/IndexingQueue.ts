@@ -57,6 +57,13 @@ export class IndexingQueue {
     const existingIndex = this.queue.findIndex((item) => item.url === tabInfo.url);
     if (existingIndex !== -1) {
       const existing = this.queue[existingIndex];
+
+      // Same visit reported again on navigation away: keep its final dwell time
+      if (existing.visitId === tabInfo.visitId && tabInfo.dwellTime > existing.dwellTime) {
+        existing.dwellTime = tabInfo.dwellTime;
+        await this._saveQueue();
+      }
+
       loggers.indexingQueue.debug(
         '[IndexingQueue] Page already in queue:',
         tabInfo.url,
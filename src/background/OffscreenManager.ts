@@ -327,9 +327,12 @@ export class OffscreenManager {
 
   /**
    * Send prompt to Prompt API (non-streaming)
+   * Aborting the signal cancels the prompt in the offscreen document and rejects
+   * with the signal's reason
    */
-  public async prompt(prompt: string, options?: any): Promise<string> {
+  public async prompt(prompt: string, options?: any, signal?: AbortSignal): Promise<string> {
     await this.ensureOffscreenOpen();
+    signal?.throwIfAborted();
 
     const requestId = this.generateRequestId();
 
@@ -348,18 +351,35 @@ export class OffscreenManager {
       // Set timeout for request
       const timeout = setTimeout(() => {
         this.pendingPromptRequests.delete(requestId);
+        signal?.removeEventListener('abort', onAbort);
         reject(new Error('Prompt request timed out'));
       }, 120000); // 120 second timeout (prompts can take longer)
 
-      // Update resolve callback to clear timeout
-      const originalResolve = resolve;
-      const wrappedResolve = (value: string) => {
+      // Stop waiting and stop generation in the offscreen document
+      const onAbort = () => {
         clearTimeout(timeout);
-        originalResolve(value);
+        this.pendingPromptRequests.delete(requestId);
+        this.cancelPrompt(requestId);
+        reject(signal!.reason);
+      };
+      signal?.addEventListener('abort', onAbort, { once: true });
+
+      // Update callbacks to clear the timeout and abort listener
+      const settle = () => {
+        clearTimeout(timeout);
+        signal?.removeEventListener('abort', onAbort);
+      };
+      const wrappedResolve = (value: string) => {
+        settle();
+        resolve(value);
+      };
+      const wrappedReject = (reason?: any) => {
+        settle();
+        reject(reason);
       };
 
       // Store updated callbacks
-      this.pendingPromptRequests.set(requestId, { resolve: wrappedResolve, reject });
+      this.pendingPromptRequests.set(requestId, { resolve: wrappedResolve, reject: wrappedReject });
 
       loggers.offscreenManager.debug(`Sending prompt request: ${requestId}`);
 
@@ -368,21 +388,24 @@ export class OffscreenManager {
         type: 'PROMPT_REQUEST',
         request
       }).catch((error) => {
-        clearTimeout(timeout);
         this.pendingPromptRequests.delete(requestId);
-        reject(new Error(`Failed to send prompt request to offscreen document: ${error}`));
+        wrappedReject(new Error(`Failed to send prompt request to offscreen document: ${error}`));
       });
     });
   }
 
   /**
    * Send prompt with streaming response
+   * Aborting the signal cancels the prompt in the offscreen document and throws
+   * the signal's reason
    */
   public async *promptStreaming(
     prompt: string,
-    options?: any
+    options?: any,
+    signal?: AbortSignal
   ): AsyncGenerator<string, void, unknown> {
     await this.ensureOffscreenOpen();
+    signal?.throwIfAborted();
 
     const requestId = this.generateRequestId();
 
@@ -434,6 +457,12 @@ export class OffscreenManager {
         throw error;
       }
 
+      if (signal?.aborted) {
+        chrome.runtime.onMessage.removeListener(messageHandler);
+        this.cancelPrompt(requestId);
+        throw signal.reason;
+      }
+
       // Yield any new chunks
       while (lastYieldedIndex < chunks.length) {
         yield chunks[lastYieldedIndex];
@@ -451,6 +480,20 @@ export class OffscreenManager {
     }
   }
 
+  /**
+   * Ask the offscreen document to abort a running prompt
+   */
+  private cancelPrompt(requestId: string): void {
+    loggers.offscreenManager.debug(`Cancelling prompt request: ${requestId}`);
+
+    chrome.runtime.sendMessage({
+      type: 'PROMPT_CANCEL',
+      requestId
+    }).catch((error) => {
+      loggers.offscreenManager.warn(`Failed to cancel prompt request ${requestId}:`, error);
+    });
+  }
+
   /**
    * Handle prompt response from offscreen document
    */
@@ -0,0 +1,280 @@
+/**
+ * RankingTuner - Fits ranking weights to how search results are actually opened
+ *
+ * Every committed search logs an impression (the shown results with their ranking
+ * features) and every opened result a click; as-you-type searches are logged only
+ * once one of their results is opened. On a chrome.alarms schedule the tuner fits the
+ * hybrid alpha and the recency and frequency weights to the clicks (see
+ * lib/search/ranking.ts). Fitted weights are applied only with enough clicked
+ * searches and a clear gain, stay within FEEDBACK_CONFIG bounds, and move at most
+ * FEEDBACK_CONFIG.MAX_STEP per fit. reset() returns to the configured defaults;
+ * disabling the tuner stops logging and ignores fitted weights.
+ */
+
+import type { SearchMode, SearchOptions, SearchResult, RankingWeights } from '../lib/search/types';
+import type { SearchImpression } from '../lib/storage/types';
+import { fitRankingWeights } from '../lib/search/ranking';
+import { vectorStore } from '../lib/storage/VectorStore';
+import { DEFAULT_SEARCH_OPTIONS, FEEDBACK_CONFIG, RRF_CONFIG } from '../lib/config/searchConfig';
+import { loggers } from '../lib/utils/logger';
+
+/**
+ * Result of a fitting run
+ */
+export interface TuningReport {
+  dryRun: boolean;
+
+  /** Impressions logged, and those with a click on a shown result */
+  impressions: number;
+  clickedImpressions: number;
+
+  /** Weights before the run and the best weights found */
+  previous: RankingWeights;
+  fitted: RankingWeights;
+
+  /** Click MRR under the previous and the fitted weights */
+  before: number;
+  after: number;
+
+  /** Whether the fitted weights were applied (never on dry runs) */
+  applied: boolean;
+
+  /** Why the fitted weights were not applied */
+  reason?: 'disabled' | 'not-enough-clicks' | 'no-improvement';
+
+  ranAt: number;
+}
+
+/**
+ * Stored tuner state
+ */
+export interface TuningState {
+  enabled: boolean;
+
+  /** Fitted weights in use (null: configured defaults) */
+  weights: RankingWeights | null;
+
+  lastReport: TuningReport | null;
+}
+
+const STATE_STORAGE_KEY = 'rankingTuning';
+export const TUNING_ALARM_NAME = 'rewind-ranking-tuning';
+
+const DEFAULT_STATE: TuningState = {
+  enabled: true,
+  weights: null,
+  lastReport: null,
+};
+
+/**
+ * Configured (hand-tuned) weights
+ */
+export function defaultRankingWeights(): RankingWeights {
+  return {
+    alpha: RRF_CONFIG.DEFAULT_ALPHA,
+    recencyWeight: DEFAULT_SEARCH_OPTIONS.recencyWeight,
+    frequencyWeight: DEFAULT_SEARCH_OPTIONS.frequencyWeight,
+  };
+}
+
+/**
+ * RankingTuner class
+ */
+export class RankingTuner {
+  private running: Promise<TuningReport> | null = null;
+  private pendingImpressions = new Map<string, SearchImpression>();
+
+  /**
+   * Schedule periodic fitting
+   */
+  async initialize(): Promise<void> {
+    const existing = await chrome.alarms.get(TUNING_ALARM_NAME);
+    if (!existing) {
+      await chrome.alarms.create(TUNING_ALARM_NAME, {
+        delayInMinutes: 5,
+        periodInMinutes: FEEDBACK_CONFIG.ALARM_PERIOD_MINUTES,
+      });
+      loggers.rankingTuner.debug('Ranking tuning alarm scheduled');
+    }
+  }
+
+  /**
+   * Get the stored state
+   */
+  async getState(): Promise<TuningState> {
+    const result = await chrome.storage.local.get(STATE_STORAGE_KEY);
+    return { ...DEFAULT_STATE, ...(result[STATE_STORAGE_KEY] ?? {}) };
+  }
+
+  /**
+   * Weights searches should use (fitted when enabled, otherwise the defaults)
+   */
+  async getWeights(): Promise<RankingWeights> {
+    const state = await this.getState();
+    return state.enabled && state.weights ? state.weights : defaultRankingWeights();
+  }
+
+  /**
+   * Search options carrying the fitted weights (empty when disabled or not fitted)
+   */
+  async getSearchOptions(): Promise<Partial<SearchOptions>> {
+    const state = await this.getState();
+    return state.enabled && state.weights ? { ...state.weights } : {};
+  }
+
+  /**
+   * Turn feedback logging and fitted weights on or off (fitted weights are kept)
+   */
+  async setEnabled(enabled: boolean): Promise<TuningState> {
+    return this._updateState({ enabled });
+  }
+
+  /**
+   * Drop fitted weights and return to the configured defaults
+   */
+  async reset(): Promise<TuningState> {
+    loggers.rankingTuner.debug('Ranking weights reset to defaults');
+    return this._updateState({ weights: null });
+  }
+
+  /**
+   * Log the results shown for a search
+   * Skipped when disabled, for filter-only queries, and when a reranker or MMR
+   * reordered the results (their order does not follow the fitted weights)
+   *
+   * @param pending Hold the impression in memory until a result is clicked
+   *   (as-you-type searches, most of which are never clicked)
+   * @returns Impression ID to report clicks with, or null when not logged
+   */
+  async recordImpression(
+    query: string,
+    mode: SearchMode,
+    results: SearchResult[],
+    options: SearchOptions = {},
+    pending: boolean = false
+  ): Promise<string | null> {
+    const reordered = (options.reranker ?? 'none') !== 'none' || (options.mmrLambda ?? 1) < 1;
+    if (reordered || results.length === 0 || results.some(result => !result.rankingFeatures)) {
+      return null;
+    }
+    if (!(await this.getState()).enabled) {
+      return null;
+    }
+
+    const impression: SearchImpression = {
+      id: crypto.randomUUID(),
+      query,
+      mode,
+      timestamp: Date.now(),
+      results: results.map(result => ({ pageId: result.page.id, features: result.rankingFeatures! })),
+      clickedPageIds: [],
+    };
+
+    if (pending) {
+      this.pendingImpressions.set(impression.id, impression);
+      if (this.pendingImpressions.size > FEEDBACK_CONFIG.MAX_PENDING_IMPRESSIONS) {
+        this.pendingImpressions.delete(this.pendingImpressions.keys().next().value!);
+      }
+    } else {
+      await vectorStore.recordImpression(impression);
+    }
+    return impression.id;
+  }
+
+  /**
+   * Log a result opened from an impression (a pending impression is logged first)
+   */
+  async recordClick(impressionId: string, pageId: string): Promise<void> {
+    const pending = this.pendingImpressions.get(impressionId);
+    if (pending) {
+      this.pendingImpressions.delete(impressionId);
+      await vectorStore.recordImpression(pending);
+    }
+    await vectorStore.recordImpressionClick(impressionId, pageId);
+  }
+
+  /**
+   * Fit weights to the logged clicks
+   * @param options.dryRun Only report what would be applied
+   */
+  async run(options: { dryRun?: boolean } = {}): Promise<TuningReport> {
+    const dryRun = options.dryRun ?? false;
+
+    // Never run two fits at once
+    if (!dryRun && this.running) {
+      return this.running;
+    }
+
+    const task = (async () => {
+      const state = await this.getState();
+      const previous = state.weights ?? defaultRankingWeights();
+      const impressions = await vectorStore.getImpressions();
+      const fit = fitRankingWeights(impressions, previous);
+
+      let reason: TuningReport['reason'];
+      if (!state.enabled) {
+        reason = 'disabled';
+      } else if (fit.clickedImpressions < FEEDBACK_CONFIG.MIN_CLICKED_IMPRESSIONS) {
+        reason = 'not-enough-clicks';
+      } else if (fit.after < fit.before * (1 + FEEDBACK_CONFIG.MIN_IMPROVEMENT)) {
+        reason = 'no-improvement';
+      }
+
+      const report: TuningReport = {
+        dryRun,
+        impressions: impressions.length,
+        clickedImpressions: fit.clickedImpressions,
+        previous,
+        fitted: fit.weights,
+        before: fit.before,
+        after: fit.after,
+        applied: !dryRun && !reason,
+        ...(reason ? { reason } : {}),
+        ranAt: Date.now(),
+      };
+
+      if (!dryRun) {
+        await this._updateState({ ...(report.applied ? { weights: fit.weights } : {}), lastReport: report });
+        if (report.applied) {
+          loggers.rankingTuner.info('Ranking weights tuned:', fit.weights);
+        }
+      }
+
+      loggers.rankingTuner.debug('Ranking tuning run:', report);
+      return report;
+    })();
+
+    if (dryRun) {
+      return task;
+    }
+
+    this.running = task.finally(() => {
+      this.running = null;
+    });
+    return this.running;
+  }
+
+  /**
+   * Handle a chrome.alarms event
+   */
+  async handleAlarm(alarm: chrome.alarms.Alarm): Promise<void> {
+    if (alarm.name !== TUNING_ALARM_NAME) {
+      return;
+    }
+
+    try {
+      await this.run();
+    } catch (error) {
+      loggers.rankingTuner.error('Scheduled ranking tuning failed:', error);
+    }
+  }
+
+  private async _updateState(updates: Partial<TuningState>): Promise<TuningState> {
+    const state = { ...(await this.getState()), ...updates };
+    await chrome.storage.local.set({ [STATE_STORAGE_KEY]: state });
+    return state;
+  }
+}
+
+// Export singleton instance
+export const rankingTuner = new RankingTuner();
@@ -0,0 +1,224 @@
+/**
+ * ReembeddingJob - Re-embeds pages whose vectors carry a stale embedding signature
+ *
+ * Runs in the background in small batches after the embedding model, dimension or
+ * prompt format changes. Stale pages are found by comparing their stored signature
+ * with the current one, so the job resumes naturally after a service worker restart;
+ * only the progress counters are persisted (chrome.storage.local).
+ */
+
+import type { EmbeddingSignature, PageMetadata, Passage } from '../lib/storage/types';
+import { embeddingGemmaService, isEmbeddingDimensions } from '../lib/embeddings/EmbeddingGemmaService';
+import { isSameEmbeddingSignature } from '../lib/embeddings/embeddingSignature';
+import { vectorStore } from '../lib/storage/VectorStore';
+import { annIndex } from '../lib/search/AnnIndex';
+import { loggers } from '../lib/utils/logger';
+
+export type ReembeddingStatus = 'idle' | 'running' | 'paused' | 'completed' | 'error';
+
+/**
+ * Progress reported to the popup
+ */
+export interface ReembeddingProgress {
+  status: ReembeddingStatus;
+
+  /** Signature pages are being migrated to */
+  target: EmbeddingSignature;
+
+  /** Stale pages when the job started */
+  total: number;
+
+  /** Pages re-embedded so far */
+  processed: number;
+
+  /** Pages that failed to re-embed (skipped until the next start) */
+  failedPageIds: string[];
+
+  startedAt: number;
+  updatedAt: number;
+  error?: string;
+}
+
+const JOB_STORAGE_KEY = 'reembeddingJob';
+const BATCH_SIZE = 5;
+const BATCH_DELAY_MS = 500; // Yield to indexing and search between batches
+
+/**
+ * ReembeddingJob class
+ */
+export class ReembeddingJob {
+  private progress: ReembeddingProgress | null = null;
+  private running = false;
+
+  /**
+   * Get the current progress (loads persisted state on first call)
+   */
+  async getProgress(): Promise<ReembeddingProgress> {
+    if (!this.progress) {
+      const result = await chrome.storage.local.get(JOB_STORAGE_KEY);
+      const stored = result[JOB_STORAGE_KEY] as ReembeddingProgress | undefined;
+      const target = embeddingGemmaService.getEmbeddingSignature();
+
+      // A persisted job for an older target no longer applies
+      this.progress = stored && isSameEmbeddingSignature(stored.target, target)
+        ? { ...stored, status: stored.status === 'running' ? 'idle' : stored.status }
+        : this._createProgress(target, 'idle');
+    }
+    return { ...this.progress };
+  }
+
+  /**
+   * Start (or resume) re-embedding stale pages
+   * Previously failed pages are retried
+   */
+  async start(): Promise<ReembeddingProgress> {
+    if (this.running) {
+      return this.getProgress();
+    }
+
+    const previous = await this.getProgress();
+    const stalePages = await this._findStalePages(previous.target, []);
+
+    // Keep counters when resuming a paused or interrupted run
+    const resuming = previous.status === 'paused' || (previous.status === 'idle' && previous.total > 0);
+    this.progress = resuming
+      ? { ...previous, status: 'running', failedPageIds: [], total: previous.processed + stalePages.length }
+      : { ...this._createProgress(previous.target, 'running'), total: stalePages.length };
+    await this._save();
+
+    this.running = true;
+    this._run().finally(() => {
+      this.running = false;
+    });
+
+    return { ...this.progress };
+  }
+
+  /**
+   * Pause after the current batch
+   */
+  async pause(): Promise<ReembeddingProgress> {
+    const progress = await this.getProgress();
+    if (progress.status === 'running') {
+      this.progress!.status = 'paused';
+      await this._save();
+    }
+    return this.getProgress();
+  }
+
+  /**
+   * Resume an interrupted job, or start one when stale pages exist
+   * Called on service worker startup; a job paused by the user stays paused
+   */
+  async resumeIfNeeded(): Promise<void> {
+    const progress = await this.getProgress();
+    if (progress.status === 'paused') {
+      return;
+    }
+
+    const stalePages = await this._findStalePages(progress.target, []);
+    if (stalePages.length > 0) {
+      loggers.reembeddingJob.info(`${stalePages.length} pages have stale embeddings, starting re-embedding`);
+      await this.start();
+    }
+  }
+
+  /**
+   * Process batches until done, paused or failed
+   */
+  private async _run(): Promise<void> {
+    try {
+      while (this.progress!.status === 'running') {
+        const stalePages = await this._findStalePages(this.progress!.target, this.progress!.failedPageIds);
+        if (stalePages.length === 0) {
+          this.progress!.status = 'completed';
+          break;
+        }
+
+        for (const page of stalePages.slice(0, BATCH_SIZE)) {
+          try {
+            await this._reembedPage(page.id, this.progress!.target);
+            this.progress!.processed++;
+          } catch (error) {
+            loggers.reembeddingJob.error(`Failed to re-embed page ${page.id}:`, error);
+            this.progress!.failedPageIds.push(page.id);
+          }
+        }
+
+        await this._save();
+        await new Promise(resolve => setTimeout(resolve, BATCH_DELAY_MS));
+      }
+    } catch (error) {
+      loggers.reembeddingJob.error('Re-embedding job failed:', error);
+      this.progress!.status = 'error';
+      this.progress!.error = error instanceof Error ? error.message : String(error);
+    }
+
+    await this._save();
+    loggers.reembeddingJob.info(
+      `Re-embedding ${this.progress!.status}: ${this.progress!.processed}/${this.progress!.total} pages`
+    );
+  }
+
+  /**
+   * Pages with passages whose signature differs from the target
+   */
+  private async _findStalePages(target: EmbeddingSignature, excludeIds: string[]): Promise<PageMetadata[]> {
+    const excluded = new Set(excludeIds);
+    const metadata = await vectorStore.getAllPageMetadata();
+    return metadata.filter(page =>
+      page.passageCount > 0 &&
+      !excluded.has(page.id) &&
+      !isSameEmbeddingSignature(page.embeddingSignature, target)
+    );
+  }
+
+  /**
+   * Regenerate every passage embedding of a page and stamp the new signature
+   */
+  private async _reembedPage(pageId: string, target: EmbeddingSignature): Promise<void> {
+    const dimensions = target.dimensions;
+    if (!isEmbeddingDimensions(dimensions)) {
+      throw new Error(`Unsupported embedding dimensions: ${dimensions}`);
+    }
+
+    const page = await vectorStore.getPage(pageId);
+    if (!page) {
+      return;
+    }
+
+    const passages: Passage[] = [];
+    for (const passage of page.passages) {
+      const embedding = await embeddingGemmaService.generateEmbedding(
+        passage.text,
+        'document',
+        dimensions,
+        page.title
+      );
+      passages.push({ ...passage, embedding });
+    }
+
+    await vectorStore.updatePage(pageId, { passages, embeddingSignature: target });
+    await annIndex.upsertPage(pageId, passages);
+  }
+
+  private _createProgress(target: EmbeddingSignature, status: ReembeddingStatus): ReembeddingProgress {
+    const now = Date.now();
+    return { status, target, total: 0, processed: 0, failedPageIds: [], startedAt: now, updatedAt: now };
+  }
+
+  /**
+   * Persist progress and broadcast it to open extension pages
+   */
+  private async _save(): Promise<void> {
+    this.progress!.updatedAt = Date.now();
+    await chrome.storage.local.set({ [JOB_STORAGE_KEY]: this.progress });
+
+    chrome.runtime.sendMessage({ type: 'REEMBEDDING_PROGRESS', progress: { ...this.progress } }).catch(() => {
+      // No listeners (popup closed)
+    });
+  }
+}
+
+// Export singleton instance
+export const reembeddingJob = new ReembeddingJob();
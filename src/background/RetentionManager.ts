@@ -0,0 +1,332 @@
+/**
+ * RetentionManager - Evicts pages to keep the index within its retention limits
+ *
+ * Limits: maximum page count, maximum (estimated) size and maximum age since the
+ * page was last visited or opened from search. Pages past the age limit are always
+ * evicted; after that, pages are evicted in retention order until the count and
+ * size limits hold. Retention order prefers removing pages that were never opened
+ * from search, then those with the least dwell time, the fewest visits, and the
+ * oldest visit.
+ *
+ * No limit is set by default. Enforcement runs on a chrome.alarms schedule; a dry
+ * run returns the same plan without deleting anything, and a policy is enforced
+ * only after a dry run of it (so the user sees what it evicts first).
+ */
+
+import type { PageMetadata } from '../lib/storage/types';
+import { vectorStore, estimatePageSizeBytes } from '../lib/storage/VectorStore';
+import { annIndex } from '../lib/search/AnnIndex';
+import { RETENTION_CONFIG } from '../lib/config/searchConfig';
+import { loggers } from '../lib/utils/logger';
+
+/**
+ * Retention limits (0 disables a limit)
+ */
+export interface RetentionPolicy {
+  maxPages: number;
+  maxBytes: number;
+  maxAgeDays: number;
+}
+
+export type EvictionReason = 'age' | 'pages' | 'bytes';
+
+/**
+ * Page selected for eviction
+ */
+export interface EvictionCandidate {
+  id: string;
+  url: string;
+  title: string;
+  timestamp: number;
+  lastAccessed: number;
+  dwellTime: number;
+  visitCount: number;
+  sizeBytes: number;
+  reason: EvictionReason;
+}
+
+/**
+ * Result of a retention run
+ */
+export interface RetentionReport {
+  dryRun: boolean;
+  policy: RetentionPolicy;
+
+  /** Pages and estimated bytes before eviction */
+  totalPages: number;
+  totalBytes: number;
+
+  /** Pages and estimated bytes after eviction */
+  remainingPages: number;
+  remainingBytes: number;
+
+  /** Number of pages evicted (or that would be) */
+  evictedCount: number;
+
+  /** Evicted pages in eviction order (truncated to RETENTION_CONFIG.PREVIEW_LIMIT) */
+  candidates: EvictionCandidate[];
+
+  /** Set when nothing was enforced because the policy has not been previewed */
+  skipped?: 'not-previewed';
+
+  ranAt: number;
+}
+
+const POLICY_STORAGE_KEY = 'retentionPolicy';
+const REPORT_STORAGE_KEY = 'retentionLastRun';
+const PREVIEWED_STORAGE_KEY = 'retentionPreviewedPolicy';
+export const RETENTION_ALARM_NAME = 'rewind-retention';
+
+const DEFAULT_POLICY: RetentionPolicy = {
+  maxPages: RETENTION_CONFIG.MAX_PAGES,
+  maxBytes: RETENTION_CONFIG.MAX_BYTES,
+  maxAgeDays: RETENTION_CONFIG.MAX_AGE_DAYS,
+};
+
+const NO_LIMITS: RetentionPolicy = { maxPages: 0, maxBytes: 0, maxAgeDays: 0 };
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Whether two policies set the same limits
+ */
+function isSamePolicy(a: RetentionPolicy, b: RetentionPolicy): boolean {
+  return a.maxPages === b.maxPages && a.maxBytes === b.maxBytes && a.maxAgeDays === b.maxAgeDays;
+}
+
+/**
+ * Compare pages by retention value (least valuable first)
+ */
+function compareRetention(a: PageMetadata, b: PageMetadata): number {
+  const aAccessed = a.lastAccessed > 0 ? 1 : 0;
+  const bAccessed = b.lastAccessed > 0 ? 1 : 0;
+  return (
+    aAccessed - bAccessed ||
+    a.dwellTime - b.dwellTime ||
+    a.visitCount - b.visitCount ||
+    Math.max(a.timestamp, a.lastAccessed) - Math.max(b.timestamp, b.lastAccessed)
+  );
+}
+
+/**
+ * Sanitize a stored or user-supplied limit (0 = disabled)
+ */
+function toLimit(value: unknown, fallback: number): number {
+  const limit = Number(value);
+  return Number.isFinite(limit) && limit >= 0 ? Math.floor(limit) : fallback;
+}
+
+/**
+ * RetentionManager class
+ */
+export class RetentionManager {
+  private running: Promise<RetentionReport> | null = null;
+
+  /**
+   * Schedule periodic enforcement
+   */
+  async initialize(): Promise<void> {
+    const existing = await chrome.alarms.get(RETENTION_ALARM_NAME);
+    if (!existing) {
+      await chrome.alarms.create(RETENTION_ALARM_NAME, {
+        delayInMinutes: 1,
+        periodInMinutes: RETENTION_CONFIG.ALARM_PERIOD_MINUTES,
+      });
+      loggers.retentionManager.debug('Retention alarm scheduled');
+    }
+  }
+
+  /**
+   * Get the current policy (defaults merged with stored overrides)
+   */
+  async getPolicy(): Promise<RetentionPolicy> {
+    const result = await chrome.storage.local.get(POLICY_STORAGE_KEY);
+    return this._sanitizePolicy(result[POLICY_STORAGE_KEY]);
+  }
+
+  /**
+   * Update the policy
+   * @param updates Limits to change (0 disables a limit)
+   */
+  async setPolicy(updates: Partial<RetentionPolicy>): Promise<RetentionPolicy> {
+    const policy = this._sanitizePolicy({ ...(await this.getPolicy()), ...updates });
+    await chrome.storage.local.set({ [POLICY_STORAGE_KEY]: policy });
+    loggers.retentionManager.debug('Retention policy updated:', policy);
+    return policy;
+  }
+
+  /**
+   * Get the report of the last enforcement run (if any)
+   */
+  async getLastReport(): Promise<RetentionReport | null> {
+    const result = await chrome.storage.local.get(REPORT_STORAGE_KEY);
+    return result[REPORT_STORAGE_KEY] ?? null;
+  }
+
+  /**
+   * Apply the retention policy
+   * A dry run of the stored policy marks it as previewed; real runs of a policy
+   * that was not previewed evict nothing (report.skipped)
+   * @param options.dryRun Only report what would be evicted
+   * @param options.policy Limits to preview instead of the stored policy (dry runs only)
+   */
+  async run(options: { dryRun?: boolean; policy?: Partial<RetentionPolicy> } = {}): Promise<RetentionReport> {
+    const dryRun = options.dryRun ?? false;
+
+    // Never run two enforcement passes at once
+    if (!dryRun && this.running) {
+      return this.running;
+    }
+
+    const task = (async () => {
+      const stored = await this.getPolicy();
+      const policy = dryRun && options.policy ? this._sanitizePolicy({ ...stored, ...options.policy }) : stored;
+
+      if (dryRun && isSamePolicy(policy, stored)) {
+        await chrome.storage.local.set({ [PREVIEWED_STORAGE_KEY]: policy });
+      } else if (!dryRun && !(await this._isPreviewed(policy))) {
+        loggers.retentionManager.debug('Retention policy not previewed yet; nothing evicted');
+        const { report } = await this._plan(NO_LIMITS, false);
+        const skipped: RetentionReport = { ...report, policy, skipped: 'not-previewed' };
+        await chrome.storage.local.set({ [REPORT_STORAGE_KEY]: skipped });
+        return skipped;
+      }
+
+      const { evicted, report } = await this._plan(policy, dryRun);
+
+      if (!dryRun && evicted.length > 0) {
+        for (const candidate of evicted) {
+          await vectorStore.deletePage(candidate.id);
+          await annIndex.removePage(candidate.id);
+        }
+        loggers.retentionManager.info(`Retention evicted ${evicted.length} pages`);
+      }
+
+      if (!dryRun) {
+        await chrome.storage.local.set({ [REPORT_STORAGE_KEY]: report });
+      }
+
+      return report;
+    })();
+
+    if (dryRun) {
+      return task;
+    }
+
+    this.running = task.finally(() => {
+      this.running = null;
+    });
+    return this.running;
+  }
+
+  /**
+   * Handle a chrome.alarms event
+   */
+  async handleAlarm(alarm: chrome.alarms.Alarm): Promise<void> {
+    if (alarm.name !== RETENTION_ALARM_NAME) {
+      return;
+    }
+
+    try {
+      await this.run();
+    } catch (error) {
+      loggers.retentionManager.error('Scheduled retention run failed:', error);
+    }
+  }
+
+  /**
+   * Whether a dry run of exactly this policy has been shown (a policy without limits needs none)
+   */
+  private async _isPreviewed(policy: RetentionPolicy): Promise<boolean> {
+    if (isSamePolicy(policy, NO_LIMITS)) {
+      return true;
+    }
+    const result = await chrome.storage.local.get(PREVIEWED_STORAGE_KEY);
+    return isSamePolicy(this._sanitizePolicy(result[PREVIEWED_STORAGE_KEY]), policy);
+  }
+
+  /**
+   * Select the pages to evict under a policy
+   */
+  private async _plan(
+    policy: RetentionPolicy,
+    dryRun: boolean
+  ): Promise<{ evicted: EvictionCandidate[]; report: RetentionReport }> {
+    const [metadata, stats] = await Promise.all([vectorStore.getAllPageMetadata(), vectorStore.getStats()]);
+    const now = Date.now();
+
+    const evicted: EvictionCandidate[] = [];
+    const evict = (page: PageMetadata, reason: EvictionReason) => {
+      evicted.push({
+        id: page.id,
+        url: page.url,
+        title: page.title,
+        timestamp: page.timestamp,
+        lastAccessed: page.lastAccessed,
+        dwellTime: page.dwellTime,
+        visitCount: page.visitCount,
+        sizeBytes: estimatePageSizeBytes(page),
+        reason,
+      });
+    };
+
+    // Pages past the age limit go first
+    const ageCutoff = policy.maxAgeDays > 0 ? now - policy.maxAgeDays * DAY_MS : 0;
+    const kept: PageMetadata[] = [];
+    for (const page of metadata) {
+      if (ageCutoff > 0 && Math.max(page.timestamp, page.lastAccessed) < ageCutoff) {
+        evict(page, 'age');
+      } else {
+        kept.push(page);
+      }
+    }
+
+    // Then the least valuable pages until count and size fit
+    let remainingPages = kept.length;
+    let remainingBytes = stats.sizeBytes - evicted.reduce((sum, candidate) => sum + candidate.sizeBytes, 0);
+    kept.sort(compareRetention);
+
+    for (const page of kept) {
+      const overPages = policy.maxPages > 0 && remainingPages > policy.maxPages;
+      const overBytes = policy.maxBytes > 0 && remainingBytes > policy.maxBytes;
+      if (!overPages && !overBytes) {
+        break;
+      }
+
+      evict(page, overPages ? 'pages' : 'bytes');
+      remainingPages--;
+      remainingBytes -= evicted[evicted.length - 1].sizeBytes;
+    }
+
+    loggers.retentionManager.debug(
+      `${dryRun ? 'Dry run: ' : ''}${evicted.length}/${metadata.length} pages selected for eviction`
+    );
+
+    return {
+      evicted,
+      report: {
+        dryRun,
+        policy,
+        totalPages: metadata.length,
+        totalBytes: stats.sizeBytes,
+        remainingPages,
+        remainingBytes: Math.max(0, remainingBytes),
+        evictedCount: evicted.length,
+        candidates: evicted.slice(0, RETENTION_CONFIG.PREVIEW_LIMIT),
+        ranAt: now,
+      },
+    };
+  }
+
+  private _sanitizePolicy(raw: unknown): RetentionPolicy {
+    const value = (raw && typeof raw === 'object' ? raw : {}) as Record<string, unknown>;
+    return {
+      maxPages: toLimit(value.maxPages, DEFAULT_POLICY.maxPages),
+      maxBytes: toLimit(value.maxBytes, DEFAULT_POLICY.maxBytes),
+      maxAgeDays: toLimit(value.maxAgeDays, DEFAULT_POLICY.maxAgeDays),
+    };
+  }
+}
+
+// Export singleton instance
+export const retentionManager = new RetentionManager();
@@ -8,9 +8,16 @@ export interface TabInfo {
   url: string;
   title: string;
   tabId: number;
+  windowId: number;
   startTime: number;
   dwellTime: number;
   isActive: boolean;
+
+  /** Identifies this page load in the visit log (re-sent with the final dwell time) */
+  visitId: string;
+
+  /** webNavigation transition type of the load ('unknown' if not observed) */
+  transitionType: string;
 }
 
 export interface TabMonitorConfig {
@@ -33,6 +40,7 @@ export class TabMonitor {
   private config: TabMonitorConfig;
   private tabs: Map<number, TabInfo> = new Map();
   private activeTabId: number | null = null;
+  private transitions: Map<number, string> = new Map();
   private onIndexTrigger: IndexTriggerCallback | null = null;
 
   constructor(config: Partial<TabMonitorConfig> = {}) {
@@ -63,6 +71,13 @@ export class TabMonitor {
    * Set up Chrome API event listeners
    */
   private _setupListeners(): void {
+    // Remember how each top-level navigation started (link, typed, reload, ...)
+    chrome.webNavigation.onCommitted.addListener((details) => {
+      if (details.frameId === 0) {
+        this.transitions.set(details.tabId, details.transitionType);
+      }
+    });
+
     // Listen for tab updates (page loads, URL changes)
     chrome.tabs.onUpdated.addListener((tabId, changeInfo, tab) => {
       this._handleTabUpdated(tabId, changeInfo, tab);
@@ -125,10 +140,14 @@ export class TabMonitor {
         url: tab.url,
         title: tab.title || '',
         tabId,
+        windowId: tab.windowId,
         startTime: Date.now(),
         dwellTime: 0,
         isActive,
+        visitId: crypto.randomUUID(),
+        transitionType: this.transitions.get(tabId) ?? 'unknown',
       };
+      this.transitions.delete(tabId);
       
       this.tabs.set(tabId, tabInfo);
 
@@ -171,6 +190,7 @@ export class TabMonitor {
       // No need to trigger indexing on close - already indexed on page load
       this._removeTab(tabId);
     }
+    this.transitions.delete(tabId);
 
     if (this.activeTabId === tabId) {
       this.activeTabId = null;
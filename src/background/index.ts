@@ -6,12 +6,30 @@
 import { embeddingGemmaService } from '../lib/embeddings/EmbeddingGemmaService';
 import { vectorStore } from '../lib/storage/VectorStore';
 import { hybridSearch } from '../lib/search/HybridSearch';
+import { findSimilarPages } from '../lib/search/VectorSearch';
+import { suggestQueries } from '../lib/search/suggestions';
+import { annIndex } from '../lib/search/AnnIndex';
 import { ragController } from '../lib/rag/RAGController';
 import { TabMonitor } from './TabMonitor';
 import { indexingQueue } from './IndexingQueue';
 import { indexingPipeline } from './IndexingPipeline';
 import { offscreenManager } from './OffscreenManager';
-import type { PageMetadata, PageRecord } from '../lib/storage/types';
+import { indexImporter } from './IndexImporter';
+import { reembeddingJob } from './ReembeddingJob';
+import { retentionManager } from './RetentionManager';
+import { rankingTuner, defaultRankingWeights } from './RankingTuner';
+import {
+  toVisitTimeline,
+  toPageVersionsPayload,
+  toFacetedPayload,
+  toSearchResultPayload,
+  type FacetedPayload,
+  type HistoryEntry,
+  type SearchPortMessage,
+} from './payloads';
+import { OMNIBOX_CONFIG } from '../lib/config/searchConfig';
+import type { PageRecord } from '../lib/storage/types';
+import type { SearchOptions } from '../lib/search/types';
 
 console.log('[Rewind.] Background service worker started');
 
@@ -21,8 +39,12 @@ let queueProcessor: ReturnType<typeof setInterval> | null = null;
 
 const HISTORY_CHUNK_SIZE = 100;
 const EXPORT_CHUNK_SIZE = 25;
+const SEARCH_PORT_NAME = 'rewind-search';
 
-async function streamPageMetadataToTab(tabId: number, requestId: string, pages: PageMetadata[]): Promise<void> {
+// Running RAG queries by request ID (CANCEL_RAG_QUERY aborts them)
+const runningRagQueries = new Map<string, AbortController>();
+
+async function streamPageMetadataToTab(tabId: number, requestId: string, pages: HistoryEntry[]): Promise<void> {
   const totalChunks = Math.ceil(pages.length / HISTORY_CHUNK_SIZE);
 
   for (let chunkIndex = 0; chunkIndex < totalChunks; chunkIndex++) {
@@ -90,6 +112,48 @@ async function streamPageRecordsToTab(tabId: number, requestId: string, pages: P
   }
 }
 
+type SearchRequest = { query: string; options?: SearchOptions; log?: boolean };
+
+/**
+ * Run a search request (SEARCH_QUERY or a streamed SEARCH)
+ * onPartial receives the keyword-only preview of a hybrid search. An aborted
+ * search rejects with the signal's reason and is neither logged nor recorded as
+ * an impression
+ */
+async function runSearchRequest(
+  request: SearchRequest,
+  onPartial?: (partial: FacetedPayload) => void,
+  signal?: AbortSignal
+) {
+  const { query, options, log } = request;
+
+  // options.filters (domains, time range, dwell time, visit count) pass through as-is;
+  // weights fitted from click feedback apply unless the request sets its own
+  const searchOptions = {
+    mode: options?.mode || 'hybrid',
+    ...(await rankingTuner.getSearchOptions()),
+    ...options,
+  };
+  const faceted = await hybridSearch.searchWithFacets(
+    query,
+    { ...searchOptions, signal },
+    onPartial ? partial => onPartial(toFacetedPayload(partial)) : undefined
+  );
+  // Cache hits return even when aborted
+  signal?.throwIfAborted();
+
+  // As-you-type searches are logged as impressions only once a result is opened
+  const impressionId = await rankingTuner.recordImpression(query, searchOptions.mode, faceted.results, searchOptions, !log);
+
+  // Committed searches (not every as-you-type refinement) go to the search log
+  if (log) {
+    await vectorStore.recordSearch(query, faceted.results.length);
+  }
+  const saved = ((await vectorStore.getSearch(query))?.pinnedAt ?? 0) > 0;
+
+  return { ...toFacetedPayload(faceted), saved, impressionId };
+}
+
 // Flag to track initialization state
 let isInitialized = false;
 let initializationPromise: Promise<void> | null = null;
@@ -198,6 +262,19 @@ async function initializePhase3(): Promise<void> {
     startQueueProcessor();
     console.log('[Rewind.] ✅ Queue processor started');
 
+    // Schedule retention enforcement
+    await retentionManager.initialize();
+    console.log('[Rewind.] ✅ Retention alarm scheduled');
+
+    // Schedule ranking weight fitting from click feedback
+    await rankingTuner.initialize();
+    console.log('[Rewind.] ✅ Ranking tuning alarm scheduled');
+
+    // Re-embed pages left with a stale embedding signature (non-blocking)
+    reembeddingJob.resumeIfNeeded().catch((error) => {
+      console.error('[Rewind.] Failed to resume re-embedding:', error);
+    });
+
     console.log('[Rewind.] 🎉 Initialization complete!');
     console.log('[Rewind.] Ready to index pages with passage-based embeddings');
 
@@ -618,7 +695,14 @@ chrome.runtime.onMessage.addListener((message, sender, sendResponse) => {
         }
 
         try {
-          const pages = await vectorStore.getAllPageMetadata();
+          const [metadata, visitSummaries] = await Promise.all([
+            vectorStore.getAllPageMetadata(),
+            vectorStore.getVisitSummaries(),
+          ]);
+          const pages: HistoryEntry[] = metadata.map((page) => ({
+            ...page,
+            visitTimeline: toVisitTimeline(visitSummaries.get(page.id)),
+          }));
           console.log('[Rewind.] Retrieved metadata for', pages.length, 'pages');
 
           if (pages.length === 0) {
@@ -663,13 +747,16 @@ chrome.runtime.onMessage.addListener((message, sender, sendResponse) => {
           const pages = await vectorStore.getAllPages();
           console.log('[Rewind.] Retrieved', pages.length, 'pages for export');
 
+          // Recorded so IMPORT_INDEX knows whether the embeddings can be reused
+          const embeddingModel = embeddingGemmaService.getModelInfo().name;
+
           if (pages.length === 0) {
-            sendResponse({ success: true, pages: [] });
+            sendResponse({ success: true, pages: [], embeddingModel });
             return;
           }
 
           if (pages.length <= EXPORT_CHUNK_SIZE) {
-            sendResponse({ success: true, pages });
+            sendResponse({ success: true, pages, embeddingModel });
             return;
           }
 
@@ -680,6 +767,7 @@ chrome.runtime.onMessage.addListener((message, sender, sendResponse) => {
             requestId,
             total: pages.length,
             chunkSize: EXPORT_CHUNK_SIZE,
+            embeddingModel,
           });
 
           await streamPageRecordsToTab(tabId, requestId, pages);
@@ -690,6 +778,73 @@ chrome.runtime.onMessage.addListener((message, sender, sendResponse) => {
       })();
       return true;
 
+    case 'IMPORT_INDEX':
+      // Restore an EXPORT_INDEX dump: { pages } in one message, or { chunked: true }
+      // followed by IMPORT_INDEX_CHUNK messages and IMPORT_INDEX_COMPLETE
+      console.log('[Rewind.] IMPORT_INDEX request received');
+      (async () => {
+        try {
+          if (message.chunked) {
+            const requestId = indexImporter.begin(message.embeddingModel);
+            sendResponse({ success: true, chunked: true, requestId, chunkSize: EXPORT_CHUNK_SIZE });
+            return;
+          }
+
+          const pages = message.pages ?? message.payload?.pages;
+          if (!Array.isArray(pages)) {
+            sendResponse({ success: false, error: 'IMPORT_INDEX requires a pages array' });
+            return;
+          }
+
+          const summary = await indexImporter.importPages(
+            pages,
+            message.embeddingModel ?? message.payload?.embeddingModel
+          );
+          console.log('[Rewind.] Import complete:', summary);
+          sendResponse({ success: true, summary });
+        } catch (error) {
+          console.error('[Rewind.] Failed to import index:', error);
+          sendResponse({ success: false, error: (error as Error).message });
+        }
+      })();
+      return true;
+
+    case 'IMPORT_INDEX_CHUNK':
+      (async () => {
+        try {
+          if (!Array.isArray(message.pages)) {
+            sendResponse({ success: false, error: 'IMPORT_INDEX_CHUNK requires a pages array' });
+            return;
+          }
+
+          const summary = await indexImporter.importChunk(message.requestId, message.pages);
+          sendResponse({
+            success: true,
+            requestId: message.requestId,
+            chunkIndex: message.chunkIndex,
+            totalChunks: message.totalChunks,
+            summary,
+          });
+        } catch (error) {
+          console.error('[Rewind.] Failed to import chunk:', error);
+          sendResponse({ success: false, error: (error as Error).message });
+        }
+      })();
+      return true;
+
+    case 'IMPORT_INDEX_COMPLETE':
+      indexImporter
+        .complete(message.requestId)
+        .then((summary) => {
+          console.log('[Rewind.] Import complete:', summary);
+          sendResponse({ success: true, requestId: message.requestId, summary });
+        })
+        .catch((error) => {
+          console.error('[Rewind.] Failed to complete import:', error);
+          sendResponse({ success: false, error: error.message });
+        });
+      return true;
+
     case 'CLEAR_HISTORY':
       // Clear all history from IndexedDB
       console.log('[Rewind.] CLEAR_HISTORY request received');
@@ -697,6 +852,7 @@ chrome.runtime.onMessage.addListener((message, sender, sendResponse) => {
         .clearAll()
         .then(() => {
           console.log('[Rewind.] All history cleared successfully');
+          annIndex.reset();
           // Also clear the indexing queue to remove stale items
           indexingQueue
             .clear()
@@ -719,33 +875,115 @@ chrome.runtime.onMessage.addListener((message, sender, sendResponse) => {
       // Perform hybrid search (semantic + keyword + RRF fusion)
       (async () => {
         try {
-          const { query, options } = message;
+          const payload = await runSearchRequest(message);
+          sendResponse({ success: true, ...payload });
+        } catch (error) {
+          console.error('[Rewind.] Search failed:', error);
+          sendResponse({ success: false, error: (error as Error).message });
+        }
+      })();
+      return true;
 
-          const searchResults = await hybridSearch.search(query, {
-            mode: options?.mode || 'hybrid',
-            ...options,
-          });
+    case 'GET_SEARCH_SUGGESTIONS':
+      // Autocomplete: past queries and page titles matching the typed prefix
+      (async () => {
+        try {
+          const suggestions = await suggestQueries(message.prefix ?? '');
+          sendResponse({ success: true, suggestions });
+        } catch (error) {
+          console.error('[Rewind.] Search suggestions failed:', error);
+          sendResponse({ success: false, error: (error as Error).message });
+        }
+      })();
+      return true;
 
-          const resultsPayload = searchResults.map(result => ({
-            id: result.page.id,
-            url: result.page.url,
-            title: result.page.title,
-            content: result.page.content,
-            similarity: result.similarity ?? null,
-            relevanceScore: result.relevanceScore ?? null,
-            keywordScore: result.keywordScore ?? null,
-            confidence: result.confidence ?? 'low',
-            matchedTerms: result.matchedTerms ?? [],
-            topPassageSnippet: result.topPassageSnippet ?? null,
-            timestamp: result.page.timestamp,
-            dwellTime: result.page.dwellTime,
-            lastAccessed: result.page.lastAccessed,
-            visitCount: result.page.visitCount,
-          }));
+    case 'SAVE_SEARCH':
+      // Save (pin) or unsave a search query
+      (async () => {
+        try {
+          await vectorStore.setSearchPinned(message.query, message.saved !== false);
+          sendResponse({ success: true });
+        } catch (error) {
+          console.error('[Rewind.] Failed to save search:', error);
+          sendResponse({ success: false, error: (error as Error).message });
+        }
+      })();
+      return true;
 
-          sendResponse({ success: true, results: resultsPayload });
+    case 'DELETE_SEARCH':
+      // Remove a query from the search log
+      (async () => {
+        try {
+          await vectorStore.deleteSearch(message.query);
+          sendResponse({ success: true });
         } catch (error) {
-          console.error('[Rewind.] Search failed:', error);
+          console.error('[Rewind.] Failed to delete search:', error);
+          sendResponse({ success: false, error: (error as Error).message });
+        }
+      })();
+      return true;
+
+    case 'RECORD_SEARCH_CLICK':
+      // Result opened from a search: log the outcome with the query
+      (async () => {
+        try {
+          await vectorStore.recordSearchClick(message.query, message.pageId);
+          if (message.impressionId) {
+            await rankingTuner.recordClick(message.impressionId, message.pageId);
+          }
+          sendResponse({ success: true });
+        } catch (error) {
+          console.error('[Rewind.] Failed to record search click:', error);
+          sendResponse({ success: false, error: (error as Error).message });
+        }
+      })();
+      return true;
+
+    case 'FIND_SIMILAR':
+      // "More like this": pages similar to an indexed page, by ID or by URL (the page open in a tab)
+      (async () => {
+        try {
+          const { pageId, url, options } = message;
+          const page = pageId
+            ? (await vectorStore.getPageMetadataByIds([pageId])).get(pageId)
+            : url ? await vectorStore.getPageByUrl(url) : null;
+
+          if (!page) {
+            // Not indexed (yet): nothing to compare against
+            sendResponse({ success: true, page: null, results: [] });
+            return;
+          }
+
+          const similar = await findSimilarPages(page.id, options);
+          const summaries = await vectorStore.getVisitSummaries(similar.map(result => result.page.id));
+          const results = similar.map(result => toSearchResultPayload({ ...result, visits: summaries.get(result.page.id) }));
+
+          sendResponse({ success: true, page: { id: page.id, url: page.url, title: page.title }, results });
+        } catch (error) {
+          console.error('[Rewind.] Find similar failed:', error);
+          sendResponse({ success: false, error: (error as Error).message });
+        }
+      })();
+      return true;
+
+    case 'GET_PAGE_VERSIONS':
+      // Current content and archived versions of a page (newest first, without embeddings)
+      (async () => {
+        try {
+          const pageId = message.pageId;
+          const [page, versions] = await Promise.all([
+            vectorStore.getPage(pageId),
+            vectorStore.getPageVersions(pageId),
+          ]);
+
+          if (!page) {
+            sendResponse({ success: false, error: `Page not found: ${pageId}` });
+            return;
+          }
+
+          sendResponse({ success: true, ...toPageVersionsPayload(page, versions) });
+        } catch (error) {
+          console.error('[Rewind.] Failed to get page versions:', error);
           sendResponse({ success: false, error: (error as Error).message });
         }
       })();
@@ -772,6 +1010,8 @@ chrome.runtime.onMessage.addListener((message, sender, sendResponse) => {
             visitCount: 1,
           });
 
+          await annIndex.upsertPage(id, passages);
+
           sendResponse({ success: true, id });
         } catch (error) {
           console.error('[Rewind.] Failed to add test page:', error);
@@ -785,6 +1025,7 @@ chrome.runtime.onMessage.addListener((message, sender, sendResponse) => {
       vectorStore
         .clearDatabase()
         .then(() => {
+          annIndex.reset();
           sendResponse({ success: true });
         })
         .catch((error) => {
@@ -809,8 +1050,11 @@ chrome.runtime.onMessage.addListener((message, sender, sendResponse) => {
       // Update lastAccessed timestamp when user clicks a search result
       (async () => {
         try {
-          const { pageId } = message;
+          const { pageId, impressionId } = message;
           await vectorStore.updatePage(pageId, { lastAccessed: Date.now() });
+          if (impressionId) {
+            await rankingTuner.recordClick(impressionId, pageId);
+          }
           sendResponse({ success: true });
         } catch (error) {
           console.error('[Rewind.] Failed to update lastAccessed:', error);
@@ -871,6 +1115,104 @@ chrome.runtime.onMessage.addListener((message, sender, sendResponse) => {
         });
       return true;
 
+    case 'START_REEMBEDDING':
+      reembeddingJob
+        .start()
+        .then((progress) => sendResponse({ success: true, progress }))
+        .catch((error) => {
+          console.error('[Rewind.] Failed to start re-embedding:', error);
+          sendResponse({ success: false, error: error.message });
+        });
+      return true;
+
+    case 'PAUSE_REEMBEDDING':
+      reembeddingJob
+        .pause()
+        .then((progress) => sendResponse({ success: true, progress }))
+        .catch((error) => {
+          sendResponse({ success: false, error: error.message });
+        });
+      return true;
+
+    case 'GET_RETENTION_POLICY':
+      Promise.all([retentionManager.getPolicy(), retentionManager.getLastReport()])
+        .then(([policy, lastRun]) => sendResponse({ success: true, policy, lastRun }))
+        .catch((error) => {
+          sendResponse({ success: false, error: error.message });
+        });
+      return true;
+
+    case 'SET_RETENTION_POLICY':
+      retentionManager
+        .setPolicy(message.policy ?? {})
+        .then((policy) => sendResponse({ success: true, policy }))
+        .catch((error) => {
+          console.error('[Rewind.] Failed to update retention policy:', error);
+          sendResponse({ success: false, error: error.message });
+        });
+      return true;
+
+    case 'RUN_RETENTION':
+      // Enforce the retention policy, or preview it with { dryRun: true }
+      retentionManager
+        .run({ dryRun: message.dryRun === true, policy: message.policy })
+        .then((report) => sendResponse({ success: true, report }))
+        .catch((error) => {
+          console.error('[Rewind.] Retention run failed:', error);
+          sendResponse({ success: false, error: error.message });
+        });
+      return true;
+
+    case 'GET_RANKING_TUNING':
+      // Click-feedback tuning state with the weights in effect and the configured defaults
+      Promise.all([rankingTuner.getState(), rankingTuner.getWeights()])
+        .then(([state, weights]) => sendResponse({ success: true, state, weights, defaults: defaultRankingWeights() }))
+        .catch((error) => {
+          sendResponse({ success: false, error: error.message });
+        });
+      return true;
+
+    case 'SET_RANKING_TUNING':
+      // Turn click-feedback logging and fitted weights on or off
+      rankingTuner
+        .setEnabled(message.enabled !== false)
+        .then((state) => sendResponse({ success: true, state }))
+        .catch((error) => {
+          console.error('[Rewind.] Failed to update ranking tuning:', error);
+          sendResponse({ success: false, error: error.message });
+        });
+      return true;
+
+    case 'RUN_RANKING_TUNING':
+      // Fit ranking weights to logged clicks now, or preview the fit with { dryRun: true }
+      rankingTuner
+        .run({ dryRun: message.dryRun === true })
+        .then((report) => sendResponse({ success: true, report }))
+        .catch((error) => {
+          console.error('[Rewind.] Ranking tuning failed:', error);
+          sendResponse({ success: false, error: error.message });
+        });
+      return true;
+
+    case 'RESET_RANKING_TUNING':
+      // Return to the configured ranking weights
+      rankingTuner
+        .reset()
+        .then((state) => sendResponse({ success: true, state }))
+        .catch((error) => {
+          sendResponse({ success: false, error: error.message });
+        });
+      return true;
+
+    case 'GET_REEMBEDDING_STATUS':
+      reembeddingJob
+        .getProgress()
+        .then((progress) => sendResponse({ success: true, progress }))
+        .catch((error) => {
+          sendResponse({ success: false, error: error.message });
+        });
+      return true;
+
   
     case 'RUN_SEARCH_METRICS_TEST':
       // Run comprehensive search metrics test
@@ -898,7 +1240,6 @@ chrome.runtime.onMessage.addListener((message, sender, sendResponse) => {
       })();
       return true;
 
-
     case 'TEST_EMBEDDINGS':
       // Test embedding generation
       (async () => {
@@ -1021,20 +1362,41 @@ chrome.runtime.onMessage.addListener((message, sender, sendResponse) => {
     case 'RAG_QUERY':
       // Answer a question using RAG
       (async () => {
+        // requestId (optional) lets CANCEL_RAG_QUERY stop retrieval and generation
+        const { question, options, requestId } = message;
+        const controller = new AbortController();
+        if (requestId) {
+          runningRagQueries.set(requestId, controller);
+        }
+
         try {
-          const { question, options } = message;
-          const result = await ragController.answerQuestion(question, options);
+          const result = await ragController.answerQuestion(question, { ...options, signal: controller.signal });
           sendResponse({ success: true, result });
         } catch (error) {
+          if (controller.signal.aborted) {
+            console.log('[Rewind.] RAG query cancelled:', requestId);
+            sendResponse({ success: false, cancelled: true, error: 'Cancelled' });
+            return;
+          }
           console.error('[Rewind.] RAG query failed:', error);
           sendResponse({
             success: false,
             error: error instanceof Error ? error.message : 'Unknown error'
           });
+        } finally {
+          if (requestId) {
+            runningRagQueries.delete(requestId);
+          }
         }
       })();
       return true; // Keep message channel open for async response
 
+    case 'CANCEL_RAG_QUERY':
+      // Stop a running RAG_QUERY (its response reports cancelled: true)
+      runningRagQueries.get(message.requestId)?.abort();
+      sendResponse({ success: true });
+      return false;
+
     default:
       console.warn('[Rewind.] Unknown message type:', message.type);
       sendResponse({ error: 'Unknown message type' });
@@ -1042,6 +1404,66 @@ chrome.runtime.onMessage.addListener((message, sender, sendResponse) => {
   }
 });
 
+/**
+ * Streaming search over a long-lived port (the sidebar's search box)
+ * Each SEARCH is answered with SEARCH_PARTIAL (keyword results, hybrid mode only)
+ * and then SEARCH_RESULTS. A newer SEARCH, a CANCEL_SEARCH or disconnecting
+ * aborts the running search; its remaining messages are dropped
+ */
+chrome.runtime.onConnect.addListener((port) => {
+  if (port.name !== SEARCH_PORT_NAME) {
+    return;
+  }
+
+  let latestRequestId: unknown = null;
+  let running: AbortController | null = null;
+  let connected = true;
+  port.onDisconnect.addListener(() => {
+    connected = false;
+    running?.abort();
+  });
+
+  const post = (message: SearchPortMessage) => {
+    if (connected && message.requestId === latestRequestId) {
+      port.postMessage(message);
+    }
+  };
+
+  port.onMessage.addListener(async (message) => {
+    if (message?.type === 'CANCEL_SEARCH') {
+      if (message.requestId === latestRequestId) {
+        latestRequestId = null;
+        running?.abort();
+      }
+      return;
+    }
+    if (message?.type !== 'SEARCH') {
+      return;
+    }
+
+    const { requestId } = message;
+    latestRequestId = requestId;
+    running?.abort();
+    const controller = new AbortController();
+    running = controller;
+
+    try {
+      const payload = await runSearchRequest(
+        message,
+        partial => post({ type: 'SEARCH_PARTIAL', requestId, ...partial }),
+        controller.signal
+      );
+      post({ type: 'SEARCH_RESULTS', requestId, success: true, ...payload });
+    } catch (error) {
+      if (controller.signal.aborted) {
+        return;
+      }
+      console.error('[Rewind.] Streaming search failed:', error);
+      post({ type: 'SEARCH_RESULTS', requestId, success: false, error: (error as Error).message });
+    }
+  });
+});
+
 /**
  * Keep service worker alive
  * Service workers can be terminated by the browser, this helps keep it active
@@ -1051,6 +1473,14 @@ setInterval(() => {
   console.log('[Rewind.] Service worker keepalive ping');
 }, KEEP_ALIVE_INTERVAL);
 
+/**
+ * Handle scheduled alarms (retention enforcement, ranking tuning)
+ */
+chrome.alarms.onAlarm.addListener((alarm) => {
+  retentionManager.handleAlarm(alarm);
+  rankingTuner.handleAlarm(alarm);
+});
+
 /**
  * Handle keyboard commands
  */
@@ -1080,8 +1510,18 @@ chrome.action.onClicked.addListener(async (tab) => {
  * Shared logic for both keyboard shortcut and icon click
  */
 async function toggleSidebarOnActiveTab(): Promise<void> {
+  await sendToSidebarOnActiveTab({ type: 'TOGGLE_SIDEBAR' });
+}
+
+/**
+ * Send a message to the sidebar on the active tab, injecting the content script if needed
+ * @returns False when there is no active tab or it cannot host the sidebar
+ */
+async function sendToSidebarOnActiveTab(
+  message: { type: 'TOGGLE_SIDEBAR' } | { type: 'OPEN_SIDEBAR_SEARCH'; query: string }
+): Promise<boolean> {
   try {
-    console.log('[Rewind.] toggleSidebarOnActiveTab() called');
+    console.log('[Rewind.] sendToSidebarOnActiveTab() called:', message.type);
     
     // Get active tab
     const tabs = await chrome.tabs.query({ active: true, currentWindow: true });
@@ -1090,7 +1530,7 @@ async function toggleSidebarOnActiveTab(): Promise<void> {
 
     if (!activeTab?.id) {
       console.warn('[Rewind.] ❌ No active tab found');
-      return;
+      return false;
     }
 
     console.log('[Rewind.] Active tab:', { id: activeTab.id, url: activeTab.url, title: activeTab.title });
@@ -1100,17 +1540,17 @@ async function toggleSidebarOnActiveTab(): Promise<void> {
         activeTab.url?.startsWith('chrome-extension://') ||
         activeTab.url?.startsWith('edge://')) {
       console.warn('[Rewind.] ❌ Cannot run on restricted pages (chrome://, chrome-extension://, etc)');
-      return;
+      return false;
     }
 
-    console.log('[Rewind.] 📤 Sending TOGGLE_SIDEBAR to tab:', activeTab.id);
+    console.log(`[Rewind.] 📤 Sending ${message.type} to tab:`, activeTab.id);
 
     // Try to send message to content script
     try {
-      const response = await chrome.tabs.sendMessage(activeTab.id, { type: 'TOGGLE_SIDEBAR' });
-      console.log('[Rewind.] ✅ TOGGLE_SIDEBAR message sent successfully, response:', response);
+      const response = await chrome.tabs.sendMessage(activeTab.id, message);
+      console.log(`[Rewind.] ✅ ${message.type} message sent successfully, response:`, response);
     } catch (error: any) {
-      console.error('[Rewind.] ❌ Error sending TOGGLE_SIDEBAR:', error);
+      console.error(`[Rewind.] ❌ Error sending ${message.type}:`, error);
       if (error.message?.includes('Could not establish connection') ||
           error.message?.includes('Receiving end does not exist')) {
         console.error('[Rewind.] 💡 Content script not loaded. This usually means:');
@@ -1125,22 +1565,164 @@ async function toggleSidebarOnActiveTab(): Promise<void> {
             target: { tabId: activeTab.id },
             files: ['assets/index.ts-loader-eNwBVaYy.js']
           });
-          console.log('[Rewind.] ✅ Content script injected, retrying toggle...');
+          console.log('[Rewind.] ✅ Content script injected, retrying message...');
           // Wait a bit for script to initialize
           await new Promise(resolve => setTimeout(resolve, 500));
           // Retry sending message
-          await chrome.tabs.sendMessage(activeTab.id, { type: 'TOGGLE_SIDEBAR' });
-          console.log('[Rewind.] ✅ TOGGLE_SIDEBAR sent after manual injection');
+          await chrome.tabs.sendMessage(activeTab.id, message);
+          console.log(`[Rewind.] ✅ ${message.type} sent after manual injection`);
         } catch (injectError) {
           console.error('[Rewind.] ❌ Failed to inject content script:', injectError);
+          return false;
         }
       } else {
         throw error;
       }
     }
+    return true;
+  } catch (error) {
+    console.error('[Rewind.] ❌ Fatal error messaging sidebar:', error);
+    return false;
+  }
+}
+
+/**
+ * Address bar search: "rw <query>" suggests results as the user types
+ * Suggestions come from instant (latency-bounded) searches; Enter runs a full search
+ */
+let omniboxSearch: AbortController | null = null;
+let omniboxWarmTimeout: ReturnType<typeof setTimeout> | null = null;
+const omniboxSuggestedUrls = new Set<string>();
+
+chrome.omnibox.setDefaultSuggestion({ description: 'Open the top Rewind. match for <match>%s</match>' });
+
+chrome.omnibox.onInputChanged.addListener(async (text, suggest) => {
+  stopOmniboxSearch();
+
+  const query = text.trim();
+  if (!query) {
+    suggest([]);
+    return;
+  }
+
+  const controller = new AbortController();
+  omniboxSearch = controller;
+  try {
+    const results = await hybridSearch.search(query, {
+      ...(await rankingTuner.getSearchOptions()),
+      k: OMNIBOX_CONFIG.MAX_SUGGESTIONS,
+      instant: true,
+      signal: controller.signal,
+    });
+    // Cache hits return even when aborted
+    controller.signal.throwIfAborted();
+
+    omniboxSuggestedUrls.clear();
+    results.forEach(result => omniboxSuggestedUrls.add(result.page.url));
+    suggest([
+      ...results.map(result => ({
+        content: result.page.url,
+        description: `${escapeOmniboxText(result.page.title || result.page.url)} <dim>-</dim> <url>${escapeOmniboxText(result.page.url)}</url>`,
+      })),
+      {
+        content: `${OMNIBOX_CONFIG.SIDEBAR_PREFIX}${query}`,
+        description: `All results for <match>${escapeOmniboxText(query)}</match> <dim>in the Rewind. sidebar</dim>`,
+      },
+    ]);
+
+    // After a pause in typing, embed the query: Enter's full search then skips the model, and
+    // an instant search of the same text (typed again after an edit) ranks semantically
+    omniboxWarmTimeout = setTimeout(() => {
+      omniboxWarmTimeout = null;
+      hybridSearch.warmQuery(query).catch(error => console.warn('[Rewind.] Failed to embed omnibox query:', error));
+    }, OMNIBOX_CONFIG.WARM_DELAY_MS);
+  } catch (error) {
+    if (!controller.signal.aborted) {
+      console.error('[Rewind.] Omnibox search failed:', error);
+    }
+  } finally {
+    if (omniboxSearch === controller) {
+      omniboxSearch = null;
+    }
+  }
+});
+
+chrome.omnibox.onInputEntered.addListener(async (text, disposition) => {
+  stopOmniboxSearch();
+
+  const input = text.trim();
+  try {
+    // A suggested result
+    if (omniboxSuggestedUrls.has(input)) {
+      await openOmniboxUrl(input, disposition);
+      return;
+    }
+
+    // "All results": the sidebar on the current tab, or the top match where it cannot open
+    // (e.g. the new tab page)
+    if (input.startsWith(OMNIBOX_CONFIG.SIDEBAR_PREFIX)) {
+      const query = input.slice(OMNIBOX_CONFIG.SIDEBAR_PREFIX.length).trim();
+      if (query && !(await sendToSidebarOnActiveTab({ type: 'OPEN_SIDEBAR_SEARCH', query }))) {
+        await openOmniboxTopMatch(query, disposition);
+      }
+      return;
+    }
+
+    await openOmniboxTopMatch(input, disposition);
   } catch (error) {
-    console.error('[Rewind.] ❌ Fatal error toggling sidebar:', error);
+    console.error('[Rewind.] Omnibox navigation failed:', error);
   }
+});
+
+/**
+ * Abort the running omnibox search and the pending query embedding
+ */
+function stopOmniboxSearch(): void {
+  omniboxSearch?.abort();
+  omniboxSearch = null;
+  if (omniboxWarmTimeout) {
+    clearTimeout(omniboxWarmTimeout);
+    omniboxWarmTimeout = null;
+  }
+}
+
+/**
+ * Open the best match for a query (full search), or the sidebar when nothing matches
+ */
+async function openOmniboxTopMatch(query: string, disposition: chrome.omnibox.OnInputEnteredDisposition): Promise<void> {
+  if (!query) {
+    return;
+  }
+
+  const [top] = await hybridSearch.search(query, { ...(await rankingTuner.getSearchOptions()), k: 1 });
+  if (top) {
+    await openOmniboxUrl(top.page.url, disposition);
+  } else {
+    await sendToSidebarOnActiveTab({ type: 'OPEN_SIDEBAR_SEARCH', query });
+  }
+}
+
+/**
+ * Open a URL where the omnibox asked (current tab, or a new foreground/background tab)
+ */
+async function openOmniboxUrl(url: string, disposition: chrome.omnibox.OnInputEnteredDisposition): Promise<void> {
+  if (disposition === 'currentTab') {
+    await chrome.tabs.update({ url });
+  } else {
+    await chrome.tabs.create({ url, active: disposition === 'newForegroundTab' });
+  }
+}
+
+/**
+ * Escape text for omnibox suggestion markup
+ */
+function escapeOmniboxText(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
 }
 
 console.log('[Rewind.] Background service worker ready');
@@ -0,0 +1,142 @@
+/**
+ * Sidebar payloads - what the background sends the sidebar
+ *
+ * The builders run in the service worker; the sidebar imports the types only.
+ */
+
+import type { PageMetadata, PageRecord, PageVersion, PageVisit, VisitSummary } from '../lib/storage/types';
+import type { FacetedSearchResults, SearchResult } from '../lib/search/types';
+
+/**
+ * Compact visit timeline sent to the sidebar with history entries and search results
+ */
+export interface VisitTimeline {
+  firstVisit: number;
+  lastVisit: number;
+  totalDwellTime: number;
+  visits: Array<Pick<PageVisit, 'startTime' | 'dwellTime' | 'transitionType'>>;
+}
+
+/**
+ * History entry (GET_ALL_PAGES response and chunks)
+ */
+export type HistoryEntry = PageMetadata & { visitTimeline: VisitTimeline | null };
+
+/**
+ * Page content at one point in time (the current content has no replacedAt)
+ */
+export type VersionEntry = Pick<PageVersion, 'id' | 'title' | 'url' | 'content' | 'capturedAt'> & {
+  replacedAt?: number;
+};
+
+/**
+ * GET_PAGE_VERSIONS response: current content and archived versions (newest first, without embeddings)
+ */
+export interface PageVersionsPayload {
+  current: Omit<VersionEntry, 'id' | 'replacedAt'>;
+  versions: VersionEntry[];
+}
+
+/**
+ * Search result as sent to the sidebar
+ */
+export type SearchResultPayload = ReturnType<typeof toSearchResultPayload>;
+
+/**
+ * Search results with facets and query interpretation (SEARCH_QUERY response, search port messages)
+ */
+export type FacetedPayload = ReturnType<typeof toFacetedPayload>;
+
+/**
+ * Messages posted on the search port, tagged with the requestId of their SEARCH
+ */
+export type SearchPortMessage =
+  | ({ type: 'SEARCH_PARTIAL'; requestId: number } & FacetedPayload)
+  | ({ type: 'SEARCH_RESULTS'; requestId: number; success: true; saved: boolean; impressionId: string | null } & FacetedPayload)
+  | { type: 'SEARCH_RESULTS'; requestId: number; success: false; error: string };
+
+/**
+ * Build the visit timeline of a page (null without recorded visits)
+ */
+export function toVisitTimeline(summary: VisitSummary | undefined): VisitTimeline | null {
+  if (!summary) {
+    return null;
+  }
+
+  return {
+    firstVisit: summary.firstVisit,
+    lastVisit: summary.lastVisit,
+    totalDwellTime: summary.totalDwellTime,
+    visits: summary.visits.map((visit) => ({
+      startTime: visit.startTime,
+      dwellTime: visit.dwellTime,
+      transitionType: visit.transitionType,
+    })),
+  };
+}
+
+/**
+ * Build the versions payload of a page
+ */
+export function toPageVersionsPayload(page: PageRecord, versions: PageVersion[]): PageVersionsPayload {
+  return {
+    current: { title: page.title, url: page.url, content: page.content, capturedAt: page.timestamp },
+    versions: versions.map((version) => ({
+      id: version.id,
+      title: version.title,
+      url: version.url,
+      content: version.content,
+      capturedAt: version.capturedAt,
+      replacedAt: version.replacedAt,
+    })),
+  };
+}
+
+/**
+ * Search result as sent to the sidebar (page text without embeddings)
+ */
+export function toSearchResultPayload(result: SearchResult) {
+  return {
+    id: result.page.id,
+    url: result.page.url,
+    title: result.page.title,
+    content: result.page.content,
+    similarity: result.similarity ?? null,
+    relevanceScore: result.relevanceScore ?? null,
+    keywordScore: result.keywordScore ?? null,
+    fusionScore: result.fusionScore ?? null,
+    sourceScores: result.sourceScores ?? null,
+    confidence: result.confidence ?? 'low',
+    matchedTerms: result.matchedTerms ?? [],
+    topPassageId: result.topPassageId ?? null,
+    topPassageSnippet: result.topPassageSnippet ?? null,
+    highlights: result.highlights ?? [],
+    timestamp: result.page.timestamp,
+    dwellTime: result.page.dwellTime,
+    lastAccessed: result.page.lastAccessed,
+    visitCount: result.page.visitCount,
+    versionCount: result.page.versionCount ?? 0,
+    matchedVersion: result.matchedVersion ?? null,
+    explanation: result.explanation ?? null,
+    visitTimeline: toVisitTimeline(result.visits),
+    duplicates: (result.duplicates ?? []).map(duplicate => ({
+      id: duplicate.page.id,
+      url: duplicate.page.url,
+      title: duplicate.page.title,
+      timestamp: duplicate.page.timestamp,
+    })),
+  };
+}
+
+/**
+ * Search results, facets and query interpretation as sent to the sidebar
+ */
+export function toFacetedPayload(faceted: FacetedSearchResults) {
+  return {
+    results: faceted.results.map(toSearchResultPayload),
+    facets: faceted.facets,
+    suggestion: faceted.suggestion ?? null,
+    timeRange: faceted.timeRange ?? null,
+    explanation: faceted.explanation ?? null,
+  };
+}
@@ -6,6 +6,7 @@ import type { Passage } from '../lib/storage/types';
 import { DocumentChunker } from './DocumentChunker';
 import { CONTENT_SELECTORS, UNWANTED_SELECTORS, CONTENT_REQUIREMENTS } from '../lib/constants/contentSelectors';
 import { cleanText, meetsMinimumRequirements } from '../lib/utils/textProcessing';
+import { detectLanguage } from '../lib/utils/languageDetection';
 import { loggers } from '../lib/utils/logger';
 
 export interface ExtractedContent {
@@ -14,6 +15,8 @@ export interface ExtractedContent {
   url: string;
   textLength: number;
   passages: Passage[];
+  /** Detected language (ISO 639-1); undefined when unknown */
+  language?: string;
 }
 
 /**
@@ -63,6 +66,7 @@ export class ContentExtractor {
       url,
       textLength: cleanedContent.length,
       passages,
+      language: detectLanguage(cleanedContent, document.documentElement.lang),
     };
     });
   }
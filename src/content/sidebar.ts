@@ -4,7 +4,19 @@
  */
 
 import { loggers } from '../lib/utils/logger';
-import type { PageMetadata } from '../lib/storage/types';
+import type { HistoryEntry, PageVersionsPayload, SearchPortMessage, VersionEntry } from '../background/payloads';
+import type {
+  FacetCount,
+  QuerySuggestion,
+  ScoreExplanation,
+  SearchExplanation,
+  SearchFacets,
+  SearchFilters,
+  SpellingSuggestion,
+  TimeRange,
+} from '../lib/search/types';
+import { diffText } from '../lib/utils/textDiff';
+import { keywordInContext, highlightSegments } from '../lib/utils/textHighlight';
 
 loggers.sidebar.debug('Initializing sidebar module...');
 
@@ -12,10 +24,25 @@ let sidebarOpen = false;
 let activeSearchQuery: string | null = null;
 let sidebarContainer: HTMLElement | null = null;
 let refreshTimeout: ReturnType<typeof setTimeout> | null = null;
-let historyPagesBuffer: PageMetadata[] = [];
+let historyPagesBuffer: HistoryEntry[] = [];
 let expectedHistoryTotal = 0;
 let historyChunkRenderTimeout: ReturnType<typeof setTimeout> | null = null;
 let activeHistoryRequestId: string | null = null;
+let includeHistory = false;
+let versionsPageId: string | null = null;
+let similarPanelKey: string | null = null; // Page ID (or URL) whose similar pages are shown
+let activeFacets: Partial<Record<keyof SearchFacets, FacetCount>> = {};
+let activeSearchSaved = false;
+let ignoreTimePhrase = false;
+let activeImpressionId: string | null = null;
+let explainRanking = false;
+let activeSearchExplanation: SearchExplanation | null = null;
+let autocompleteItems: QuerySuggestion[] = [];
+let autocompleteIndex = -1;
+let autocompleteRequestId = 0;
+let searchPort: chrome.runtime.Port | null = null;
+let searchRequestId = 0;
+let pendingSearch: { requestId: number; query: string; log: boolean; retried: boolean } | null = null;
 
 /**
  * Create and inject the sidebar overlay
@@ -111,10 +138,23 @@ export function createSidebar(): void {
                 autocomplete="off"
                 spellcheck="false"
               />
+              <button class="rewind-save-search-btn" id="rewindSaveSearchBtn" title="Save this search">☆</button>
             </div>
+            <div id="rewindAutocomplete" class="rewind-autocomplete"></div>
+            <label class="rewind-history-toggle">
+              <input type="checkbox" id="rewindIncludeHistory" />
+              Include past versions
+            </label>
+            <label class="rewind-history-toggle">
+              <input type="checkbox" id="rewindExplainRanking" />
+              Explain ranking
+            </label>
+            <div id="rewindFilterChips" class="rewind-filter-chips"></div>
+            <div id="rewindSuggestion" class="rewind-suggestion"></div>
           </div>
 
-          <!-- Clear History Button -->
+          <!-- Related Pages / Clear History Buttons -->
+          <button id="rewindRelatedBtn" class="rewind-clear-btn">Related to this page</button>
           <button id="rewindClearHistoryBtn" class="rewind-clear-btn">Clear History</button>
 
           <!-- Results Container -->
@@ -417,6 +457,172 @@ function injectStyles(): void {
       color: rgba(0, 0, 0, 0.4);
     }
 
+    .rewind-save-search-btn {
+      position: absolute;
+      right: 8px;
+      top: 50%;
+      transform: translateY(-50%);
+      display: none;
+      font-size: 14px;
+      line-height: 1;
+      color: rgba(0, 0, 0, 0.38);
+      background: none;
+      border: none;
+      padding: 4px;
+      cursor: pointer;
+    }
+
+    .rewind-save-search-btn.visible {
+      display: block;
+    }
+
+    .rewind-save-search-btn.saved {
+      color: #000000;
+    }
+
+    .rewind-autocomplete {
+      display: flex;
+      flex-direction: column;
+      margin-top: 4px;
+      border: 1px solid #E5E5E5;
+      border-radius: 3px;
+      background: #FFFFFF;
+      box-shadow: 0 2px 8px rgba(0, 0, 0, 0.04);
+      overflow: hidden;
+    }
+
+    .rewind-autocomplete:empty {
+      display: none;
+    }
+
+    .rewind-autocomplete-item {
+      display: flex;
+      align-items: center;
+      gap: 8px;
+      padding: 6px 10px;
+      font-family: 'Inter', -apple-system, BlinkMacSystemFont, sans-serif;
+      font-weight: 300;
+      font-size: 12px;
+      color: #000000;
+      cursor: pointer;
+    }
+
+    .rewind-autocomplete-item-active {
+      background: rgba(0, 0, 0, 0.05);
+    }
+
+    .rewind-autocomplete-icon {
+      width: 12px;
+      font-size: 10px;
+      color: rgba(0, 0, 0, 0.38);
+      flex-shrink: 0;
+      text-align: center;
+    }
+
+    .rewind-autocomplete-text {
+      flex: 1;
+      min-width: 0;
+      overflow: hidden;
+      text-overflow: ellipsis;
+      white-space: nowrap;
+    }
+
+    .rewind-autocomplete-remove {
+      font-size: 12px;
+      color: rgba(0, 0, 0, 0.38);
+      background: none;
+      border: none;
+      padding: 0 2px;
+      cursor: pointer;
+    }
+
+    .rewind-autocomplete-remove:hover {
+      color: #000000;
+    }
+
+    .rewind-history-toggle {
+      display: flex;
+      align-items: center;
+      gap: 6px;
+      margin-top: 8px;
+      font-family: 'Inter', -apple-system, BlinkMacSystemFont, sans-serif;
+      font-weight: 300;
+      font-size: 10px;
+      color: rgba(0, 0, 0, 0.5);
+      cursor: pointer;
+    }
+
+    .rewind-history-toggle input {
+      margin: 0;
+    }
+
+    .rewind-suggestion {
+      font-family: 'Inter', -apple-system, BlinkMacSystemFont, sans-serif;
+      font-weight: 300;
+      font-size: 11px;
+      color: rgba(0, 0, 0, 0.5);
+      margin-top: 8px;
+    }
+
+    .rewind-suggestion:empty {
+      display: none;
+    }
+
+    .rewind-suggestion-link {
+      font-family: inherit;
+      font-size: inherit;
+      font-style: italic;
+      color: #000000;
+      background: none;
+      border: none;
+      padding: 0;
+      cursor: pointer;
+      text-decoration: underline;
+    }
+
+    .rewind-filter-chips {
+      display: flex;
+      flex-wrap: wrap;
+      gap: 6px;
+      margin-top: 8px;
+    }
+
+    .rewind-filter-chips:empty {
+      display: none;
+    }
+
+    .rewind-filter-chip {
+      font-family: 'Inter', -apple-system, BlinkMacSystemFont, sans-serif;
+      font-weight: 300;
+      font-size: 10px;
+      color: rgba(0, 0, 0, 0.6);
+      background: rgba(0, 0, 0, 0.04);
+      border: 1px solid rgba(0, 0, 0, 0.08);
+      border-radius: 10px;
+      padding: 2px 8px;
+      cursor: pointer;
+      transition: all 0.2s ease;
+    }
+
+    .rewind-filter-chip:hover {
+      background: rgba(0, 0, 0, 0.08);
+    }
+
+    .rewind-filter-chip-count {
+      color: rgba(0, 0, 0, 0.35);
+      margin-left: 4px;
+    }
+
+    .rewind-filter-chip-active {
+      color: #ffffff;
+      background: rgba(0, 0, 0, 0.75);
+      border-color: transparent;
+    }
+
+    .rewind-filter-chip-active:hover {
+      background: rgba(0, 0, 0, 0.9);
+    }
+
     .rewind-clear-btn {
       font-family: 'Inter', -apple-system, BlinkMacSystemFont, sans-serif;
       font-weight: 300;
@@ -523,6 +729,189 @@ function injectStyles(): void {
       white-space: nowrap;
     }
 
+    .rewind-result-snippet {
+      font-family: 'Inter', -apple-system, BlinkMacSystemFont, sans-serif;
+      font-weight: 300;
+      font-size: 11px;
+      line-height: 1.4;
+      color: rgba(0, 0, 0, 0.55);
+      margin-top: 2px;
+      display: -webkit-box;
+      -webkit-line-clamp: 3;
+      -webkit-box-orient: vertical;
+      overflow: hidden;
+    }
+
+    .rewind-hl-semantic {
+      background: rgba(255, 214, 102, 0.18);
+      color: inherit;
+    }
+
+    .rewind-hl-keyword {
+      background: rgba(255, 214, 102, 0.55);
+      color: #000000;
+      border-radius: 2px;
+    }
+
+    .rewind-versions-btn {
+      font-family: 'Inter', -apple-system, BlinkMacSystemFont, sans-serif;
+      font-weight: 300;
+      font-size: 10px;
+      color: rgba(0, 0, 0, 0.5);
+      background: rgba(0, 0, 0, 0.04);
+      border: none;
+      border-radius: 3px;
+      padding: 2px 6px;
+      cursor: pointer;
+      flex-shrink: 0;
+    }
+
+    .rewind-versions-btn:hover {
+      background: rgba(0, 0, 0, 0.08);
+    }
+
+    .rewind-duplicates {
+      display: none;
+      flex-direction: column;
+      gap: 2px;
+      margin: -4px 0 4px 94px;
+    }
+
+    .rewind-duplicates.expanded {
+      display: flex;
+    }
+
+    .rewind-explanation {
+      display: none;
+      flex-direction: column;
+      gap: 4px;
+      margin: -4px 0 6px 94px;
+      padding: 8px 10px;
+      background: rgba(0, 0, 0, 0.03);
+      border-radius: 8px;
+      font-family: 'SF Mono', Menlo, Consolas, monospace;
+      font-size: 10px;
+      color: rgba(0, 0, 0, 0.65);
+    }
+
+    .rewind-explanation.expanded {
+      display: flex;
+    }
+
+    .rewind-explanation table {
+      border-collapse: collapse;
+    }
+
+    .rewind-explanation td {
+      padding: 1px 10px 1px 0;
+    }
+
+    .rewind-explanation-copy {
+      align-self: flex-start;
+      padding: 2px 8px;
+      border: 1px solid rgba(0, 0, 0, 0.15);
+      border-radius: 6px;
+      background: transparent;
+      font-family: 'Inter', -apple-system, BlinkMacSystemFont, sans-serif;
+      font-size: 10px;
+      color: rgba(0, 0, 0, 0.6);
+      cursor: pointer;
+    }
+
+    .rewind-duplicate-item {
+      font-family: 'Inter', -apple-system, BlinkMacSystemFont, sans-serif;
+      font-weight: 300;
+      font-size: 11px;
+      color: rgba(0, 0, 0, 0.55);
+      padding: 2px 4px;
+      border-radius: 4px;
+      cursor: pointer;
+      overflow: hidden;
+      text-overflow: ellipsis;
+      white-space: nowrap;
+    }
+
+    .rewind-duplicate-item:hover {
+      background: rgba(0, 0, 0, 0.03);
+      color: #000000;
+    }
+
+    /* Versions */
+    .rewind-versions {
+      display: flex;
+      flex-direction: column;
+      gap: 10px;
+      font-family: 'Inter', -apple-system, BlinkMacSystemFont, sans-serif;
+    }
+
+    .rewind-versions-back {
+      align-self: flex-start;
+      font-family: inherit;
+      font-weight: 300;
+      font-size: 10px;
+      color: rgba(0, 0, 0, 0.5);
+      background: none;
+      border: none;
+      padding: 0;
+      cursor: pointer;
+    }
+
+    .rewind-versions-title {
+      font-weight: 400;
+      font-size: 14px;
+      color: #000000;
+    }
+
+    .rewind-versions-list {
+      display: flex;
+      flex-wrap: wrap;
+      gap: 6px;
+    }
+
+    .rewind-version-item {
+      font-family: inherit;
+      font-weight: 400;
+      font-size: 10px;
+      color: #000000;
+      background: #FFFFFF;
+      border: 1px solid #E5E5E5;
+      border-radius: 3px;
+      padding: 4px 8px;
+      cursor: pointer;
+    }
+
+    .rewind-version-item-active {
+      border-color: rgba(0, 0, 0, 0.4);
+    }
+
+    .rewind-version-time {
+      color: rgba(0, 0, 0, 0.38);
+      margin-left: 4px;
+    }
+
+    .rewind-versions-caption {
+      font-weight: 300;
+      font-size: 10px;
+      color: rgba(0, 0, 0, 0.38);
+    }
+
+    .rewind-diff {
+      font-weight: 300;
+      font-size: 12px;
+      line-height: 1.6;
+      color: rgba(0, 0, 0, 0.7);
+      overflow-y: auto;
+    }
+
+    .rewind-diff-delete {
+      background: rgba(220, 38, 38, 0.12);
+      text-decoration: line-through;
+    }
+
+    .rewind-diff-insert {
+      background: rgba(22, 163, 74, 0.14);
+    }
+
     /* Empty State */
     .rewind-empty-state {
       flex: 1;
@@ -546,6 +935,12 @@ function injectStyles(): void {
       padding: 20px 0;
     }
 
+    /* Keyword results shown while semantic scoring completes */
+    .rewind-results-refining {
+      opacity: 0.7;
+      transition: opacity 0.2s ease;
+    }
+
     .rewind-skeleton-item {
       display: flex;
       gap: 12px;
@@ -770,6 +1165,25 @@ function injectStyles(): void {
       transform: scale(0.95);
     }
 
+    .rewind-chat-time-range {
+      max-width: 85%;
+      margin-top: 4px;
+      font-family: 'Inter', -apple-system, BlinkMacSystemFont, sans-serif;
+      font-weight: 300;
+      font-size: 10px;
+      color: rgba(0, 0, 0, 0.5);
+    }
+
+    .rewind-chat-time-range-remove {
+      font: inherit;
+      color: #000000;
+      text-decoration: underline;
+      background: none;
+      border: none;
+      padding: 0;
+      cursor: pointer;
+    }
+
     .rewind-chat-sources {
       max-width: 85%;
       padding: 10px;
@@ -900,9 +1314,30 @@ function injectStyles(): void {
     @keyframes rewindSpin {
       to { transform: rotate(360deg); }
     }
-  `;
 
-    document.head.appendChild(style);
+    .rewind-chat-stop-btn {
+      margin-left: auto;
+      padding: 2px 8px;
+      border: 1px solid rgba(0, 0, 0, 0.15);
+      border-radius: 6px;
+      background: transparent;
+      font-family: inherit;
+      font-size: 11px;
+      color: rgba(0, 0, 0, 0.6);
+      cursor: pointer;
+    }
+
+    .rewind-chat-stop-btn:hover:not(:disabled) {
+      background: rgba(0, 0, 0, 0.05);
+    }
+
+    .rewind-chat-stop-btn:disabled {
+      cursor: default;
+      opacity: 0.5;
+    }
+  `;
+
+    document.head.appendChild(style);
     loggers.sidebar.debug('Styles successfully injected');
   } catch (error) {
     console.error('[Rewind. Sidebar] Error injecting styles:', error);
@@ -954,8 +1389,17 @@ function setupEventListeners(): void {
       clearTimeout(searchTimeout);
     }
 
+    requestAutocomplete(query);
+    ignoreTimePhrase = false;
+
+    // The running search is stale once the query changes
+    cancelSearch();
+
     if (!query) {
       activeSearchQuery = null;
+      clearFilterChips();
+      renderSuggestion(null);
+      renderSaveSearchButton(false);
       loadAllHistory();
       return;
     }
@@ -972,6 +1416,66 @@ function setupEventListeners(): void {
     }, 300);
   });
 
+  // Autocomplete: recent and saved searches on focus, keyboard navigation, Enter commits the query
+  searchInput?.addEventListener('focus', () => requestAutocomplete(searchInput.value.trim()));
+  searchInput?.addEventListener('blur', () => renderAutocomplete([]));
+  searchInput?.addEventListener('keydown', (e) => {
+    if (e.key === 'ArrowDown' || e.key === 'ArrowUp') {
+      if (autocompleteItems.length === 0) return;
+      e.preventDefault();
+      const step = e.key === 'ArrowDown' ? 1 : -1;
+      autocompleteIndex = (autocompleteIndex + step + autocompleteItems.length + 1) % (autocompleteItems.length + 1) - 1;
+      renderAutocomplete(autocompleteItems);
+    } else if (e.key === 'Enter') {
+      const picked = autocompleteItems[autocompleteIndex];
+      const query = picked ? picked.text : searchInput.value.trim();
+      if (searchTimeout) {
+        clearTimeout(searchTimeout);
+        searchTimeout = null;
+      }
+      if (query) {
+        commitSearch(query);
+      }
+    } else if (e.key === 'Escape') {
+      renderAutocomplete([]);
+    }
+  });
+
+  // Save (pin) the active search
+  const saveSearchBtn = sidebarContainer.querySelector('#rewindSaveSearchBtn');
+  saveSearchBtn?.addEventListener('click', async () => {
+    if (!activeSearchQuery) return;
+    const saved = !activeSearchSaved;
+    try {
+      await chrome.runtime.sendMessage({ type: 'SAVE_SEARCH', query: activeSearchQuery, saved });
+      renderSaveSearchButton(saved);
+    } catch (error) {
+      console.error('[Rewind. Sidebar] Error saving search:', error);
+    }
+  });
+
+  // Include archived page versions in search
+  const includeHistoryInput = sidebarContainer.querySelector('#rewindIncludeHistory') as HTMLInputElement;
+  includeHistoryInput?.addEventListener('change', () => {
+    includeHistory = includeHistoryInput.checked;
+    if (activeSearchQuery) {
+      performSearch(activeSearchQuery);
+    }
+  });
+
+  // Debug overlay: score breakdown per result
+  const explainRankingInput = sidebarContainer.querySelector('#rewindExplainRanking') as HTMLInputElement;
+  explainRankingInput?.addEventListener('change', () => {
+    explainRanking = explainRankingInput.checked;
+    if (activeSearchQuery) {
+      performSearch(activeSearchQuery);
+    }
+  });
+
+  // Pages similar to the one open in this tab
+  const relatedBtn = sidebarContainer.querySelector('#rewindRelatedBtn');
+  relatedBtn?.addEventListener('click', () => showSimilar({ url: window.location.href }));
+
   // Clear history button
   const clearBtn = sidebarContainer.querySelector('#rewindClearHistoryBtn');
   clearBtn?.addEventListener('click', clearHistory);
@@ -1023,12 +1527,7 @@ function setupEventListeners(): void {
  * Open the sidebar
  */
 export function openSidebar(): void {
-  if (!sidebarContainer) {
-    createSidebar();
-  }
-  
-  sidebarContainer?.classList.remove('rewind-sidebar-hidden');
-  sidebarOpen = true;
+  showSidebar();
   
   // Load initial data
   if (activeSearchQuery) {
@@ -1038,6 +1537,29 @@ export function openSidebar(): void {
   }
 }
 
+/**
+ * Open the sidebar on the Search tab with a query (address bar "all results")
+ */
+export function openSidebarSearch(query: string): void {
+  showSidebar();
+  (sidebarContainer?.querySelector('#rewindSearchTab') as HTMLElement | null)?.click();
+  commitSearch(query);
+}
+
+/**
+ * Show the sidebar, creating it on first use
+ */
+function showSidebar(): void {
+  if (!sidebarContainer) {
+    createSidebar();
+  }
+
+  sidebarContainer?.classList.remove('rewind-sidebar-hidden');
+  sidebarOpen = true;
+  versionsPageId = null;
+  similarPanelKey = null;
+}
+
 /**
  * Close the sidebar
  */
@@ -1064,6 +1586,11 @@ function handlePageIndexed(pageInfo: { id: string; url: string; title: string; t
     return;
   }
 
+  // Keep the versions and similar-pages views open
+  if (versionsPageId || similarPanelKey) {
+    return;
+  }
+
   // Debounce rapid updates (if multiple pages indexed quickly)
   if (refreshTimeout) {
     clearTimeout(refreshTimeout);
@@ -1150,32 +1677,343 @@ async function loadAllHistory(): Promise<void> {
 /**
  * Perform search
  */
-async function performSearch(query: string): Promise<void> {
+/**
+ * Run a query the user settled on (Enter or a picked suggestion) and log it
+ */
+function commitSearch(query: string): void {
+  const searchInput = sidebarContainer?.querySelector('#rewindSearchInput') as HTMLInputElement | null;
+  if (searchInput) {
+    searchInput.value = query;
+  }
+
+  renderAutocomplete([]);
+  activeSearchQuery = query;
+  ignoreTimePhrase = false;
+  if (refreshTimeout) {
+    clearTimeout(refreshTimeout);
+    refreshTimeout = null;
+  }
+  performSearch(query, true);
+}
+
+/**
+ * Fetch autocomplete suggestions for the typed text (latest request wins)
+ */
+async function requestAutocomplete(prefix: string): Promise<void> {
+  const requestId = ++autocompleteRequestId;
+  try {
+    const response = await chrome.runtime.sendMessage({ type: 'GET_SEARCH_SUGGESTIONS', prefix });
+    const searchInput = sidebarContainer?.querySelector('#rewindSearchInput');
+    if (requestId !== autocompleteRequestId || document.activeElement !== searchInput) {
+      return;
+    }
+    autocompleteIndex = -1;
+    renderAutocomplete(response?.success ? response.suggestions : []);
+  } catch (error) {
+    console.error('[Rewind. Sidebar] Error loading suggestions:', error);
+  }
+}
+
+/**
+ * Render the autocomplete dropdown (an empty list hides it)
+ */
+function renderAutocomplete(suggestions: QuerySuggestion[]): void {
+  const container = sidebarContainer?.querySelector('#rewindAutocomplete');
+  if (!container) return;
+
+  autocompleteItems = suggestions;
+  if (suggestions.length === 0) {
+    autocompleteIndex = -1;
+    container.innerHTML = '';
+    return;
+  }
+
+  const icons: Record<QuerySuggestion['source'], string> = { saved: '★', history: '↺', title: '▤' };
+  container.innerHTML = suggestions
+    .map((suggestion, index) => `
+      <div class="rewind-autocomplete-item${index === autocompleteIndex ? ' rewind-autocomplete-item-active' : ''}" data-index="${index}">
+        <span class="rewind-autocomplete-icon">${icons[suggestion.source]}</span>
+        <span class="rewind-autocomplete-text">${escapeHtml(suggestion.text)}</span>
+        ${suggestion.source === 'title' ? '' : `<button class="rewind-autocomplete-remove" data-index="${index}" title="${suggestion.source === 'saved' ? 'Unsave' : 'Remove from history'}">×</button>`}
+      </div>
+    `)
+    .join('');
+
+  // mousedown fires before the input's blur hides the dropdown
+  container.querySelectorAll('.rewind-autocomplete-item').forEach(item => {
+    item.addEventListener('mousedown', (e) => {
+      e.preventDefault();
+      const suggestion = autocompleteItems[Number(item.getAttribute('data-index'))];
+      if (suggestion) {
+        commitSearch(suggestion.text);
+      }
+    });
+  });
+
+  container.querySelectorAll('.rewind-autocomplete-remove').forEach(button => {
+    button.addEventListener('mousedown', async (e) => {
+      e.preventDefault();
+      e.stopPropagation();
+      const suggestion = autocompleteItems[Number(button.getAttribute('data-index'))];
+      if (!suggestion) return;
+
+      // Saved searches are unsaved first; a second × removes them from history
+      await chrome.runtime.sendMessage(
+        suggestion.source === 'saved'
+          ? { type: 'SAVE_SEARCH', query: suggestion.text, saved: false }
+          : { type: 'DELETE_SEARCH', query: suggestion.text }
+      );
+      const searchInput = sidebarContainer?.querySelector('#rewindSearchInput') as HTMLInputElement | null;
+      requestAutocomplete(searchInput?.value.trim() ?? '');
+    });
+  });
+}
+
+/**
+ * Show the save button for the active search, filled when it is saved
+ */
+function renderSaveSearchButton(saved: boolean): void {
+  activeSearchSaved = saved;
+  const button = sidebarContainer?.querySelector('#rewindSaveSearchBtn');
+  if (!button) return;
+
+  button.classList.toggle('visible', Boolean(activeSearchQuery));
+  button.classList.toggle('saved', saved);
+  button.textContent = saved ? '★' : '☆';
+  button.setAttribute('title', saved ? 'Unsave this search' : 'Save this search');
+}
+
+/**
+ * Search over the background's streaming port: keyword results render first
+ * (hybrid mode), then the fused results replace them in place. Starting a new
+ * search supersedes the previous one
+ */
+async function performSearch(query: string, log: boolean = false): Promise<void> {
   const resultsContainer = sidebarContainer?.querySelector('#rewindResultsContainer');
   if (!resultsContainer) return;
 
+  versionsPageId = null;
+  similarPanelKey = null;
+  activeImpressionId = null;
+
   resultsContainer.innerHTML = '<div class="rewind-loading"><div class="rewind-skeleton-item"><div class="rewind-skeleton-time"></div><div class="rewind-skeleton-icon"></div><div class="rewind-skeleton-text"></div></div></div>';
 
+  pendingSearch = { requestId: ++searchRequestId, query, log, retried: false };
   try {
-    if (typeof chrome === 'undefined' || !chrome.runtime) {
-      throw new Error('Chrome runtime not available');
-    }
-    
-    const response = await chrome.runtime.sendMessage({ 
-      type: 'SEARCH_QUERY',
-      query: query
-    });
-    
-    if (response && response.success && response.results) {
-      renderResults(response.results, true);
-    } else {
-      activeSearchQuery = null;
-      showEmptyState();
-    }
+    postSearch(pendingSearch);
   } catch (error) {
     console.error('[Rewind. Sidebar] Error searching:', error);
-    activeSearchQuery = null;
-    showEmptyState();
+    pendingSearch = null;
+    showSearchFailure();
+  }
+}
+
+/**
+ * Send a search over the port, connecting it first if needed
+ */
+function postSearch(search: NonNullable<typeof pendingSearch>): void {
+  if (typeof chrome === 'undefined' || !chrome.runtime) {
+    throw new Error('Chrome runtime not available');
+  }
+
+  if (!searchPort) {
+    searchPort = chrome.runtime.connect({ name: 'rewind-search' });
+    searchPort.onMessage.addListener(handleSearchPortMessage);
+    searchPort.onDisconnect.addListener(() => {
+      searchPort = null;
+      // The service worker restarted mid-search: send the search once more
+      if (pendingSearch && !pendingSearch.retried) {
+        pendingSearch.retried = true;
+        try {
+          postSearch(pendingSearch);
+          return;
+        } catch (error) {
+          console.error('[Rewind. Sidebar] Error searching:', error);
+        }
+      }
+      if (pendingSearch) {
+        pendingSearch = null;
+        showSearchFailure();
+      }
+    });
+  }
+
+  searchPort.postMessage({
+    type: 'SEARCH',
+    requestId: search.requestId,
+    query: search.query,
+    options: { includeHistory, filters: currentFilters(), parseTime: !ignoreTimePhrase, explain: explainRanking },
+    log: search.log,
+  });
+}
+
+/**
+ * Stop waiting for the running search (the background drops its results)
+ */
+function cancelSearch(): void {
+  if (pendingSearch && searchPort) {
+    searchPort.postMessage({ type: 'CANCEL_SEARCH', requestId: pendingSearch.requestId });
+  }
+  pendingSearch = null;
+}
+
+/**
+ * Render SEARCH_PARTIAL and SEARCH_RESULTS messages of the running search
+ */
+function handleSearchPortMessage(message: SearchPortMessage): void {
+  if (!pendingSearch || message?.requestId !== pendingSearch.requestId) {
+    return;
+  }
+
+  const resultsContainer = sidebarContainer?.querySelector('#rewindResultsContainer');
+
+  if (message.type === 'SEARCH_PARTIAL') {
+    // Keep the skeleton until there is something to show
+    if (Array.isArray(message.results) && message.results.length > 0) {
+      renderFilterChips(message.facets, message.timeRange);
+      renderSuggestion(message.suggestion);
+      renderResults(message.results, true);
+      resultsContainer?.classList.add('rewind-results-refining');
+    }
+    return;
+  }
+
+  if (message.type !== 'SEARCH_RESULTS') {
+    return;
+  }
+
+  pendingSearch = null;
+  resultsContainer?.classList.remove('rewind-results-refining');
+
+  if (message.success) {
+    activeImpressionId = message.impressionId ?? null;
+    activeSearchExplanation = message.explanation ?? null;
+    renderSaveSearchButton(Boolean(message.saved));
+    renderFilterChips(message.facets, message.timeRange);
+    renderSuggestion(message.suggestion);
+    renderResults(message.results, true);
+  } else {
+    console.error('[Rewind. Sidebar] Error searching:', message.error);
+    showSearchFailure();
+  }
+}
+
+/**
+ * Reset the search UI after a failed search
+ */
+function showSearchFailure(): void {
+  sidebarContainer?.querySelector('#rewindResultsContainer')?.classList.remove('rewind-results-refining');
+  activeSearchQuery = null;
+  clearFilterChips();
+  renderSuggestion(null);
+  showEmptyState();
+}
+
+/**
+ * Show "Did you mean" for a corrected query (clicking it searches for it)
+ */
+function renderSuggestion(suggestion: SpellingSuggestion | null | undefined): void {
+  const suggestionContainer = sidebarContainer?.querySelector('#rewindSuggestion');
+  if (!suggestionContainer) return;
+
+  if (!suggestion) {
+    suggestionContainer.innerHTML = '';
+    return;
+  }
+
+  suggestionContainer.innerHTML = `Did you mean <button class="rewind-suggestion-link">${escapeHtml(suggestion.query)}</button>?`;
+  suggestionContainer.querySelector('.rewind-suggestion-link')?.addEventListener('click', () => {
+    const searchInput = sidebarContainer?.querySelector('#rewindSearchInput') as HTMLInputElement | null;
+    if (searchInput) {
+      searchInput.value = suggestion.query;
+    }
+    activeSearchQuery = suggestion.query;
+    performSearch(suggestion.query, true);
+  });
+}
+
+/**
+ * Filters of the selected facet chips (at most one domain and one date bucket)
+ */
+function currentFilters(): SearchFilters {
+  return { ...activeFacets.domains?.filters, ...activeFacets.dates?.filters };
+}
+
+/**
+ * Dates a time range covers, for tooltips ("Oct 12, 2026 – Oct 18, 2026")
+ */
+function formatTimeRange(range: TimeRange): string {
+  const format = (time: number) => new Date(time).toLocaleDateString(undefined, { month: 'short', day: 'numeric', year: 'numeric' });
+  const start = range.startTime !== undefined ? format(range.startTime) : '';
+  // The end is exclusive; show the last day it covers
+  const end = range.endTime !== undefined ? format(range.endTime - 1) : 'now';
+  return start === end ? start : `${start} – ${end}`;
+}
+
+/**
+ * Render the time range read from the query and selected filters (removable),
+ * followed by the facets of the current results
+ */
+function renderFilterChips(facets: SearchFacets | undefined, timeRange?: TimeRange | null): void {
+  const chipsContainer = sidebarContainer?.querySelector('#rewindFilterChips');
+  if (!chipsContainer) return;
+
+  const kinds: Array<keyof SearchFacets> = ['domains', 'dates'];
+  let html = '';
+
+  if (timeRange) {
+    html += `<button class="rewind-filter-chip rewind-filter-chip-active" data-kind="time" title="&quot;${escapeHtml(timeRange.phrase)}&quot;: ${escapeHtml(formatTimeRange(timeRange))}. Click to search all time">${escapeHtml(timeRange.label)} ×</button>`;
+  }
+
+  for (const kind of kinds) {
+    const active = activeFacets[kind];
+    if (active) {
+      html += `<button class="rewind-filter-chip rewind-filter-chip-active" data-kind="${kind}" title="Remove filter">${escapeHtml(active.label)} ×</button>`;
+    }
+  }
+
+  for (const kind of kinds) {
+    if (activeFacets[kind]) {
+      continue;
+    }
+    (facets?.[kind] ?? []).forEach((facet, index) => {
+      html += `<button class="rewind-filter-chip" data-kind="${kind}" data-index="${index}">${escapeHtml(facet.label)}<span class="rewind-filter-chip-count">${facet.count}</span></button>`;
+    });
+  }
+
+  chipsContainer.innerHTML = html;
+
+  chipsContainer.querySelectorAll('.rewind-filter-chip').forEach(chip => {
+    chip.addEventListener('click', () => {
+      const kind = chip.getAttribute('data-kind') as keyof SearchFacets | 'time';
+      const index = chip.getAttribute('data-index');
+
+      if (kind === 'time') {
+        // Search the phrase as plain text
+        ignoreTimePhrase = true;
+      } else if (index === null) {
+        delete activeFacets[kind];
+      } else {
+        const facet = facets?.[kind]?.[Number(index)];
+        if (!facet) return;
+        activeFacets[kind] = facet;
+      }
+
+      if (activeSearchQuery) {
+        performSearch(activeSearchQuery);
+      }
+    });
+  });
+}
+
+/**
+ * Drop selected filters and hide the chips
+ */
+function clearFilterChips(): void {
+  activeFacets = {};
+  const chipsContainer = sidebarContainer?.querySelector('#rewindFilterChips');
+  if (chipsContainer) {
+    chipsContainer.innerHTML = '';
   }
 }
 
@@ -1183,7 +2021,7 @@ async function performSearch(query: string): Promise<void> {
  * Render results
  */
 function scheduleHistoryRender(force: boolean = false): void {
-  if (activeSearchQuery) {
+  if (activeSearchQuery || versionsPageId || similarPanelKey) {
     return;
   }
 
@@ -1207,6 +2045,98 @@ function scheduleHistoryRender(force: boolean = false): void {
   }, delay);
 }
 
+/**
+ * Expand history pages into one entry per recorded visit
+ * Pages without a visit timeline keep a single entry at their last visit
+ */
+function expandVisits(pages: HistoryEntry[]): HistoryEntry[] {
+  return pages.flatMap(page => {
+    const visits = page.visitTimeline?.visits;
+    if (!Array.isArray(visits) || visits.length === 0) {
+      return [page];
+    }
+    return visits.map(visit => ({ ...page, timestamp: visit.startTime, dwellTime: visit.dwellTime }));
+  });
+}
+
+/**
+ * Keyword-in-context snippet of a search result with highlighted matches
+ */
+function renderSnippet(page: any): string {
+  if (!page.topPassageSnippet) {
+    return '';
+  }
+
+  const snippet = keywordInContext(page.topPassageSnippet, Array.isArray(page.highlights) ? page.highlights : []);
+  const html = highlightSegments(snippet.text, snippet.ranges)
+    .map(segment => {
+      const text = escapeHtml(segment.text);
+      return segment.kinds.length > 0
+        ? `<mark class="${segment.kinds.map(kind => `rewind-hl-${kind}`).join(' ')}">${text}</mark>`
+        : text;
+    })
+    .join('');
+
+  return `<div class="rewind-result-snippet">${html}</div>`;
+}
+
+/**
+ * Score breakdown of a search result (debug overlay)
+ */
+function renderExplanation(explanation: ScoreExplanation): string {
+  const lines: string[] = [];
+  const fused = explanation.fusionScore !== undefined ? ` · fused ${explanation.fusionScore.toFixed(4)}` : '';
+  lines.push(`<div>Rank #${explanation.rank}${fused}</div>`);
+
+  const sources = Array.from(new Set([...Object.keys(explanation.ranks), ...Object.keys(explanation.contributions)]));
+  if (sources.length > 0) {
+    const rows = sources
+      .map(source => {
+        const rank = explanation.ranks[source];
+        const contribution = explanation.contributions[source];
+        return `<tr><td>${escapeHtml(source)}</td><td>${rank !== undefined ? `#${rank}` : '–'}</td><td>${contribution !== undefined ? `+${contribution.toFixed(4)}` : ''}</td></tr>`;
+      })
+      .join('');
+    lines.push(`<table>${rows}</table>`);
+  }
+
+  if (explanation.semantic) {
+    const { similarity, multiPassageBonus, matchingPassages } = explanation.semantic;
+    lines.push(
+      `<div>similarity ${similarity.toFixed(3)} · +${multiPassageBonus.toFixed(3)} bonus (${matchingPassages} passage${matchingPassages === 1 ? '' : 's'})</div>`
+    );
+  }
+  if (explanation.keyword) {
+    const terms = explanation.keyword.matchedTerms.length > 0 ? ` · ${explanation.keyword.matchedTerms.join(', ')}` : '';
+    lines.push(`<div>keyword ${explanation.keyword.score.toFixed(2)}${escapeHtml(terms)}</div>`);
+  }
+  if (explanation.collapsedDuplicates > 0) {
+    lines.push(`<div>${explanation.collapsedDuplicates} duplicate${explanation.collapsedDuplicates === 1 ? '' : 's'} collapsed</div>`);
+  }
+  lines.push('<button class="rewind-explanation-copy">Copy</button>');
+
+  return lines.join('');
+}
+
+/**
+ * Describe a page's visit timeline (tooltip text)
+ */
+function formatVisitSummary(page: Pick<HistoryEntry, 'visitCount' | 'visitTimeline'>): string {
+  const timeline = page.visitTimeline;
+  if (!timeline) {
+    return '';
+  }
+
+  const firstVisit = new Date(timeline.firstVisit).toLocaleDateString('en-US', { day: 'numeric', month: 'short', year: 'numeric' });
+  const visitCount = Math.max(page.visitCount || 0, timeline.visits.length);
+  const minutes = Math.round(timeline.totalDwellTime / 60);
+  const parts = [`First visited ${firstVisit}`, `${visitCount} visit${visitCount === 1 ? '' : 's'}`];
+  if (minutes > 0) {
+    parts.push(`${minutes} min total`);
+  }
+  return parts.join(' · ');
+}
+
 function renderResults(pages: any[], isSearch: boolean = true): void {
   const resultsContainer = sidebarContainer?.querySelector('#rewindResultsContainer');
   if (!resultsContainer) return;
@@ -1223,7 +2153,7 @@ function renderResults(pages: any[], isSearch: boolean = true): void {
         if (simB !== simA) return simB - simA;
         return (b.timestamp || 0) - (a.timestamp || 0);
       })
-    : [...pages].sort((a, b) => (b.timestamp || 0) - (a.timestamp || 0));
+    : expandVisits(pages).sort((a, b) => (b.timestamp || 0) - (a.timestamp || 0));
 
   const grouped = groupPagesByDate(pagesToDisplay);
   
@@ -1237,16 +2167,48 @@ function renderResults(pages: any[], isSearch: boolean = true): void {
       const domain = getDomain(page.url);
       const favicon = getFaviconUrl(page.url);
       const title = page.title || domain;
+      const visitSummary = formatVisitSummary(page);
+      const subtitle = page.matchedVersion
+        ? `${domain} · matched version from ${formatShortDate(page.matchedVersion.capturedAt)}`
+        : domain;
+      const snippet = isSearch ? renderSnippet(page) : '';
+      const similarButton = `<button class="rewind-versions-btn rewind-similar-btn" data-page-id="${escapeHtml(page.id)}" title="More like this">Similar</button>`;
+      const versionsButton = page.versionCount > 0
+        ? `<button class="rewind-versions-btn rewind-show-versions-btn" data-page-id="${escapeHtml(page.id)}" title="View earlier versions">${page.versionCount + 1} versions</button>`
+        : '';
+      const duplicates: any[] = isSearch && Array.isArray(page.duplicates) ? page.duplicates : [];
+      const duplicatesButton = duplicates.length > 0
+        ? `<button class="rewind-versions-btn rewind-duplicates-btn" data-page-id="${escapeHtml(page.id)}" title="Show near-duplicate pages">+${duplicates.length} similar</button>`
+        : '';
+      const duplicatesList = duplicates.length > 0
+        ? `<div class="rewind-duplicates" data-page-id="${escapeHtml(page.id)}">${duplicates
+            .map(duplicate => `<div class="rewind-duplicate-item" data-url="${escapeHtml(duplicate.url)}" title="${escapeHtml(duplicate.url)}">${escapeHtml(duplicate.title || getDomain(duplicate.url))} · ${escapeHtml(getDomain(duplicate.url))}</div>`)
+            .join('')}</div>`
+        : '';
+      const explanation: ScoreExplanation | null = isSearch ? page.explanation ?? null : null;
+      const explainButton = explanation
+        ? `<button class="rewind-versions-btn rewind-explain-btn" data-page-id="${escapeHtml(page.id)}" title="Why this result ranked here">#${explanation.rank}</button>`
+        : '';
+      const explanationPanel = explanation
+        ? `<div class="rewind-explanation" data-page-id="${escapeHtml(page.id)}">${renderExplanation(explanation)}</div>`
+        : '';
       
       html += `
-        <div class="rewind-result-item" data-url="${escapeHtml(page.url)}">
+        <div class="rewind-result-item" data-url="${escapeHtml(page.url)}" data-page-id="${escapeHtml(page.id)}" title="${escapeHtml(visitSummary)}">
           <div class="rewind-result-time">${time}</div>
           <img class="rewind-result-favicon" src="${favicon}" onerror="this.style.display='none'" />
           <div class="rewind-result-content">
             <div class="rewind-result-title">${escapeHtml(title)}</div>
-            <div class="rewind-result-url">${escapeHtml(domain)}</div>
+            <div class="rewind-result-url">${escapeHtml(subtitle)}</div>
+            ${snippet}
           </div>
+          ${explainButton}
+          ${duplicatesButton}
+          ${similarButton}
+          ${versionsButton}
         </div>
+        ${explanationPanel}
+        ${duplicatesList}
       `;
     }
     
@@ -1257,6 +2219,22 @@ function renderResults(pages: any[], isSearch: boolean = true): void {
   
   // Add click handlers
   resultsContainer.querySelectorAll('.rewind-result-item').forEach(item => {
+    item.addEventListener('click', () => {
+      const url = item.getAttribute('data-url');
+      const pageId = item.getAttribute('data-page-id');
+      if (isSearch && activeSearchQuery && !similarPanelKey && pageId) {
+        // Log which result the query led to
+        chrome.runtime
+          .sendMessage({ type: 'RECORD_SEARCH_CLICK', query: activeSearchQuery, pageId, impressionId: activeImpressionId })
+          .catch(() => {});
+      }
+      if (url) {
+        window.open(url, '_blank');
+      }
+    });
+  });
+
+  resultsContainer.querySelectorAll('.rewind-duplicate-item').forEach(item => {
     item.addEventListener('click', () => {
       const url = item.getAttribute('data-url');
       if (url) {
@@ -1264,6 +2242,217 @@ function renderResults(pages: any[], isSearch: boolean = true): void {
       }
     });
   });
+
+  // "+N similar" toggles the collapsed near-duplicates below the result
+  resultsContainer.querySelectorAll('.rewind-duplicates-btn').forEach(button => {
+    button.addEventListener('click', (e) => {
+      e.stopPropagation();
+      const pageId = button.getAttribute('data-page-id');
+      const list = Array.from(resultsContainer.querySelectorAll('.rewind-duplicates'))
+        .find(element => element.getAttribute('data-page-id') === pageId);
+      list?.classList.toggle('expanded');
+    });
+  });
+
+  // "#N" toggles the score breakdown below the result
+  resultsContainer.querySelectorAll('.rewind-explain-btn').forEach(button => {
+    button.addEventListener('click', (e) => {
+      e.stopPropagation();
+      const pageId = button.getAttribute('data-page-id');
+      const panel = Array.from(resultsContainer.querySelectorAll('.rewind-explanation'))
+        .find(element => element.getAttribute('data-page-id') === pageId);
+      panel?.classList.toggle('expanded');
+    });
+  });
+
+  // Copy a result's breakdown with the search settings, for ranking bug reports
+  resultsContainer.querySelectorAll('.rewind-explanation-copy').forEach(button => {
+    button.addEventListener('click', async (e) => {
+      e.stopPropagation();
+      const pageId = button.closest('.rewind-explanation')?.getAttribute('data-page-id');
+      const page = pages.find(candidate => candidate.id === pageId);
+      if (!page) return;
+
+      const report = {
+        query: activeSearchQuery,
+        search: activeSearchExplanation,
+        result: { id: page.id, url: page.url, title: page.title, explanation: page.explanation },
+      };
+      try {
+        await navigator.clipboard.writeText(JSON.stringify(report, null, 2));
+        button.textContent = 'Copied';
+      } catch (error) {
+        console.error('[Rewind. Sidebar] Error copying explanation:', error);
+      }
+    });
+  });
+
+  resultsContainer.querySelectorAll('.rewind-similar-btn').forEach(button => {
+    button.addEventListener('click', (e) => {
+      e.stopPropagation();
+      const pageId = button.getAttribute('data-page-id');
+      if (pageId) {
+        showSimilar({ pageId });
+      }
+    });
+  });
+
+  resultsContainer.querySelectorAll('.rewind-show-versions-btn').forEach(button => {
+    button.addEventListener('click', (e) => {
+      e.stopPropagation();
+      const pageId = button.getAttribute('data-page-id');
+      if (pageId) {
+        showVersions(pageId);
+      }
+    });
+  });
+}
+
+/**
+ * Show a page's versions with a diff of each version against the next newer one
+ */
+async function showVersions(pageId: string): Promise<void> {
+  const resultsContainer = sidebarContainer?.querySelector('#rewindResultsContainer');
+  if (!resultsContainer) return;
+
+  versionsPageId = pageId;
+  similarPanelKey = null;
+  resultsContainer.innerHTML = '<div class="rewind-loading"><div class="rewind-skeleton-item"><div class="rewind-skeleton-time"></div><div class="rewind-skeleton-icon"></div><div class="rewind-skeleton-text"></div></div></div>';
+
+  try {
+    const response = await chrome.runtime.sendMessage({ type: 'GET_PAGE_VERSIONS', pageId });
+    if (versionsPageId !== pageId) {
+      return; // Closed or replaced while loading
+    }
+
+    if (!response || !response.success) {
+      throw new Error(response?.error || 'Failed to load versions');
+    }
+
+    // Newest first: the current content, then archived versions
+    const { current, versions: archived } = response as PageVersionsPayload;
+    const versions: VersionEntry[] = [{ ...current, id: 'current' }, ...archived];
+    renderVersions(versions, Math.min(1, versions.length - 1));
+  } catch (error) {
+    console.error('[Rewind. Sidebar] Error loading versions:', error);
+    closePanel();
+  }
+}
+
+/**
+ * Render the versions view with the selected version diffed against its successor
+ */
+function renderVersions(versions: VersionEntry[], selectedIndex: number): void {
+  const resultsContainer = sidebarContainer?.querySelector('#rewindResultsContainer');
+  if (!resultsContainer) return;
+
+  const selected = versions[selectedIndex];
+  const newer = versions[selectedIndex - 1];
+
+  let diffHtml = '';
+  if (newer) {
+    for (const segment of diffText(selected.content, newer.content)) {
+      diffHtml += `<span class="rewind-diff-${segment.op}">${escapeHtml(segment.text)}</span> `;
+    }
+  } else {
+    diffHtml = `<span class="rewind-diff-equal">${escapeHtml(selected.content)}</span>`;
+  }
+
+  resultsContainer.innerHTML = `
+    <div class="rewind-versions">
+      <button class="rewind-versions-back" id="rewindVersionsBack">← Back</button>
+      <div class="rewind-versions-title">${escapeHtml(versions[0].title)}</div>
+      <div class="rewind-versions-list">
+        ${versions.map((version, index) => `
+          <button class="rewind-version-item${index === selectedIndex ? ' rewind-version-item-active' : ''}" data-index="${index}">
+            ${index === 0 ? 'Current' : formatShortDate(version.capturedAt)}
+            <span class="rewind-version-time">${formatTime(version.capturedAt)}</span>
+          </button>
+        `).join('')}
+      </div>
+      <div class="rewind-versions-caption">
+        ${newer
+          ? `Changes from ${formatShortDate(selected.capturedAt)} to ${selectedIndex === 1 ? 'current' : formatShortDate(newer.capturedAt)}`
+          : 'Current content'}
+      </div>
+      <div class="rewind-diff">${diffHtml}</div>
+    </div>
+  `;
+
+  resultsContainer.querySelector('#rewindVersionsBack')?.addEventListener('click', closePanel);
+  resultsContainer.querySelectorAll('.rewind-version-item').forEach(item => {
+    item.addEventListener('click', () => {
+      renderVersions(versions, Number(item.getAttribute('data-index')));
+    });
+  });
+}
+
+/**
+ * Show pages similar to an indexed page ("More like this")
+ * @param target Page ID, or the URL of the page open in this tab
+ */
+async function showSimilar(target: { pageId?: string; url?: string }): Promise<void> {
+  const resultsContainer = sidebarContainer?.querySelector('#rewindResultsContainer');
+  if (!resultsContainer) return;
+
+  const key = target.pageId ?? target.url ?? '';
+  similarPanelKey = key;
+  versionsPageId = null;
+  resultsContainer.innerHTML = '<div class="rewind-loading"><div class="rewind-skeleton-item"><div class="rewind-skeleton-time"></div><div class="rewind-skeleton-icon"></div><div class="rewind-skeleton-text"></div></div></div>';
+
+  try {
+    const response = await chrome.runtime.sendMessage({ type: 'FIND_SIMILAR', ...target });
+    if (similarPanelKey !== key) {
+      return; // Closed or replaced while loading
+    }
+
+    if (!response || !response.success) {
+      throw new Error(response?.error || 'Failed to find similar pages');
+    }
+
+    renderSimilar(response.page, response.results);
+  } catch (error) {
+    console.error('[Rewind. Sidebar] Error finding similar pages:', error);
+    closePanel();
+  }
+}
+
+/**
+ * Render the similar-pages view: a header with a back button above the results
+ */
+function renderSimilar(page: { title: string; url: string } | null, results: any[]): void {
+  const resultsContainer = sidebarContainer?.querySelector('#rewindResultsContainer');
+  if (!resultsContainer) return;
+
+  const header = `
+    <div class="rewind-versions">
+      <button class="rewind-versions-back" id="rewindSimilarBack">← Back</button>
+      <div class="rewind-versions-title">${page ? `More like ${escapeHtml(page.title || getDomain(page.url))}` : 'More like this page'}</div>
+    </div>
+  `;
+
+  if (results.length > 0) {
+    renderResults(results, true);
+    resultsContainer.insertAdjacentHTML('afterbegin', header);
+  } else {
+    const message = page ? 'No similar pages found.' : 'This page is not indexed yet.';
+    resultsContainer.innerHTML = `${header}<div class="rewind-empty-state">${message}</div>`;
+  }
+
+  resultsContainer.querySelector('#rewindSimilarBack')?.addEventListener('click', closePanel);
+}
+
+/**
+ * Leave the versions or similar-pages view and restore the previous list
+ */
+function closePanel(): void {
+  versionsPageId = null;
+  similarPanelKey = null;
+  if (activeSearchQuery) {
+    performSearch(activeSearchQuery);
+  } else {
+    loadAllHistory();
+  }
 }
 
 /**
@@ -1333,6 +2522,10 @@ function formatDate(timestamp: number): string {
   }
 }
 
+function formatShortDate(timestamp: number): string {
+  return new Date(timestamp).toLocaleDateString('en-US', { day: 'numeric', month: 'short', year: 'numeric' });
+}
+
 function formatTime(timestamp: number): string {
   const date = new Date(timestamp);
   let hours = date.getHours();
@@ -1374,7 +2567,7 @@ function escapeHtml(text: string): string {
 /**
  * Ask a question using RAG
  */
-async function askQuestion(question: string): Promise<void> {
+async function askQuestion(question: string, parseTime: boolean = true): Promise<void> {
   const chatMessages = sidebarContainer?.querySelector('#rewindChatMessages');
   const chatInput = sidebarContainer?.querySelector('#rewindChatInput') as HTMLInputElement;
   const chatSendBtn = sidebarContainer?.querySelector('#rewindChatSendBtn') as HTMLButtonElement;
@@ -1400,10 +2593,23 @@ async function askQuestion(question: string): Promise<void> {
   loadingEl.innerHTML = `
     <div class="rewind-chat-loading-spinner"></div>
     <span>Thinking...</span>
+    <button class="rewind-chat-stop-btn" title="Stop answering">Stop</button>
   `;
   chatMessages.appendChild(loadingEl);
   scrollChatToBottom();
 
+  // Stop cancels retrieval and generation in the background
+  const requestId = `ask_${Date.now()}_${Math.random().toString(36).slice(2)}`;
+  let stopped = false;
+  const stopBtn = loadingEl.querySelector('.rewind-chat-stop-btn') as HTMLButtonElement | null;
+  stopBtn?.addEventListener('click', () => {
+    stopped = true;
+    stopBtn.disabled = true;
+    chrome.runtime.sendMessage({ type: 'CANCEL_RAG_QUERY', requestId }).catch((error) => {
+      console.error('[Rewind. Sidebar] Error stopping question:', error);
+    });
+  });
+
   // Disable input while processing
   if (chatInput) chatInput.disabled = true;
   if (chatSendBtn) chatSendBtn.disabled = true;
@@ -1424,22 +2630,31 @@ async function askQuestion(question: string): Promise<void> {
       );
     }
 
-    // Send RAG query
-    const response = await chrome.runtime.sendMessage({
-      type: 'RAG_QUERY',
-      question,
-      options: {
-        topK: 5,
-        minSimilarity: 0.3,
-      },
-    });
+    // Send RAG query (unless stopped while checking availability)
+    const response = stopped
+      ? { success: false, cancelled: true }
+      : await chrome.runtime.sendMessage({
+          type: 'RAG_QUERY',
+          question,
+          requestId,
+          options: {
+            topK: 5,
+            minSimilarity: 0.3,
+            parseTime,
+          },
+        });
 
     // Remove loading indicator
     loadingEl.remove();
 
-    if (response && response.success && response.result) {
+    if (response?.cancelled) {
+      addChatMessage('assistant', 'Stopped.');
+    } else if (response && response.success && response.result) {
       // Add assistant message with answer
-      addChatMessage('assistant', response.result.answer, response.result.sources);
+      const messageEl = addChatMessage('assistant', response.result.answer, response.result.sources);
+      if (messageEl && response.result.timeRange) {
+        addTimeRangeNote(messageEl, response.result.timeRange, question);
+      }
     } else {
       throw new Error(response?.error || 'Failed to get answer');
     }
@@ -1463,9 +2678,9 @@ async function askQuestion(question: string): Promise<void> {
 /**
  * Add a chat message to the UI
  */
-function addChatMessage(role: 'user' | 'assistant', content: string, sources?: any[]): void {
+function addChatMessage(role: 'user' | 'assistant', content: string, sources?: any[]): HTMLElement | null {
   const chatMessages = sidebarContainer?.querySelector('#rewindChatMessages');
-  if (!chatMessages) return;
+  if (!chatMessages) return null;
 
   const messageEl = document.createElement('div');
   messageEl.className = `rewind-chat-message rewind-chat-message-${role}`;
@@ -1529,6 +2744,23 @@ function addChatMessage(role: 'user' | 'assistant', content: string, sources?: a
 
   chatMessages.appendChild(messageEl);
   scrollChatToBottom();
+  return messageEl;
+}
+
+/**
+ * Note the time range an answer was limited to, with a link to ask again over all time
+ */
+function addTimeRangeNote(messageEl: HTMLElement, timeRange: TimeRange, question: string): void {
+  const noteEl = document.createElement('div');
+  noteEl.className = 'rewind-chat-time-range';
+  noteEl.title = `"${timeRange.phrase}": ${formatTimeRange(timeRange)}`;
+  noteEl.innerHTML = `Pages visited: ${escapeHtml(timeRange.label)} · <button class="rewind-chat-time-range-remove">Search all time</button>`;
+  noteEl.querySelector('.rewind-chat-time-range-remove')?.addEventListener('click', () => {
+    noteEl.remove();
+    askQuestion(question, false);
+  });
+  messageEl.appendChild(noteEl);
+  scrollChatToBottom();
 }
 
 /**
@@ -1559,6 +2791,10 @@ if (typeof chrome !== 'undefined' && chrome.runtime && chrome.runtime.onMessage)
         toggleSidebar();
         sendResponse({ success: true });
         return false;
+      case 'OPEN_SIDEBAR_SEARCH':
+        openSidebarSearch(String(message.query ?? ''));
+        sendResponse({ success: true });
+        return false;
       case 'PAGE_INDEXED':
         // Real-time update when a new page is indexed
         handlePageIndexed(message.data);
@@ -1567,7 +2803,7 @@ if (typeof chrome !== 'undefined' && chrome.runtime && chrome.runtime.onMessage)
       case 'GET_ALL_PAGES_CHUNK':
         if (typeof message.requestId === 'string' && message.requestId === activeHistoryRequestId) {
           if (Array.isArray(message.pages) && message.pages.length > 0) {
-            historyPagesBuffer.push(...(message.pages as PageMetadata[]));
+            historyPagesBuffer.push(...(message.pages as HistoryEntry[]));
             scheduleHistoryRender(false);
           }
         }
@@ -3,18 +3,31 @@
  */
 
 import type { SearchOptions, RankingConfig } from '../search/types';
+import { FIELD_WEIGHTS } from '../utils/textProcessing';
 
 /**
  * Default search options
  * Note: minSimilarity tuned to 0.58 based on realistic corpus evaluation
  */
-export const DEFAULT_SEARCH_OPTIONS: Required<Omit<SearchOptions, 'mode' | 'alpha'>> = {
+export const DEFAULT_SEARCH_OPTIONS: Required<Omit<SearchOptions, 'mode' | 'alpha' | 'signal'>> = {
   k: 10,
   minSimilarity: 0.58, // Tuned against realistic corpus (top relevant similarities ≥ ~0.58)
   boostRecent: true,
   boostFrequent: true,
   recencyWeight: 0.15,
   frequencyWeight: 0.15,
+  keywordScorer: 'tfidf', // BM25F is opt-in until GROUND_TRUTH.json is regenerated with it
+  fieldWeights: FIELD_WEIGHTS,
+  k1: 1.2,
+  b: 0.75,
+  includeHistory: false,
+  filters: {},
+  reranker: 'none', // Second stage off; 'lexical' or 'prompt' per request
+  collapseDuplicates: true,
+  mmrLambda: 1, // MMR off; ~0.7 trades some relevance for variety
+  parseTime: true,
+  explain: false,
+  instant: false,
 };
 
 /**
@@ -36,6 +49,138 @@ export const RRF_CONFIG = {
   DEFAULT_ALPHA: 0.9, // Default weight: 90% semantic, 10% keyword (tuned via end-to-end testing: 85.7% precision)
 } as const;
 
+/**
+ * Approximate nearest-neighbour (IVF) index configuration
+ */
+export const ANN_CONFIG = {
+  MIN_VECTORS_TO_TRAIN: 2000, // Below this a full vector scan is fast enough
+  MIN_LISTS: 16,
+  MAX_LISTS: 128, // Inverted lists (centroids); ~sqrt(passage count) within these bounds
+  TRAINING_SAMPLE_SIZE: 2048, // Vectors sampled for k-means
+  KMEANS_ITERATIONS: 6,
+  NPROBE: 8, // Lists probed per query
+  MIN_CANDIDATE_PAGES: 50, // Keep probing until at least this many pages are candidates
+  EXACT_SCAN_MAX_PAGES: 500, // Queries restricted to at most this many pages skip probing
+  RETRAIN_GROWTH_FACTOR: 2, // Retrain when the ideal list count grows by this factor
+} as const;
+
+/**
+ * Search facet configuration
+ */
+export const FACET_CONFIG = {
+  MAX_DOMAINS: 8, // Domain chips returned per search
+} as const;
+
+/**
+ * Typo-tolerant keyword matching configuration
+ * Query terms missing from the index match vocabulary terms within an edit distance
+ */
+export const FUZZY_CONFIG = {
+  MIN_TERM_LENGTH: 4, // Shorter terms only match exactly
+  LONG_TERM_LENGTH: 8, // Terms this long allow 2 edits, shorter ones 1
+  MAX_EXPANSIONS: 3, // Vocabulary terms tried per misspelled term
+  EDIT_PENALTY: 0.7, // Score multiplier per edit
+  SUGGESTION_SCORE_RATIO: 2, // "Did you mean" when the corrected query scores this many times better
+} as const;
+
+/**
+ * Match highlighting configuration
+ */
+export const HIGHLIGHT_CONFIG = {
+  SNIPPET_LENGTH: 180, // Characters of keyword-in-context shown per result
+  SEMANTIC_SENTENCE_RESULTS: 3, // Top results whose best sentence is found by embedding each sentence
+} as const;
+
+/**
+ * Second-stage reranking configuration
+ * The reranker's order is fused into the first-stage order with RRF
+ */
+export const RERANK_CONFIG = {
+  TOP_N: 30, // First-stage candidates the reranker may reorder
+  WEIGHT: 0.5, // Share of the fused score given to the reranker's order
+  PROXIMITY_WEIGHT: 0.4, // Lexical: share of the passage score from query term proximity (rest is coverage)
+  PROMPT_TOP_N: 10, // Prompt API: candidates rated per request (prompts are slow)
+  PROMPT_SNIPPET_LENGTH: 300, // Prompt API: characters of passage text shown per candidate
+} as const;
+
+/**
+ * Search history and autocomplete configuration
+ */
+export const SUGGESTION_CONFIG = {
+  MAX_SUGGESTIONS: 8, // Suggestions returned per prefix
+  MAX_HISTORY_SUGGESTIONS: 5, // Of which past queries (titles fill the rest)
+  RECENT_SEARCHES: 8, // Recent queries shown for an empty search box
+  PREFIX_SCAN_LIMIT: 200, // Log entries / title words read per prefix before ranking
+  MAX_CLICKED_PAGES: 10, // Clicked page IDs kept per logged query
+} as const;
+
+/**
+ * Address bar suggestions (keyword "rw", see manifest omnibox)
+ */
+export const OMNIBOX_CONFIG = {
+  MAX_SUGGESTIONS: 5, // Results suggested per keystroke (plus "all results")
+  WARM_DELAY_MS: 300, // Typing pause before the query embedding is computed for later keystrokes
+  SIDEBAR_PREFIX: 'sidebar: ', // Content of the "all results in the sidebar" suggestion
+} as const;
+
+/**
+ * Click feedback: impression logging and fitting of ranking weights (RankingTuner)
+ * Fitted weights stay within the ranges and move at most MAX_STEP per fit
+ */
+export const FEEDBACK_CONFIG = {
+  MAX_IMPRESSIONS: 2000, // Most recent searches kept with their shown results
+  MAX_PENDING_IMPRESSIONS: 20, // As-you-type searches held in memory until a result is clicked
+  MIN_CLICKED_IMPRESSIONS: 30, // Searches with a click needed before fitting
+  MIN_IMPROVEMENT: 0.02, // Relative gain in click MRR needed to apply fitted weights
+  MAX_STEP: 0.1,
+  GRID_STEP: 0.05,
+  ALPHA_RANGE: [0.5, 1],
+  RECENCY_RANGE: [0, 0.3],
+  FREQUENCY_RANGE: [0, 0.3],
+  ALARM_PERIOD_MINUTES: 24 * 60,
+} as const;
+
+/**
+ * Natural-language time expressions in queries ("last week", "a few days ago")
+ */
+export const TIME_EXPRESSION_CONFIG = {
+  WEEK_START: 1, // First day of the week (0 = Sunday, 1 = Monday)
+  RECENT_DAYS: 14, // Days covered by "recently" and "lately"
+  FEW_MIN: 2, // "A few" units span FEW_MIN..FEW_MAX
+  FEW_MAX: 5,
+} as const;
+
+/**
+ * Near-duplicate detection thresholds
+ * Titles and URLs are compared by the Jaccard index of their terms
+ */
+export const DIVERSITY_CONFIG = {
+  EMBEDDING_SIMILARITY: 0.97, // Mean passage embeddings this similar are duplicates on their own
+  SUPPORTED_EMBEDDING_SIMILARITY: 0.9, // ...or this similar with a similar title or URL
+  TITLE_SIMILARITY: 0.8,
+  URL_SIMILARITY: 0.75,
+} as const;
+
+/**
+ * Retention defaults (overridable from the popup/background via SET_RETENTION_POLICY)
+ * A limit of 0 disables it
+ */
+export const RETENTION_CONFIG = {
+  // All off by default: nothing is evicted until the user sets a policy in the popup
+  MAX_PAGES: 0,
+  MAX_BYTES: 0, // Estimated, see VectorStore.getStats
+  MAX_AGE_DAYS: 0, // Since the page was last visited or opened from search
+  ALARM_PERIOD_MINUTES: 6 * 60,
+  PREVIEW_LIMIT: 50, // Candidates listed in a dry-run response
+} as const;
+
+/**
+ * Content versioning defaults
+ */
+export const VERSION_CONFIG = {
+  MAX_VERSIONS_PER_PAGE: 5, // Prior versions kept when a revisit finds changed content (0 disables)
+} as const;
+
 /**
  * Performance tuning constants
  */
@@ -100,6 +245,18 @@ export function getConfig() {
     search: DEFAULT_SEARCH_OPTIONS,
     ranking: DEFAULT_RANKING_CONFIG,
     rrf: RRF_CONFIG,
+    ann: ANN_CONFIG,
+    facets: FACET_CONFIG,
+    fuzzy: FUZZY_CONFIG,
+    highlight: HIGHLIGHT_CONFIG,
+    rerank: RERANK_CONFIG,
+    diversity: DIVERSITY_CONFIG,
+    suggestions: SUGGESTION_CONFIG,
+    omnibox: OMNIBOX_CONFIG,
+    timeExpressions: TIME_EXPRESSION_CONFIG,
+    feedback: FEEDBACK_CONFIG,
+    retention: RETENTION_CONFIG,
+    versions: VERSION_CONFIG,
     performance: PERFORMANCE_CONFIG,
     content: CONTENT_CONFIG,
     env: ENV_CONFIG,
@@ -1,5 +1,21 @@
 import { pipeline, type FeatureExtractionPipeline } from '@huggingface/transformers';
 import { loggers } from '../utils/logger';
+import type { EmbeddingSignature } from '../storage/types';
+import { EMBEDDING_MODEL_NAME, currentEmbeddingSignature } from './embeddingSignature';
+
+/**
+ * Embedding sizes the model supports (Matryoshka truncation of the 768-dimensional output)
+ */
+export type EmbeddingDimensions = 128 | 256 | 512 | 768;
+
+const EMBEDDING_DIMENSIONS: readonly number[] = [128, 256, 512, 768];
+
+/**
+ * Whether a dimension count is one the model supports
+ */
+export function isEmbeddingDimensions(value: number): value is EmbeddingDimensions {
+  return EMBEDDING_DIMENSIONS.includes(value);
+}
 
 /**
  * EmbeddingGemmaService - Production embedding service
@@ -23,9 +39,9 @@ export class EmbeddingGemmaService {
   private extractor: FeatureExtractionPipeline | null = null;
   private cache: Map<string, Float32Array> = new Map();
   private initPromise: Promise<void> | null = null;
-  private readonly MODEL_NAME = 'onnx-community/embeddinggemma-300m-ONNX';
+  private readonly MODEL_NAME = EMBEDDING_MODEL_NAME;
   private readonly MAX_CACHE_SIZE = 2000; // Increased for better caching
-  private readonly BASE_DIMENSIONS = 768;
+  private readonly BASE_DIMENSIONS: EmbeddingDimensions = 768;
 
   /**
    * Initialize the embedding model
@@ -95,7 +111,7 @@ export class EmbeddingGemmaService {
   async generateEmbedding(
     text: string,
     taskType: 'query' | 'document' = 'query',
-    dimensions: 128 | 256 | 512 | 768 = 768,
+    dimensions: EmbeddingDimensions = 768,
     documentTitle?: string
   ): Promise<Float32Array> {
     // Ensure model is initialized
@@ -107,15 +123,7 @@ export class EmbeddingGemmaService {
       throw new Error('EmbeddingGemma model not initialized');
     }
 
-    // Add required task prefix for EmbeddingGemma (critical for quality)
-    let prefixedText: string;
-    if (taskType === 'query') {
-      prefixedText = `task: search result | query: ${text}`;
-    } else {
-      // For documents: include title if available (official docs: "providing a title will improve model performance")
-      const titlePart = documentTitle ? documentTitle : 'none';
-      prefixedText = `title: ${titlePart} | text: ${text}`;
-    }
+    const prefixedText = this._prefixText(text, taskType, documentTitle);
 
     // Create cache key including dimensions and task type
     const cacheKey = `${prefixedText}:${dimensions}`;
@@ -151,6 +159,33 @@ export class EmbeddingGemmaService {
     }
   }
 
+  /**
+   * Get an embedding only if it is already cached (never runs the model)
+   * @returns The cached embedding, or null
+   */
+  getCachedEmbedding(
+    text: string,
+    taskType: 'query' | 'document' = 'query',
+    dimensions: EmbeddingDimensions = 768,
+    documentTitle?: string
+  ): Float32Array | null {
+    return this.cache.get(`${this._prefixText(text, taskType, documentTitle)}:${dimensions}`) ?? null;
+  }
+
+  /**
+   * Add the task prefix EmbeddingGemma requires (critical for quality)
+   * Changing either format requires bumping EMBEDDING_PROMPT_VERSION
+   */
+  private _prefixText(text: string, taskType: 'query' | 'document', documentTitle?: string): string {
+    if (taskType === 'query') {
+      return `task: search result | query: ${text}`;
+    }
+
+    // For documents: include title if available (official docs: "providing a title will improve model performance")
+    const titlePart = documentTitle ? documentTitle : 'none';
+    return `title: ${titlePart} | text: ${text}`;
+  }
+
   /**
    * Truncate embedding to specified dimensions using Matryoshka Representation Learning
    * The first N dimensions contain the most important information
@@ -190,7 +225,7 @@ export class EmbeddingGemmaService {
   async generateEmbeddings(
     texts: string[],
     taskType: 'query' | 'document' = 'query',
-    dimensions: 128 | 256 | 512 | 768 = 768
+    dimensions: EmbeddingDimensions = 768
   ): Promise<Float32Array[]> {
     const embeddings: Float32Array[] = [];
 
@@ -241,12 +276,20 @@ export class EmbeddingGemmaService {
     return this.extractor !== null;
   }
 
+  /**
+   * Get the signature stamped on vectors generated by this service
+   * @param dimensions Matryoshka dimension the vectors were truncated to
+   */
+  getEmbeddingSignature(dimensions: number = this.BASE_DIMENSIONS): EmbeddingSignature {
+    return currentEmbeddingSignature(dimensions);
+  }
+
   /**
    * Get model information and performance characteristics
    */
   getModelInfo(): { 
     name: string; 
-    dimensions: number; 
+    dimensions: EmbeddingDimensions; 
     parameters: string;
     quantized: boolean;
     normalized: boolean;
@@ -0,0 +1,55 @@
+/**
+ * Embedding signatures - identify the configuration that produced a vector
+ *
+ * Vectors are only comparable when model, Matryoshka dimension and prompt
+ * prefix format all match. Pages are stamped with the signature of their
+ * passage vectors; search skips pages whose signature differs from the query's.
+ */
+
+import type { EmbeddingSignature } from '../storage/types';
+
+/** EmbeddingGemma model used for all embeddings */
+export const EMBEDDING_MODEL_NAME = 'onnx-community/embeddinggemma-300m-ONNX';
+
+/**
+ * Version of the task prefixes applied in EmbeddingGemmaService.generateEmbedding
+ * Bump whenever the query or document prefix format changes
+ */
+export const EMBEDDING_PROMPT_VERSION = 1;
+
+/**
+ * Signature assumed for vectors stored before stamping was introduced
+ * (the only configuration the indexer ever produced)
+ */
+export const LEGACY_EMBEDDING_SIGNATURE: EmbeddingSignature = {
+  model: EMBEDDING_MODEL_NAME,
+  dimensions: 768,
+  promptVersion: 1,
+};
+
+/**
+ * Signature of vectors produced by the current model and prompt format
+ * @param dimensions Matryoshka dimension (128, 256, 512 or 768)
+ */
+export function currentEmbeddingSignature(dimensions: number = 768): EmbeddingSignature {
+  return {
+    model: EMBEDDING_MODEL_NAME,
+    dimensions,
+    promptVersion: EMBEDDING_PROMPT_VERSION,
+  };
+}
+
+/**
+ * Check whether vectors with these signatures can be compared
+ */
+export function isSameEmbeddingSignature(a: EmbeddingSignature, b: EmbeddingSignature): boolean {
+  return a.model === b.model && a.dimensions === b.dimensions && a.promptVersion === b.promptVersion;
+}
+
+/**
+ * Short human-readable form, e.g. "embeddinggemma-300m-ONNX · 768d · prompt v1"
+ */
+export function formatEmbeddingSignature(signature: EmbeddingSignature): string {
+  const model = signature.model.split('/').pop() ?? signature.model;
+  return `${model} · ${signature.dimensions}d · prompt v${signature.promptVersion}`;
+}
@@ -68,12 +68,14 @@ export class PromptService {
    * @param prompt The user's question
    * @param context Retrieved context from search results
    * @param options Prompt options
+   * @param signal Cancels generation (throws the signal's reason)
    * @returns Stream of text chunks
    */
   async *generateAnswerStreaming(
     prompt: string,
     context: string,
-    options: PromptOptions = {}
+    options: PromptOptions = {},
+    signal?: AbortSignal
   ): AsyncGenerator<string, void, unknown> {
     if (!this.isInitialized) {
       await this.initialize();
@@ -86,7 +88,7 @@ export class PromptService {
 
     try {
       // Request streaming from offscreen manager
-      const stream = offscreenManager.promptStreaming(fullPrompt, options);
+      const stream = offscreenManager.promptStreaming(fullPrompt, options, signal);
 
       for await (const chunk of stream) {
         yield chunk;
@@ -94,7 +96,9 @@ export class PromptService {
 
       loggers.promptService.debug('Streaming completed');
     } catch (error) {
-      loggers.promptService.error('Streaming failed:', error);
+      if (!signal?.aborted) {
+        loggers.promptService.error('Streaming failed:', error);
+      }
       throw error;
     }
   }
@@ -104,12 +108,14 @@ export class PromptService {
    * @param prompt The user's question
    * @param context Retrieved context from search results
    * @param options Prompt options
+   * @param signal Cancels generation (rejects with the signal's reason)
    * @returns Complete answer
    */
   async generateAnswer(
     prompt: string,
     context: string,
-    options: PromptOptions = {}
+    options: PromptOptions = {},
+    signal?: AbortSignal
   ): Promise<PromptResponse> {
     if (!this.isInitialized) {
       await this.initialize();
@@ -123,7 +129,7 @@ export class PromptService {
     const fullPrompt = this._buildPromptWithContext(prompt, context, options.systemPrompt);
 
     try {
-      const answer = await offscreenManager.prompt(fullPrompt, options);
+      const answer = await offscreenManager.prompt(fullPrompt, options, signal);
       const processingTime = Date.now() - startTime;
 
       loggers.promptService.debug('Answer generated in', processingTime, 'ms');
@@ -133,7 +139,9 @@ export class PromptService {
         processingTime,
       };
     } catch (error) {
-      loggers.promptService.error('Generation failed:', error);
+      if (!signal?.aborted) {
+        loggers.promptService.error('Generation failed:', error);
+      }
       throw error;
     }
   }
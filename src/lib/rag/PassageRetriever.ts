@@ -6,65 +6,88 @@
 import { embeddingGemmaService } from '../embeddings/EmbeddingGemmaService';
 import { dotProduct } from '../search/VectorSearch';
 import { vectorStore } from '../storage/VectorStore';
-import type { RetrievedPassage, RetrievalOptions } from './types';
-import type { PageRecord, Passage } from '../storage/types';
+import { annIndex } from '../search/AnnIndex';
+import { resolvePageIds, withTimeRange } from '../search/filters';
+import { parseTimeExpression } from '../search/timeExpressions';
+import type { RetrievedPassage, RetrievalOptions, RetrievalResult } from './types';
+import type { PageMetadata } from '../storage/types';
 import { loggers } from '../utils/logger';
 
+/**
+ * Scored passage awaiting diversity filtering
+ */
+interface PassageCandidate {
+  pageId: string;
+  passageId: string;
+  page: PageMetadata;
+  similarity: number;
+  combinedScore: number;
+}
+
 /**
  * PassageRetriever class
  */
 export class PassageRetriever {
-  private readonly DEFAULT_OPTIONS: Required<RetrievalOptions> = {
+  private readonly DEFAULT_OPTIONS: Required<Omit<RetrievalOptions, 'filters' | 'signal'>> = {
     topK: 10,
     minSimilarity: 0.58,
     maxPassagesPerPage: 3,
     maxPagesPerDomain: 2,
     qualityWeight: 0.3,
+    parseTime: true,
   };
 
   /**
    * Retrieve relevant passages for a query
    */
   async retrieve(query: string, options: RetrievalOptions = {}): Promise<RetrievedPassage[]> {
+    return (await this.retrieveWithTimeRange(query, options)).passages;
+  }
+
+  /**
+   * Retrieve relevant passages, filtering by a time phrase in the query
+   * The phrase ("what I read yesterday") is left out of the embedded text.
+   * Rejects with the signal's reason when options.signal aborts
+   */
+  async retrieveWithTimeRange(query: string, options: RetrievalOptions = {}): Promise<RetrievalResult> {
     return loggers.ragController.timedAsync('passage-retrieval', async () => {
-      const opts = { ...this.DEFAULT_OPTIONS, ...options };
+      const { signal, ...retrievalOptions } = options;
+      const opts = { ...this.DEFAULT_OPTIONS, ...retrievalOptions };
 
       loggers.ragController.debug('Retrieving passages with options:', opts);
 
-      // Step 1: Generate query embedding (use 'query' task type for RAG)
-      const queryEmbedding = await embeddingGemmaService.generateEmbedding(query, 'query');
+      const interpreted = opts.parseTime ? parseTimeExpression(query) : undefined;
+      const timeRange = interpreted?.range;
+      const filters = timeRange ? withTimeRange(opts.filters, timeRange) : opts.filters;
+      if (timeRange) {
+        loggers.ragController.debug(`Time range "${timeRange.phrase}":`, timeRange.startTime, timeRange.endTime);
+      }
 
-      // Step 2: Get all pages from database
-      const allPages = await vectorStore.getAllPages();
+      // Step 1: Generate query embedding (use 'query' task type for RAG)
+      const queryEmbedding = await embeddingGemmaService.generateEmbedding(interpreted?.text || query, 'query');
 
-      if (allPages.length === 0) {
-        loggers.ragController.warn('No pages in database');
-        return [];
+      const pageIds = await resolvePageIds({ filters });
+      signal?.throwIfAborted();
+      if (pageIds && pageIds.size === 0) {
+        loggers.ragController.debug('No pages match the filters');
+        return { passages: [], timeRange };
       }
 
-      loggers.ragController.debug(`Searching across ${allPages.length} pages`);
-
-      // Step 3: Extract all passages with embeddings from all pages
-      const passageCandidates: Array<{
-        passage: Passage;
-        page: PageRecord;
+      // Step 2: Score candidate passage vectors from the ANN index (no content or metadata loaded)
+      const scored: Array<{
+        pageId: string;
+        passageId: string;
         similarity: number;
         combinedScore: number;
       }> = [];
+      let scannedPages = 0;
 
-      for (const page of allPages) {
-        if (!page.passages || page.passages.length === 0) {
-          continue;
-        }
-
-        for (const passage of page.passages) {
-          // Check if passage has embedding
-          if (!passage.embedding) {
-            continue;
-          }
+      await annIndex.visitCandidates(queryEmbedding, ({ pageId, vectors }) => {
+        scannedPages++;
 
+        for (const vector of vectors) {
           // Calculate similarity using dot product (for normalized embeddings)
-          const similarity = dotProduct(queryEmbedding, passage.embedding);
+          const similarity = dotProduct(queryEmbedding, vector.embedding);
 
           // Filter by minimum similarity
           if (similarity < opts.minSimilarity) {
@@ -73,25 +96,40 @@ export class PassageRetriever {
 
           // Calculate combined score: weighted combination of similarity and quality
           const combinedScore =
-            similarity * (1 - opts.qualityWeight) + passage.quality * opts.qualityWeight;
+            similarity * (1 - opts.qualityWeight) + vector.quality * opts.qualityWeight;
 
-          passageCandidates.push({
-            passage,
-            page,
+          scored.push({
+            pageId,
+            passageId: vector.passageId,
             similarity,
             combinedScore,
           });
         }
+      }, pageIds, signal);
+
+      if (scannedPages === 0) {
+        loggers.ragController.warn('No pages in database');
+        return { passages: [], timeRange };
       }
 
-      loggers.ragController.debug(`Found ${passageCandidates.length} candidate passages`);
+      loggers.ragController.debug(`Found ${scored.length} candidate passages across ${scannedPages} pages`);
 
-      if (passageCandidates.length === 0) {
-        return [];
+      if (scored.length === 0) {
+        return { passages: [], timeRange };
       }
 
-      // Step 4: Sort by combined score (descending)
-      passageCandidates.sort((a, b) => b.combinedScore - a.combinedScore);
+      // Step 3: Sort by combined score (descending)
+      scored.sort((a, b) => b.combinedScore - a.combinedScore);
+
+      // Step 4: Attach page metadata (needed for per-domain limits)
+      const metadata = await vectorStore.getPageMetadataByIds([...new Set(scored.map(s => s.pageId))]);
+      const passageCandidates: PassageCandidate[] = [];
+      for (const candidate of scored) {
+        const page = metadata.get(candidate.pageId);
+        if (page) {
+          passageCandidates.push({ ...candidate, page });
+        }
+      }
 
       // Step 5: Apply diversity constraints
       const selectedPassages = this.applyDiversityConstraints(
@@ -101,23 +139,37 @@ export class PassageRetriever {
         opts.maxPagesPerDomain
       );
 
-      // Step 6: Convert to RetrievedPassage format
-      const results: RetrievedPassage[] = selectedPassages.map((candidate) => ({
-        passage: candidate.passage,
-        pageId: candidate.page.id,
-        pageUrl: candidate.page.url,
-        pageTitle: candidate.page.title,
-        similarity: candidate.similarity,
-        combinedScore: candidate.combinedScore,
-        timestamp: candidate.page.timestamp,
-        visitCount: candidate.page.visitCount,
-        lastAccessed: candidate.page.lastAccessed,
-        dwellTime: candidate.page.dwellTime,
-      }));
+      // Step 6: Load passage text and visit timelines for the selected pages and convert to RetrievedPassage format
+      const selectedPageIds = [...new Set(selectedPassages.map(c => c.pageId))];
+      const [selectedPages, visitSummaries] = await Promise.all([
+        vectorStore.getPages(selectedPageIds),
+        vectorStore.getVisitSummaries(selectedPageIds),
+      ]);
+      const pages = new Map(selectedPages.map(page => [page.id, page]));
+
+      const results: RetrievedPassage[] = [];
+      for (const candidate of selectedPassages) {
+        const passage = pages.get(candidate.pageId)?.passages.find(p => p.id === candidate.passageId);
+        if (!passage) continue; // Page changed between scoring and hydration
+
+        results.push({
+          passage,
+          pageId: candidate.page.id,
+          pageUrl: candidate.page.url,
+          pageTitle: candidate.page.title,
+          similarity: candidate.similarity,
+          combinedScore: candidate.combinedScore,
+          timestamp: candidate.page.timestamp,
+          visitCount: candidate.page.visitCount,
+          lastAccessed: candidate.page.lastAccessed,
+          dwellTime: candidate.page.dwellTime,
+          visits: visitSummaries.get(candidate.pageId),
+        });
+      }
 
       loggers.ragController.debug(`Selected ${results.length} passages after diversity filtering`);
 
-      return results;
+      return { passages: results, timeRange };
     });
   }
 
@@ -125,21 +177,11 @@ export class PassageRetriever {
    * Apply diversity constraints to ensure varied sources
    */
   private applyDiversityConstraints(
-    candidates: Array<{
-      passage: Passage;
-      page: PageRecord;
-      similarity: number;
-      combinedScore: number;
-    }>,
+    candidates: PassageCandidate[],
     topK: number,
     maxPassagesPerPage: number,
     maxPagesPerDomain: number
-  ): Array<{
-    passage: Passage;
-    page: PageRecord;
-    similarity: number;
-    combinedScore: number;
-  }> {
+  ): PassageCandidate[] {
     const selected: typeof candidates = [];
     const passagesPerPage = new Map<string, number>();
     const pagesPerDomain = new Map<string, number>();
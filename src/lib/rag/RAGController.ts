@@ -5,7 +5,7 @@
 
 import { passageRetriever } from './PassageRetriever';
 import { promptService } from '../prompt/PromptService';
-import type { SearchResult } from '../search/types';
+import type { SearchResult, SearchFilters, TimeRange } from '../search/types';
 import type { PromptOptions } from '../prompt/PromptService';
 import type { RetrievedPassage } from './types';
 import { loggers } from '../utils/logger';
@@ -17,7 +17,10 @@ export interface RAGOptions {
   maxPassagesPerPage?: number; // Max passages per page (default: 2)
   maxPagesPerDomain?: number; // Max pages per domain (default: 3)
   qualityWeight?: number; // Weight for passage quality (default: 0.3)
+  filters?: SearchFilters; // Structured filters restricting the source pages
+  parseTime?: boolean; // Filter by a time phrase in the question ("what I read yesterday", default: true)
   promptOptions?: PromptOptions;
+  signal?: AbortSignal; // Cancels retrieval and generation (rejects with the signal's reason)
 }
 
 export interface RAGResult {
@@ -26,19 +29,21 @@ export interface RAGResult {
   processingTime: number;
   searchTime: number;
   generationTime: number;
+  timeRange?: TimeRange; // Time range read from the question
 }
 
 /**
  * RAG Controller class
  */
 export class RAGController {
-  private readonly DEFAULT_OPTIONS: Required<Omit<RAGOptions, 'promptOptions'>> = {
+  private readonly DEFAULT_OPTIONS: Required<Omit<RAGOptions, 'promptOptions' | 'filters' | 'signal'>> = {
     topK: 5,
     minSimilarity: 0.3,
     maxContextLength: 4000,
     maxPassagesPerPage: 2,
     maxPagesPerDomain: 3,
     qualityWeight: 0.3,
+    parseTime: true,
   };
 
   /**
@@ -62,12 +67,15 @@ export class RAGController {
 
     // Step 1: Retrieve relevant passages
     const searchStartTime = Date.now();
-    const passages = await passageRetriever.retrieve(question, {
+    const { passages, timeRange } = await passageRetriever.retrieveWithTimeRange(question, {
       topK: opts.topK,
       minSimilarity: opts.minSimilarity,
       maxPassagesPerPage: opts.maxPassagesPerPage,
       maxPagesPerDomain: opts.maxPagesPerDomain,
       qualityWeight: opts.qualityWeight,
+      filters: opts.filters,
+      parseTime: opts.parseTime,
+      signal: opts.signal,
     });
 
     const searchTime = Date.now() - searchStartTime;
@@ -83,6 +91,7 @@ export class RAGController {
         processingTime: Date.now() - startTime,
         searchTime,
         generationTime: 0,
+        timeRange,
       };
     }
 
@@ -95,7 +104,7 @@ export class RAGController {
     const generationStartTime = Date.now();
 
     try {
-      const response = await promptService.generateAnswer(question, context, opts.promptOptions);
+      const response = await promptService.generateAnswer(question, context, opts.promptOptions, opts.signal);
       const generationTime = Date.now() - generationStartTime;
       const totalTime = Date.now() - startTime;
 
@@ -110,8 +119,14 @@ export class RAGController {
         processingTime: totalTime,
         searchTime,
         generationTime,
+        timeRange,
       };
     } catch (error) {
+      // Cancelled: no fallback answer
+      if (opts.signal?.aborted) {
+        throw error;
+      }
+
       loggers.ragController.error('Failed to generate answer with Prompt API:', error);
 
       // Fallback: Return context directly if generation fails
@@ -128,6 +143,7 @@ export class RAGController {
         processingTime: totalTime,
         searchTime,
         generationTime,
+        timeRange,
       };
     }
   }
@@ -142,7 +158,8 @@ export class RAGController {
     question: string,
     options: RAGOptions = {}
   ): AsyncGenerator<
-    { type: 'chunk'; content: string } | { type: 'complete'; sources: SearchResult[]; timings: any },
+    | { type: 'chunk'; content: string }
+    | { type: 'complete'; sources: SearchResult[]; timings: any; timeRange?: TimeRange },
     void,
     unknown
   > {
@@ -153,12 +170,15 @@ export class RAGController {
 
     // Step 1: Retrieve relevant passages
     const searchStartTime = Date.now();
-    const passages = await passageRetriever.retrieve(question, {
+    const { passages, timeRange } = await passageRetriever.retrieveWithTimeRange(question, {
       topK: opts.topK,
       minSimilarity: opts.minSimilarity,
       maxPassagesPerPage: opts.maxPassagesPerPage,
       maxPagesPerDomain: opts.maxPagesPerDomain,
       qualityWeight: opts.qualityWeight,
+      filters: opts.filters,
+      parseTime: opts.parseTime,
+      signal: opts.signal,
     });
 
     const searchTime = Date.now() - searchStartTime;
@@ -172,6 +192,7 @@ export class RAGController {
         type: 'complete',
         sources: [],
         timings: { searchTime, generationTime: 0, totalTime: Date.now() - startTime },
+        timeRange,
       };
       return;
     }
@@ -181,7 +202,7 @@ export class RAGController {
 
     // Step 3: Stream answer generation
     const generationStartTime = Date.now();
-    const stream = promptService.generateAnswerStreaming(question, context, opts.promptOptions);
+    const stream = promptService.generateAnswerStreaming(question, context, opts.promptOptions, opts.signal);
 
     for await (const chunk of stream) {
       yield { type: 'chunk', content: chunk };
@@ -201,6 +222,7 @@ export class RAGController {
         generationTime,
         totalTime: Date.now() - startTime,
       },
+      timeRange,
     };
   }
 
@@ -242,19 +264,26 @@ export class RAGController {
       const sourceUrl = `URL: ${firstPassage.pageUrl}\n`;
 
       // Add temporal metadata for LLM reasoning about recency and frequency
+      // (full visit timeline when recorded, otherwise the most recent visit)
       const now = Date.now();
-      const visitedAgo = this.formatTimeAgo(now - firstPassage.timestamp);
-      const visitInfo = firstPassage.visitCount > 1
-        ? ` | Visited ${firstPassage.visitCount} times`
+      const visits = firstPassage.visits;
+      const visitedAgo = this.formatTimeAgo(now - (visits?.lastVisit ?? firstPassage.timestamp));
+      const firstVisitInfo = visits && visits.firstVisit < visits.lastVisit
+        ? ` | First visited: ${this.formatTimeAgo(now - visits.firstVisit)}`
+        : '';
+      const visitCount = Math.max(firstPassage.visitCount, visits?.visitCount ?? 0);
+      const visitInfo = visitCount > 1
+        ? ` | Visited ${visitCount} times`
         : '';
       const lastAccessedInfo = firstPassage.lastAccessed
         ? ` | Last accessed: ${this.formatTimeAgo(now - firstPassage.lastAccessed)}`
         : '';
-      const dwellInfo = firstPassage.dwellTime > 60
-        ? ` | Time on page: ${Math.round(firstPassage.dwellTime / 60)} min`
+      const dwellTime = visits?.totalDwellTime ?? firstPassage.dwellTime;
+      const dwellInfo = dwellTime > 60
+        ? ` | ${visits ? 'Total time' : 'Time'} on page: ${Math.round(dwellTime / 60)} min`
         : '';
 
-      const metadata = `Visited: ${visitedAgo}${visitInfo}${lastAccessedInfo}${dwellInfo}\n`;
+      const metadata = `Visited: ${visitedAgo}${firstVisitInfo}${visitInfo}${lastAccessedInfo}${dwellInfo}\n`;
 
       // Combine passages from this page
       const passageTexts = pagePassages
@@ -2,7 +2,8 @@
  * RAG-specific type definitions
  */
 
-import type { Passage } from '../storage/types';
+import type { Passage, VisitSummary } from '../storage/types';
+import type { SearchFilters, TimeRange } from '../search/types';
 
 /**
  * Passage with retrieval metadata
@@ -18,6 +19,7 @@ export interface RetrievedPassage {
   visitCount: number;
   lastAccessed: number;
   dwellTime: number;
+  visits?: VisitSummary; // Full visit timeline (absent for pages without recorded visits)
 }
 
 /**
@@ -29,6 +31,17 @@ export interface RetrievalOptions {
   maxPassagesPerPage?: number;
   maxPagesPerDomain?: number;
   qualityWeight?: number; // Weight for quality score in ranking (0-1)
+  filters?: SearchFilters; // Structured filters restricting the candidate pages
+  parseTime?: boolean; // Read a time phrase ("last week") out of the query as a visit time filter (default: true)
+  signal?: AbortSignal; // Cancels retrieval (rejects with the signal's reason)
+}
+
+/**
+ * Retrieved passages with the time range read from the query
+ */
+export interface RetrievalResult {
+  passages: RetrievedPassage[];
+  timeRange?: TimeRange;
 }
 
 /**
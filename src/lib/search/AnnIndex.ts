@@ -0,0 +1,424 @@
+/**
+ * ANN Index - IVF (inverted file) index over passage embeddings
+ *
+ * Passage embeddings are clustered with spherical k-means. Each page is posted to
+ * every inverted list one of its passages falls into. A query probes the lists with
+ * the nearest centroids and only those candidate pages' vectors are loaded, so
+ * callers can re-rank them exactly with the same scoring as a full scan.
+ *
+ * - Below ANN_CONFIG.MIN_VECTORS_TO_TRAIN the index stays untrained and queries
+ *   fall back to streaming every vector
+ * - Pages are assigned incrementally as IndexingPipeline stores them
+ * - The index retrains when history grows enough to warrant more lists
+ * - Pages whose embedding signature differs from the query's are never visited
+ * - Queries can be restricted to a set of pages (search operators); small sets are
+ *   scanned exactly instead of probed
+ */
+
+import type { Passage, PageVectors, AnnAssignment } from '../storage/types';
+import { vectorStore } from '../storage/VectorStore';
+import { currentEmbeddingSignature, isSameEmbeddingSignature } from '../embeddings/embeddingSignature';
+import { ANN_CONFIG } from '../config/searchConfig';
+import { loggers } from '../utils/logger';
+
+/**
+ * Dot product over the shared prefix of two vectors
+ * (local copy to avoid a circular import with VectorSearch)
+ */
+function dot(a: Float32Array, b: Float32Array): number {
+  const length = Math.min(a.length, b.length);
+  let sum = 0;
+  for (let i = 0; i < length; i++) {
+    sum += a[i] * b[i];
+  }
+  return sum;
+}
+
+/**
+ * Scale a vector to unit length in place
+ */
+function normalizeInPlace(vec: Float32Array): void {
+  let magnitude = 0;
+  for (let i = 0; i < vec.length; i++) {
+    magnitude += vec[i] * vec[i];
+  }
+  const norm = Math.sqrt(magnitude);
+  if (norm > 0) {
+    for (let i = 0; i < vec.length; i++) {
+      vec[i] /= norm;
+    }
+  }
+}
+
+/**
+ * Index of the centroid closest to a vector
+ */
+function nearestList(centroids: Float32Array[], vec: Float32Array): number {
+  let best = 0;
+  let bestScore = -Infinity;
+  for (let i = 0; i < centroids.length; i++) {
+    const score = dot(centroids[i], vec);
+    if (score > bestScore) {
+      bestScore = score;
+      best = i;
+    }
+  }
+  return best;
+}
+
+/**
+ * Number of inverted lists for a given vector count (~sqrt(n), clamped)
+ */
+function idealListCount(vectorCount: number): number {
+  const k = Math.round(Math.sqrt(vectorCount));
+  return Math.max(ANN_CONFIG.MIN_LISTS, Math.min(ANN_CONFIG.MAX_LISTS, k));
+}
+
+/**
+ * Spherical k-means: centroids are kept unit length so dot product ranks them
+ * @param sample Training vectors (all of the same dimension)
+ * @param k Number of centroids
+ * @returns Unit-length centroids
+ */
+function trainCentroids(sample: Float32Array[], k: number): Float32Array[] {
+  const dimension = sample[0].length;
+
+  // Initialise from k distinct random samples (partial Fisher-Yates)
+  const order = sample.map((_, i) => i);
+  for (let i = 0; i < k; i++) {
+    const j = i + Math.floor(Math.random() * (order.length - i));
+    [order[i], order[j]] = [order[j], order[i]];
+  }
+  const centroids = order.slice(0, k).map(i => Float32Array.from(sample[i]));
+
+  for (let iteration = 0; iteration < ANN_CONFIG.KMEANS_ITERATIONS; iteration++) {
+    const sums = centroids.map(() => new Float32Array(dimension));
+    const counts = new Array<number>(k).fill(0);
+
+    for (const vec of sample) {
+      const listId = nearestList(centroids, vec);
+      const sum = sums[listId];
+      for (let d = 0; d < dimension; d++) {
+        sum[d] += vec[d];
+      }
+      counts[listId]++;
+    }
+
+    for (let listId = 0; listId < k; listId++) {
+      if (counts[listId] === 0) {
+        // Reseed empty clusters with a random sample
+        sums[listId] = Float32Array.from(sample[Math.floor(Math.random() * sample.length)]);
+      }
+      normalizeInPlace(sums[listId]);
+      centroids[listId] = sums[listId];
+    }
+  }
+
+  return centroids;
+}
+
+/**
+ * AnnIndex class - in-memory IVF index backed by the annCentroids/annAssignments stores
+ */
+export class AnnIndex {
+  private centroids: Float32Array[] = [];
+  private lists = new Map<number, Set<string>>();
+  private assignments = new Map<string, AnnAssignment>();
+  private vectorCount = 0;
+  private loadPromise: Promise<void> | null = null;
+  private writeChain: Promise<void> = Promise.resolve();
+
+  /**
+   * Whether centroids have been trained (otherwise queries do a full scan)
+   */
+  isTrained(): boolean {
+    return this.centroids.length > 0;
+  }
+
+  /**
+   * Visit the passage vectors of every candidate page for a query
+   * Falls back to a full vector scan while the index is untrained
+   * Pages embedded with another model, dimension or prompt version are skipped
+   * @param queryEmbedding Normalized query embedding
+   * @param visitor Called once per candidate page
+   * @param pageIds Only visit these pages (optional)
+   * @param signal Stops the scan and rejects with the signal's reason (optional)
+   */
+  async visitCandidates(
+    queryEmbedding: Float32Array,
+    visitor: (entry: PageVectors) => void,
+    pageIds?: ReadonlySet<string>,
+    signal?: AbortSignal
+  ): Promise<void> {
+    const querySignature = currentEmbeddingSignature(queryEmbedding.length);
+    let skipped = 0;
+    const visitCompatible = (entry: PageVectors) => {
+      if (isSameEmbeddingSignature(entry.signature, querySignature)) {
+        visitor(entry);
+      } else {
+        skipped++;
+      }
+    };
+
+    try {
+      await this.probeCandidates(queryEmbedding, visitCompatible, pageIds, signal);
+      signal?.throwIfAborted();
+    } finally {
+      if (skipped > 0) {
+        loggers.annIndex.debug(`Skipped ${skipped} pages with a stale embedding signature`);
+      }
+    }
+  }
+
+  /**
+   * Probe the index (or scan every vector) for candidate pages
+   */
+  private async probeCandidates(
+    queryEmbedding: Float32Array,
+    visitor: (entry: PageVectors) => void,
+    pageIds?: ReadonlySet<string>,
+    signal?: AbortSignal
+  ): Promise<void> {
+    if (pageIds && pageIds.size <= ANN_CONFIG.EXACT_SCAN_MAX_PAGES) {
+      (await vectorStore.getPageVectors([...pageIds])).forEach(visitor);
+      return;
+    }
+
+    try {
+      await this.ensureLoaded();
+    } catch (error) {
+      loggers.annIndex.warn('Failed to load ANN index, using full scan:', error);
+    }
+
+    if (!this.isTrained() || this.centroids[0].length !== queryEmbedding.length) {
+      await vectorStore.streamPassageVectors(entry => {
+        if (!pageIds || pageIds.has(entry.pageId)) {
+          visitor(entry);
+        }
+      }, signal);
+      return;
+    }
+
+    const ranked = this.centroids
+      .map((centroid, listId) => ({ listId, score: dot(queryEmbedding, centroid) }))
+      .sort((a, b) => b.score - a.score);
+
+    // Probe the nearest lists until enough pages are candidates
+    const candidates = new Set<string>();
+    let probed = 0;
+    for (const { listId } of ranked) {
+      if (probed >= ANN_CONFIG.NPROBE && candidates.size >= ANN_CONFIG.MIN_CANDIDATE_PAGES) {
+        break;
+      }
+      for (const pageId of this.lists.get(listId) ?? []) {
+        if (!pageIds || pageIds.has(pageId)) {
+          candidates.add(pageId);
+        }
+      }
+      probed++;
+    }
+
+    const entries = await vectorStore.getPageVectors([...candidates]);
+    entries.forEach(visitor);
+
+    loggers.annIndex.debug(
+      `Probed ${probed}/${this.centroids.length} lists: ${entries.length}/${this.assignments.size} candidate pages`
+    );
+  }
+
+  /**
+   * Add or re-assign a page after it is stored
+   * Trains the index once enough vectors exist and retrains as history grows
+   * @param pageId Page ID
+   * @param passages Passages with embeddings
+   */
+  upsertPage(pageId: string, passages: Passage[]): Promise<void> {
+    return this.enqueue(async () => {
+      await this.ensureLoaded();
+
+      if (!this.isTrained()) {
+        const metadata = await vectorStore.getAllPageMetadata();
+        const total = metadata.reduce((sum, page) => sum + page.passageCount, 0);
+        if (total >= ANN_CONFIG.MIN_VECTORS_TO_TRAIN) {
+          await this.train();
+        }
+        return;
+      }
+
+      const embeddings = passages
+        .map(passage => passage.embedding)
+        .filter((embedding): embedding is Float32Array => embedding instanceof Float32Array);
+
+      const assignment = this.assign(pageId, embeddings);
+      this.applyAssignment(assignment);
+      await vectorStore.putAnnAssignment(assignment);
+
+      const currentLists = this.centroids.length;
+      const targetLists = Math.min(currentLists * ANN_CONFIG.RETRAIN_GROWTH_FACTOR, ANN_CONFIG.MAX_LISTS);
+      if (currentLists < ANN_CONFIG.MAX_LISTS && idealListCount(this.vectorCount) >= targetLists) {
+        loggers.annIndex.debug(`History grew to ${this.vectorCount} vectors, retraining`);
+        await this.train();
+      }
+    });
+  }
+
+  /**
+   * Remove a page from the index (after it is deleted from VectorStore)
+   */
+  removePage(pageId: string): Promise<void> {
+    return this.enqueue(async () => {
+      await this.ensureLoaded();
+      this.removeAssignment(pageId);
+      await vectorStore.deleteAnnAssignment(pageId);
+    });
+  }
+
+  /**
+   * Drop in-memory state (after the database is cleared)
+   */
+  reset(): Promise<void> {
+    return this.enqueue(async () => {
+      this.setState([], []);
+      this.loadPromise = null;
+      loggers.annIndex.debug('ANN index reset');
+    });
+  }
+
+  /**
+   * Load the persisted index once
+   */
+  private ensureLoaded(): Promise<void> {
+    if (!this.loadPromise) {
+      this.loadPromise = vectorStore
+        .getAnnIndex()
+        .then(({ centroids, assignments }) => {
+          this.setState(centroids, assignments);
+          loggers.annIndex.debug(`Loaded ANN index: ${centroids.length} lists, ${assignments.length} pages`);
+        })
+        .catch((error) => {
+          this.loadPromise = null;
+          throw error;
+        });
+    }
+    return this.loadPromise;
+  }
+
+  /**
+   * Serialize mutations so training never interleaves with incremental updates
+   */
+  private enqueue(task: () => Promise<void>): Promise<void> {
+    const run = this.writeChain.then(task);
+    this.writeChain = run.catch(() => undefined);
+    return run;
+  }
+
+  /**
+   * Train centroids on a reservoir sample, then assign every page
+   */
+  private async train(): Promise<void> {
+    return loggers.annIndex.timedAsync('train', async () => {
+      const sampleSize = ANN_CONFIG.TRAINING_SAMPLE_SIZE;
+      const sample: Float32Array[] = [];
+      let dimension = 0;
+      let seen = 0;
+
+      await vectorStore.streamPassageVectors(({ vectors }) => {
+        for (const vector of vectors) {
+          if (dimension === 0) {
+            dimension = vector.embedding.length;
+          }
+          if (vector.embedding.length !== dimension) {
+            continue;
+          }
+
+          seen++;
+          if (sample.length < sampleSize) {
+            sample.push(vector.embedding);
+          } else {
+            const j = Math.floor(Math.random() * seen);
+            if (j < sampleSize) {
+              sample[j] = vector.embedding;
+            }
+          }
+        }
+      });
+
+      if (seen < ANN_CONFIG.MIN_VECTORS_TO_TRAIN) {
+        loggers.annIndex.debug(`Only ${seen} vectors, skipping training`);
+        return;
+      }
+
+      const k = Math.min(idealListCount(seen), sample.length);
+      const centroids = trainCentroids(sample, k);
+
+      // Second pass: assign every page to the new lists
+      const assignments: AnnAssignment[] = [];
+      await vectorStore.streamPassageVectors(({ pageId, vectors }) => {
+        assignments.push(this.assign(pageId, vectors.map(vector => vector.embedding), centroids));
+      });
+
+      await vectorStore.replaceAnnIndex(centroids, assignments);
+      this.setState(centroids, assignments);
+
+      loggers.annIndex.debug(`Trained ${k} lists over ${seen} vectors (${assignments.length} pages)`);
+    });
+  }
+
+  /**
+   * Compute the lists a page's embeddings fall into
+   */
+  private assign(
+    pageId: string,
+    embeddings: Float32Array[],
+    centroids: Float32Array[] = this.centroids
+  ): AnnAssignment {
+    const listIds = new Set<number>();
+    for (const embedding of embeddings) {
+      listIds.add(nearestList(centroids, embedding));
+    }
+    return { pageId, listIds: [...listIds], vectorCount: embeddings.length };
+  }
+
+  private setState(centroids: Float32Array[], assignments: AnnAssignment[]): void {
+    this.centroids = centroids;
+    this.lists = new Map();
+    this.assignments = new Map();
+    this.vectorCount = 0;
+    for (const assignment of assignments) {
+      this.applyAssignment(assignment);
+    }
+  }
+
+  private applyAssignment(assignment: AnnAssignment): void {
+    this.removeAssignment(assignment.pageId);
+
+    for (const listId of assignment.listIds) {
+      let list = this.lists.get(listId);
+      if (!list) {
+        list = new Set();
+        this.lists.set(listId, list);
+      }
+      list.add(assignment.pageId);
+    }
+
+    this.assignments.set(assignment.pageId, assignment);
+    this.vectorCount += assignment.vectorCount;
+  }
+
+  private removeAssignment(pageId: string): void {
+    const previous = this.assignments.get(pageId);
+    if (!previous) {
+      return;
+    }
+
+    for (const listId of previous.listIds) {
+      this.lists.get(listId)?.delete(pageId);
+    }
+
+    this.assignments.delete(pageId);
+    this.vectorCount -= previous.vectorCount;
+  }
+}
+
+// Export singleton instance
+export const annIndex = new AnnIndex();
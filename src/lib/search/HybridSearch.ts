@@ -1,12 +1,36 @@
 /**
  * Hybrid Search - Combines semantic and keyword search using Reciprocal Rank Fusion
+ * Query operators (site:, before:, after:, intitle:, "phrases", -exclusions) and
+ * structured filters are resolved to a set of pages first; only the remaining free
+ * text is ranked. A time phrase in the free text ("last week") becomes a visit time
+ * filter (see timeExpressions.ts). Hybrid searches can report a keyword-only
+ * preview while the query is embedded and scored semantically
  */
 
-import type { SearchResult, SearchOptions, SearchMode } from './types';
+import type {
+  SearchResult,
+  SearchOptions,
+  SearchMode,
+  FacetedSearchResults,
+  KeywordSearchResult,
+  SpellingSuggestion,
+  TermCorrection,
+  TimeRange,
+} from './types';
 import { searchSimilar } from './VectorSearch';
 import { keywordSearch } from './KeywordSearch';
+import { parseQuery } from './queryParser';
+import { resolvePageIds, buildFacets, withTimeRange } from './filters';
+import { parseTimeExpression } from './timeExpressions';
+import { attachHighlights } from './highlight';
+import { applyCorrections } from './fuzzy';
+import { getReranker } from './rerankers';
+import { collapseNearDuplicates, maximalMarginalRelevance } from './diversity';
+import { applyRankingPriors } from './ranking';
+import { explainResult, explainSearch } from './explain';
+import { vectorStore } from '../storage/VectorStore';
 import { embeddingGemmaService } from '../embeddings/EmbeddingGemmaService';
-import { RRF_CONFIG } from '../config/searchConfig';
+import { DEFAULT_SEARCH_OPTIONS, RRF_CONFIG, RERANK_CONFIG } from '../config/searchConfig';
 import { loggers } from '../utils/logger';
 import { globalCaches, cacheKeys } from '../utils/cache';
 
@@ -47,7 +71,7 @@ function weightedReciprocalRankFusion(
   weights: number[] = [1.0, 1.0],
   k: number = RRF_CONFIG.K,
   sourceLabels: string[] = []
-): Array<SearchResult & { fusionScore: number; sourceScores: Record<string, number> }> {
+): Array<SearchResult & { fusionScore: number; sourceScores: Record<string, number>; sourceRanks: Record<string, number> }> {
   if (rankedLists.length === 0) {
     return [];
   }
@@ -77,7 +101,12 @@ function weightedReciprocalRankFusion(
 
   const scoreMap = new Map<
     string,
-    { result: SearchResult; fusionScore: number; sourceScores: Record<string, number> }
+    {
+      result: SearchResult;
+      fusionScore: number;
+      sourceScores: Record<string, number>;
+      sourceRanks: Record<string, number>;
+    }
   >();
 
   rankedLists.forEach((rankedList, listIndex) => {
@@ -92,6 +121,7 @@ function weightedReciprocalRankFusion(
       if (existing) {
         existing.fusionScore += rrfScore;
         existing.sourceScores[sourceKey] = (existing.sourceScores[sourceKey] || 0) + rrfScore;
+        existing.sourceRanks[sourceKey] ??= rank;
       } else {
         const sourceScores: Record<string, number> = {
           [sourceKey]: rrfScore,
@@ -100,15 +130,17 @@ function weightedReciprocalRankFusion(
           result,
           fusionScore: rrfScore,
           sourceScores,
+          sourceRanks: { [sourceKey]: rank },
         });
       }
     });
   });
 
-  const combined = Array.from(scoreMap.values()).map(({ result, fusionScore, sourceScores }) => ({
+  const combined = Array.from(scoreMap.values()).map(({ result, fusionScore, sourceScores, sourceRanks }) => ({
     ...result,
     fusionScore,
     sourceScores,
+    sourceRanks,
   }));
 
   combined.sort((a, b) => b.fusionScore - a.fusionScore);
@@ -116,6 +148,63 @@ function weightedReciprocalRankFusion(
   return combined;
 }
 
+/**
+ * Fuse a reranker's order into the first-stage order with RRF
+ * First-stage contributions are scaled by (1 - weight) and the reranker adds
+ * weight / (k + rerankRank) under sourceScores.rerank. Results without fusion
+ * scores (single-mode searches) contribute 1 / (k + rank) under their mode.
+ *
+ * @param results First-stage results in ranked order
+ * @param scores Reranker score per result
+ * @returns Results re-sorted by the fused score
+ */
+function fuseRerankScores(
+  results: SearchResult[],
+  scores: number[],
+  weight: number = RERANK_CONFIG.WEIGHT,
+  k: number = RRF_CONFIG.K
+): SearchResult[] {
+  // Stable sort: ties keep their first-stage order
+  const rerankRanks = new Map(
+    results
+      .map((_, index) => index)
+      .sort((a, b) => scores[b] - scores[a])
+      .map((index, rank) => [index, rank + 1])
+  );
+
+  const fused = results.map((result, index) => {
+    const firstStage = result.sourceScores ?? {
+      [result.searchMode ?? 'retrieval']: result.fusionScore ?? 1 / (k + index + 1),
+    };
+    const sourceScores: Record<string, number> = {};
+    for (const [source, score] of Object.entries(firstStage)) {
+      sourceScores[source] = score * (1 - weight);
+    }
+    sourceScores.rerank = weight / (k + rerankRanks.get(index)!);
+
+    const fusionScore = Object.values(sourceScores).reduce((sum, score) => sum + score, 0);
+    const sourceRanks = { ...result.sourceRanks, rerank: rerankRanks.get(index)! };
+    return { ...result, fusionScore, sourceScores, sourceRanks };
+  });
+
+  return fused.sort((a, b) => b.fusionScore - a.fusionScore);
+}
+
+/**
+ * Keyword search results as ranked candidates
+ */
+function toKeywordCandidates(keywordResults: KeywordSearchResult[]): SearchResult[] {
+  return keywordResults.map((kr) => ({
+    page: kr.page,
+    similarity: 0, // Not applicable for keyword-only
+    relevanceScore: kr.score,
+    keywordScore: kr.score,
+    matchedTerms: kr.matchedTerms,
+    searchMode: 'keyword' as SearchMode,
+    confidence: kr.score > 0.5 ? 'medium' as const : 'low' as const,
+  }));
+}
+
 /**
  * Calculate confidence level for a search result
  * - high: Strong semantic match (>= 0.68) or both semantic + keyword agree
@@ -150,10 +239,43 @@ export class HybridSearch {
    * @returns Array of search results sorted by relevance
    */
   async search(query: string, options: SearchOptions = {}): Promise<SearchResult[]> {
+    return (await this.searchWithFacets(query, options)).results;
+  }
+
+  /**
+   * Search and count the ranked candidates per domain and visit date
+   *
+   * @param query Search query string
+   * @param options Search options
+   * @param onPartial Called with keyword-only results while a hybrid search is
+   *   still scoring semantically (not called on cache hits or once the final
+   *   results are ready)
+   * @returns Top-k results plus facet counts over all ranked candidates; rejects
+   *   with the signal's reason when options.signal aborts
+   */
+  async searchWithFacets(
+    query: string,
+    options: SearchOptions = {},
+    onPartial?: (partial: FacetedSearchResults) => void
+  ): Promise<FacetedSearchResults> {
     return loggers.hybridSearch.timedAsync('hybrid-search', async () => {
-      const opts = { ...DEFAULT_OPTIONS, ...options };
-      const mode = opts.mode || 'hybrid';
-      const cacheKey = cacheKeys.searchQuery(query, opts);
+      const { signal, ...searchOptions } = options;
+      const opts = { ...DEFAULT_OPTIONS, ...searchOptions };
+      const generation = vectorStore.getIndexGeneration();
+
+      // Apply query operators and structured filters as hard filters; rank the remaining free text only
+      const { parsed, interpreted, text } = this._rankedText(query, opts);
+      const filters = interpreted ? withTimeRange(opts.filters, interpreted.range) : opts.filters;
+
+      // Latency-bounded searches rank keywords only until the query embedding is cached
+      const mode = opts.instant && text && !embeddingGemmaService.getCachedEmbedding(text, 'query')
+        ? 'keyword'
+        : opts.mode || 'hybrid';
+      const reranker = opts.instant ? 'none' : opts.reranker ?? DEFAULT_SEARCH_OPTIONS.reranker;
+
+      // Keyed on the mode actually run, so an instant keyword-only fallback is not
+      // served once the query embedding is cached
+      const cacheKey = cacheKeys.searchQuery(query, { ...opts, mode }, generation);
 
       // Check cache first
       const cached = globalCaches.queryCache.get(cacheKey);
@@ -164,39 +286,227 @@ export class HybridSearch {
 
       loggers.hybridSearch.debug('Searching with mode:', mode, 'query:', query);
 
-      // Semantic-only mode
-      if (mode === 'semantic') {
-        loggers.hybridSearch.debug('Running semantic search only');
-        // Use 'query' task type for search queries
-        const queryEmbedding = await embeddingGemmaService.generateEmbedding(query, 'query');
-        const results = await searchSimilar(queryEmbedding, options);
-
-      // Add searchMode metadata and confidence
-      return results.map(r => ({
-        ...r,
-        searchMode: 'semantic' as SearchMode,
-        confidence: calculateConfidence(r.similarity),
-      }));
+      const pageIds = await resolvePageIds({ query: parsed, filters });
+      signal?.throwIfAborted();
+
+      // Facets are counted over a deeper candidate pool than the returned top-k
+      const candidateCount = opts.k * RRF_CONFIG.SEARCH_MULTIPLIER;
+      let candidates: SearchResult[];
+      let corrections: TermCorrection[] = [];
+
+      // The keyword preview is dropped once the final results are ready
+      let settled = false;
+      const onKeywordResults = onPartial
+        ? (keywordCandidates: SearchResult[], keywordCorrections: TermCorrection[]) => {
+            this._present(query, text, this._applyPriors(keywordCandidates, opts), keywordCorrections, opts, 'keyword', interpreted?.range)
+              .then(partial => {
+                if (!settled && !signal?.aborted) {
+                  onPartial(partial);
+                }
+              })
+              .catch(error => loggers.hybridSearch.warn('Keyword preview failed:', error));
+          }
+        : undefined;
+
+      if (!text) {
+        candidates = pageIds ? await this._filterOnlyResults(pageIds, candidateCount, mode) : [];
+      } else if (mode === 'semantic') {
+        candidates = await this._semanticCandidates(text, { ...options, k: candidateCount }, pageIds);
+      } else if (mode === 'keyword') {
+        ({ candidates, corrections } = await this._keywordCandidates(text, { ...opts, k: candidateCount }, pageIds));
+      } else {
+        ({ candidates, corrections } = await this._hybridCandidates(
+          text,
+          { ...options, k: candidateCount },
+          pageIds,
+          onKeywordResults
+        ));
+      }
+
+      signal?.throwIfAborted();
+
+      if (text) {
+        // Recency and visit frequency priors, then the optional second-stage reranker
+        candidates = this._applyPriors(candidates, opts);
+        candidates = await this._rerank(text, candidates, reranker, signal);
+        signal?.throwIfAborted();
+      }
+
+      let faceted = await this._present(query, text, candidates, corrections, opts, mode, interpreted?.range);
+      signal?.throwIfAborted();
+      settled = true;
+
+      if (opts.explain) {
+        faceted = {
+          ...faceted,
+          results: faceted.results.map((result, index) => ({ ...result, explanation: explainResult(result, index + 1) })),
+          explanation: explainSearch({
+            mode,
+            rankedText: text,
+            parsed,
+            filters,
+            alpha: sanitizeAlpha(opts.alpha),
+            rrfK: RRF_CONFIG.K,
+            ...(text ? this._priorWeights(opts) : { recencyWeight: 0, frequencyWeight: 0 }),
+            keywordScorer: opts.keywordScorer ?? DEFAULT_SEARCH_OPTIONS.keywordScorer,
+            reranker: text ? reranker : 'none',
+            rerankWeight: text && reranker !== 'none' ? RERANK_CONFIG.WEIGHT : 0,
+            mmrLambda: Math.min(Math.max(opts.mmrLambda ?? DEFAULT_SEARCH_OPTIONS.mmrLambda, 0), 1),
+            collapseDuplicates: opts.collapseDuplicates ?? DEFAULT_SEARCH_OPTIONS.collapseDuplicates,
+            candidates: candidates.length,
+          }),
+        };
+      }
+
+      // Cache the result
+      globalCaches.queryCache.set(cacheKey, faceted);
+
+      return faceted;
+    });
+  }
+
+  /**
+   * Compute the query embedding a later search of this query will use, so that
+   * instant searches of it can rank semantically (e.g. after a pause in typing)
+   */
+  async warmQuery(query: string, options: SearchOptions = {}): Promise<void> {
+    const { text } = this._rankedText(query, options);
+    if (text) {
+      await embeddingGemmaService.generateEmbedding(text, 'query');
+    }
+  }
+
+  /**
+   * Parse query operators and the time phrase out of a query, leaving the free text to rank
+   */
+  private _rankedText(query: string, opts: SearchOptions) {
+    const parsed = parseQuery(query);
+    const interpreted = (opts.parseTime ?? DEFAULT_SEARCH_OPTIONS.parseTime) ? parseTimeExpression(parsed.text) : undefined;
+    return { parsed, interpreted, text: interpreted ? interpreted.text : parsed.text };
+  }
+
+  /**
+   * Fuse the recency and visit frequency priors into the candidate order
+   */
+  private _applyPriors(candidates: SearchResult[], opts: SearchOptions): SearchResult[] {
+    return applyRankingPriors(candidates, this._priorWeights(opts));
+  }
+
+  /**
+   * Prior weights a search applies (0 when boostRecent or boostFrequent is off)
+   */
+  private _priorWeights(opts: SearchOptions): { recencyWeight: number; frequencyWeight: number } {
+    return {
+      recencyWeight: (opts.boostRecent ?? DEFAULT_SEARCH_OPTIONS.boostRecent)
+        ? opts.recencyWeight ?? DEFAULT_SEARCH_OPTIONS.recencyWeight
+        : 0,
+      frequencyWeight: (opts.boostFrequent ?? DEFAULT_SEARCH_OPTIONS.boostFrequent)
+        ? opts.frequencyWeight ?? DEFAULT_SEARCH_OPTIONS.frequencyWeight
+        : 0,
+    };
+  }
+
+  /**
+   * Collapse, diversify and cut ranked candidates to the top k, then attach visits,
+   * highlights and facets
+   */
+  private async _present(
+    query: string,
+    text: string,
+    candidates: SearchResult[],
+    corrections: TermCorrection[],
+    opts: SearchOptions & { k: number },
+    mode: SearchMode,
+    timeRange: TimeRange | undefined
+  ): Promise<FacetedSearchResults> {
+    // Collapse near-duplicates, then optionally diversify the top k with MMR
+    const collapse = opts.collapseDuplicates ?? DEFAULT_SEARCH_OPTIONS.collapseDuplicates;
+    const lambda = Math.min(Math.max(opts.mmrLambda ?? DEFAULT_SEARCH_OPTIONS.mmrLambda, 0), 1);
+    let ranked = collapse ? collapseNearDuplicates(candidates) : candidates;
+    if (lambda < 1) {
+      ranked = maximalMarginalRelevance(ranked, opts.k, lambda);
     }
 
-    // Keyword-only mode
-    if (mode === 'keyword') {
-      loggers.hybridSearch.debug('Running keyword search only');
-      const keywordResults = await keywordSearch.search(query, { k: opts.k });
-
-      // Convert to SearchResult format with confidence
-      return keywordResults.map((kr) => ({
-        page: kr.page,
-        similarity: 0, // Not applicable for keyword-only
-        relevanceScore: kr.score,
-        keywordScore: kr.score,
-        matchedTerms: kr.matchedTerms,
-        searchMode: 'keyword' as SearchMode,
-        confidence: kr.score > 0.5 ? 'medium' as const : 'low' as const,
-      }));
+    const summaries = await vectorStore.getVisitSummaries(candidates.map(r => r.page.id));
+    let topResults = ranked
+      .slice(0, opts.k)
+      .map(r => (summaries.has(r.page.id) ? { ...r, visits: summaries.get(r.page.id) } : r));
+
+    // Highlight matches in the returned results (the query embedding is cached by now)
+    if (text) {
+      const queryEmbedding = mode === 'keyword'
+        ? undefined
+        : await embeddingGemmaService.generateEmbedding(text, 'query');
+      topResults = await attachHighlights(topResults, text, queryEmbedding);
     }
 
-    // Hybrid mode: Run both searches in parallel and combine with weighted RRF
+    loggers.hybridSearch.debug('Returning top', topResults.length, 'of', candidates.length, 'candidates');
+    loggers.hybridSearch.debug('Confidence distribution:', {
+      high: topResults.filter(r => r.confidence === 'high').length,
+      medium: topResults.filter(r => r.confidence === 'medium').length,
+      low: topResults.filter(r => r.confidence === 'low').length,
+    });
+
+    return {
+      results: topResults,
+      facets: buildFacets(candidates.map(r => r.page), summaries),
+      ...(corrections.length > 0 ? { suggestion: this._suggestion(query, corrections) } : {}),
+      ...(timeRange ? { timeRange } : {}),
+    };
+  }
+
+  /**
+   * Semantic-only candidates
+   */
+  private async _semanticCandidates(
+    text: string,
+    options: SearchOptions,
+    pageIds: ReadonlySet<string> | undefined
+  ): Promise<SearchResult[]> {
+    loggers.hybridSearch.debug('Running semantic search only');
+    // Use 'query' task type for search queries
+    const queryEmbedding = await embeddingGemmaService.generateEmbedding(text, 'query');
+    const results = await searchSimilar(queryEmbedding, options, pageIds);
+
+    // Add searchMode metadata and confidence
+    return results.map(r => ({
+      ...r,
+      searchMode: 'semantic' as SearchMode,
+      confidence: calculateConfidence(r.similarity),
+    }));
+  }
+
+  /**
+   * Keyword-only candidates
+   */
+  private async _keywordCandidates(
+    text: string,
+    opts: SearchOptions & { k: number },
+    pageIds: ReadonlySet<string> | undefined
+  ): Promise<{ candidates: SearchResult[]; corrections: TermCorrection[] }> {
+    loggers.hybridSearch.debug('Running keyword search only');
+    const { results: keywordResults, corrections } = await keywordSearch.searchWithCorrections(text, {
+      k: opts.k,
+      keywordScorer: opts.keywordScorer,
+      fieldWeights: opts.fieldWeights,
+      k1: opts.k1,
+      b: opts.b,
+      pageIds,
+    });
+
+    return { candidates: toKeywordCandidates(keywordResults), corrections };
+  }
+
+  /**
+   * Hybrid candidates: run both searches and combine with weighted RRF
+   * onKeywordResults receives the keyword candidates as soon as they are ranked
+   */
+  private async _hybridCandidates(
+    text: string,
+    options: SearchOptions & { k: number },
+    pageIds: ReadonlySet<string> | undefined,
+    onKeywordResults?: (candidates: SearchResult[], corrections: TermCorrection[]) => void
+  ): Promise<{ candidates: SearchResult[]; corrections: TermCorrection[] }> {
     loggers.hybridSearch.debug('Running hybrid search (semantic + keyword + weighted RRF)');
 
     // Get alpha parameter (default: 0.9 = 90% semantic, 10% keyword)
@@ -204,16 +514,23 @@ export class HybridSearch {
     const alpha = sanitizeAlpha(requestedAlpha);
     loggers.hybridSearch.debug('Using alpha:', alpha, '(semantic weight)');
 
-    const [queryEmbedding, keywordResults] = await Promise.all([
+    const [queryEmbedding, { results: keywordResults, corrections }] = await Promise.all([
       // Use 'query' task type for search queries
-      embeddingGemmaService.generateEmbedding(query, 'query'),
-      keywordSearch.search(query, { k: opts.k * RRF_CONFIG.SEARCH_MULTIPLIER }),
+      embeddingGemmaService.generateEmbedding(text, 'query'),
+      keywordSearch.searchWithCorrections(text, {
+        k: options.k,
+        keywordScorer: options.keywordScorer,
+        fieldWeights: options.fieldWeights,
+        k1: options.k1,
+        b: options.b,
+        pageIds,
+      }).then(keywordSearchResults => {
+        onKeywordResults?.(toKeywordCandidates(keywordSearchResults.results), keywordSearchResults.corrections);
+        return keywordSearchResults;
+      }),
     ]);
 
-    const semanticResults = await searchSimilar(queryEmbedding, {
-      ...options,
-      k: opts.k * RRF_CONFIG.SEARCH_MULTIPLIER,
-    });
+    const semanticResults = await searchSimilar(queryEmbedding, options, pageIds);
 
     loggers.hybridSearch.debug('Semantic results:', semanticResults.length);
     loggers.hybridSearch.debug('Keyword results:', keywordResults.length);
@@ -236,7 +553,7 @@ export class HybridSearch {
     );
 
     // Enrich results with metadata and confidence scoring
-    const enrichedResults = fusedResults.map(result => {
+    const candidates = fusedResults.map(result => {
       const keywordMatch = keywordResults.find(kr => kr.page.id === result.page.id);
       const semanticMatch = semanticResults.find(sr => sr.page.id === result.page.id);
 
@@ -250,6 +567,7 @@ export class HybridSearch {
         ...result,
         relevanceScore: semanticMatch?.relevanceScore ?? result.relevanceScore ?? similarity,
         similarity,
+        matchingPassages: semanticMatch?.matchingPassages,
         keywordScore,
         matchedTerms: keywordMatch?.matchedTerms,
         searchMode: 'hybrid' as SearchMode,
@@ -257,21 +575,65 @@ export class HybridSearch {
       };
     });
 
-    // Return top-k results
-    const topResults = enrichedResults.slice(0, opts.k);
+    return { candidates, corrections };
+  }
 
-    loggers.hybridSearch.debug('Weighted RRF fusion complete, returning top', topResults.length, 'results');
-    loggers.hybridSearch.debug('Confidence distribution:', {
-      high: topResults.filter(r => r.confidence === 'high').length,
-      medium: topResults.filter(r => r.confidence === 'medium').length,
-      low: topResults.filter(r => r.confidence === 'low').length,
-    });
+  /**
+   * Reorder the top candidates with a second-stage reranker
+   * An unknown or failing reranker leaves the first-stage order unchanged; an aborted
+   * one rejects with the signal's reason
+   */
+  private async _rerank(
+    text: string,
+    candidates: SearchResult[],
+    name: string,
+    signal?: AbortSignal
+  ): Promise<SearchResult[]> {
+    if (name === 'none' || candidates.length === 0) {
+      return candidates;
+    }
 
-      // Cache the result
-      globalCaches.queryCache.set(cacheKey, topResults);
+    const reranker = getReranker(name);
+    if (!reranker) {
+      loggers.hybridSearch.warn('Unknown reranker; keeping first-stage order:', name);
+      return candidates;
+    }
 
-      return topResults;
-    });
+    const head = candidates.slice(0, reranker.maxResults ?? RERANK_CONFIG.TOP_N);
+    try {
+      const scores = await reranker.score(text, head, signal);
+      loggers.hybridSearch.debug('Reranked top', head.length, 'candidates with', name);
+      return [...fuseRerankScores(head, scores), ...candidates.slice(head.length)];
+    } catch (error) {
+      signal?.throwIfAborted();
+      loggers.hybridSearch.warn('Reranker failed; keeping first-stage order:', error);
+      return candidates;
+    }
+  }
+
+  /**
+   * "Did you mean" suggestion: the full query with misspelled terms corrected
+   */
+  private _suggestion(query: string, corrections: TermCorrection[]): SpellingSuggestion {
+    const replacements = new Map(corrections.map(({ term, correction }) => [term, correction]));
+    return { query: applyCorrections(query, replacements), corrections };
+  }
+
+  /**
+   * Results for a query made of filters only: matching pages, most recent first
+   */
+  private async _filterOnlyResults(pageIds: Set<string>, k: number, mode: SearchMode): Promise<SearchResult[]> {
+    const metadata = await vectorStore.getPageMetadataByIds([...pageIds]);
+    const recent = [...metadata.values()].sort((a, b) => b.timestamp - a.timestamp).slice(0, k);
+    const pages = await vectorStore.getPages(recent.map(page => page.id));
+
+    return pages.map(page => ({
+      page,
+      similarity: 0,
+      relevanceScore: 0,
+      searchMode: mode,
+      confidence: 'medium' as const,
+    }));
   }
 }
 
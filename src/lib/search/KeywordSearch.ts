@@ -1,82 +1,123 @@
 /**
- * Keyword Search - TF-IDF based keyword search
+ * Keyword Search - TF-IDF or BM25F keyword search
+ * Scores pages from the persistent inverted index maintained by VectorStore;
+ * misspelled terms fall back to close indexed terms (see fuzzy.ts)
  */
 
-import type { KeywordSearchResult } from './types';
+import type { KeywordSearchResult, KeywordSearchResults, TermCorrection, SearchOptions } from './types';
+import type { KeywordField, KeywordPosting } from '../storage/types';
 import { vectorStore } from '../storage/VectorStore';
-import { tokenize, isExactPhraseMatch, extractDomain } from '../utils/textProcessing';
-import { TEXT_PROCESSING } from '../constants/contentSelectors';
+import { analyzeQuery } from '../utils/analyzers';
+import { extractDomain } from '../utils/textProcessing';
 import { loggers } from '../utils/logger';
 import { globalCaches, cacheKeys } from '../utils/cache';
+import { resolveBM25FParams, bm25Idf, bm25fTermScore, type BM25FParams } from './bm25f';
+import { resolvePageIds } from './filters';
+import { findFuzzyTerms, type FuzzyTerm } from './fuzzy';
+import { FUZZY_CONFIG, DEFAULT_SEARCH_OPTIONS } from '../config/searchConfig';
 
-import { FIELD_WEIGHTS } from '../utils/textProcessing';
+/**
+ * Term frequency per field from a posting
+ */
+function postingTermFrequencies(posting: KeywordPosting): Partial<Record<KeywordField, number>> {
+  const frequencies: Partial<Record<KeywordField, number>> = {};
+  for (const [field, positions] of Object.entries(posting.positions)) {
+    frequencies[field as KeywordField] = positions.length;
+  }
+  return frequencies;
+}
 
 /**
- * Calculate term frequency for a term in a document
+ * Calculate term frequency for a term in one field of a document
  */
-function calculateTF(term: string, tokens: string[]): number {
-  const count = tokens.filter(t => t === term).length;
-  return tokens.length > 0 ? count / tokens.length : 0;
+function calculateTF(posting: KeywordPosting, field: KeywordField): number {
+  const count = posting.positions[field]?.length ?? 0;
+  const length = posting.fieldLengths[field];
+  return length > 0 ? count / length : 0;
 }
 
 /**
- * Calculate inverse document frequency for a term
+ * Calculate inverse document frequency from the index document frequency
  */
-function calculateIDF(term: string, allDocuments: string[][]): number {
-  const docsWithTerm = allDocuments.filter(doc => doc.includes(term)).length;
-  return docsWithTerm > 0 ? Math.log(allDocuments.length / docsWithTerm) : 0;
+function calculateIDF(documentFrequency: number, totalDocuments: number): number {
+  return documentFrequency > 0 ? Math.log(totalDocuments / documentFrequency) : 0;
 }
 
 /**
- * Calculate TF-IDF score for a document
+ * Calculate weighted TF-IDF score of one term in a document
  */
-function calculateTFIDF(
-  queryTerms: string[],
-  docTokens: { title: string[]; summary: string[]; url: string[]; content: string[] },
-  idfScores: Map<string, number>
-): number {
-  let score = 0;
-
-  for (const term of queryTerms) {
-    const idf = idfScores.get(term) || 0;
-
-    // Calculate weighted TF-IDF for each field
-    const titleTF = calculateTF(term, docTokens.title);
-    const summaryTF = calculateTF(term, docTokens.summary);
-    const urlTF = calculateTF(term, docTokens.url);
-    const contentTF = calculateTF(term, docTokens.content);
-
-    score +=
-      titleTF * idf * FIELD_WEIGHTS.title +
-      summaryTF * idf * FIELD_WEIGHTS.summary +
-      urlTF * idf * FIELD_WEIGHTS.url +
-      contentTF * idf * FIELD_WEIGHTS.content;
+function calculateTFIDF(posting: KeywordPosting, idf: number, fieldWeights: BM25FParams['fieldWeights']): number {
+  return (
+    calculateTF(posting, 'title') * idf * fieldWeights.title +
+    calculateTF(posting, 'summary') * idf * fieldWeights.summary +
+    calculateTF(posting, 'url') * idf * fieldWeights.url +
+    calculateTF(posting, 'content') * idf * fieldWeights.content
+  );
+}
+
+/**
+ * Check whether the matched terms appear consecutively in a field (TF-IDF phrase bonus)
+ * @param termPostings The document's posting for each matched term, in query order
+ */
+function isPhraseMatch(termPostings: Array<KeywordPosting | undefined>, field: KeywordField): boolean {
+  if (termPostings.some(posting => !posting?.positions[field])) {
+    return false;
   }
 
-  return score;
+  const [first, ...rest] = termPostings.map(posting => posting!.positions[field]!);
+  return first.some(start => rest.every((positions, offset) => positions.includes(start + offset + 1)));
 }
 
 /**
- * KeywordSearch class for TF-IDF based keyword search
+ * Spell a corrected stem like the typed word by reattaching the suffix the stemmer
+ * removed ("kuberntes" → stem "kubernt" → "kubernet" + "es")
+ */
+function correctedWord(word: string, stem: string, correction: string): string {
+  return word.startsWith(stem) ? correction + word.slice(stem.length) : correction;
+}
+
+type KeywordSearchRequestOptions = { k?: number; minScore?: number; pageIds?: ReadonlySet<string>; fuzzy?: boolean } &
+  Pick<SearchOptions, 'keywordScorer' | 'fieldWeights' | 'k1' | 'b' | 'filters'>;
+
+const EMPTY_RESULTS: KeywordSearchResults = { results: [], corrections: [] };
+
+/**
+ * KeywordSearch class for TF-IDF or BM25F keyword search
  */
 export class KeywordSearch {
   /**
    * Search for pages matching keywords
    * @param query Search query
-   * @param options Search options
+   * @param options Search options (pageIds restricts matches to pages already resolved by
+   *   the caller; otherwise filters are resolved here)
    * @returns Array of keyword search results sorted by score
    */
-  async search(
-    query: string,
-    options: { k?: number; minScore?: number } = {}
-  ): Promise<KeywordSearchResult[]> {
+  async search(query: string, options: KeywordSearchRequestOptions = {}): Promise<KeywordSearchResult[]> {
+    return (await this.searchWithCorrections(query, options)).results;
+  }
+
+  /**
+   * Search for pages matching keywords, tolerating typos
+   * Query terms missing from the index also match indexed terms within a small edit
+   * distance (FUZZY_CONFIG), scored with a penalty per edit. Pass fuzzy: false to
+   * match exact terms only.
+   * @param query Search query
+   * @param options Search options (see search)
+   * @returns Results sorted by score, plus corrections when the corrected query scores much better
+   */
+  async searchWithCorrections(query: string, options: KeywordSearchRequestOptions = {}): Promise<KeywordSearchResults> {
     return loggers.keywordSearch.timedAsync('keyword-search', async () => {
       const k = options.k || 10;
       const minScore = options.minScore || 0.01;
-      const cacheKey = cacheKeys.keywordSearch(query, options);
+      const fuzzy = options.fuzzy ?? true;
+      const scorer = options.keywordScorer ?? DEFAULT_SEARCH_OPTIONS.keywordScorer;
+      const params = resolveBM25FParams(options);
+
+      // Filtered searches are cached by HybridSearch under the full query
+      const cacheKey = options.pageIds ? null : cacheKeys.keywordSearch(query, options, vectorStore.getIndexGeneration());
 
       // Check cache first
-      const cached = globalCaches.queryCache.get(cacheKey);
+      const cached = cacheKey ? globalCaches.queryCache.get(cacheKey) : undefined;
       if (cached) {
         loggers.keywordSearch.debug('Cache hit for keyword search');
         return cached;
@@ -84,114 +125,217 @@ export class KeywordSearch {
 
       loggers.keywordSearch.debug('Searching for:', query);
 
-      // Tokenize query
-      const queryTerms = tokenize(query);
+      // Analyze query words into the index terms they may appear as
+      const queryTerms = analyzeQuery(query);
       if (queryTerms.length === 0) {
-        loggers.keywordSearch.debug('No valid query terms after tokenization');
-        return [];
+        loggers.keywordSearch.debug('No valid query terms after analysis');
+        return EMPTY_RESULTS;
       }
 
       loggers.keywordSearch.debug('Query terms:', queryTerms);
 
-      // Get all pages from database
-      const pages = await vectorStore.getAllPages();
-      if (pages.length === 0) {
-        loggers.keywordSearch.debug('No pages in database');
-        return [];
+      const allowed = options.pageIds ?? await resolvePageIds({ filters: options.filters });
+      if (allowed && allowed.size === 0) {
+        return EMPTY_RESULTS;
       }
 
-      loggers.keywordSearch.debug('Searching across', pages.length, 'pages');
+      // Look up postings for the query terms in the inverted index
+      const { totalDocuments, averageFieldLengths, postings } = await vectorStore.lookupTerms(
+        queryTerms.flatMap(term => term.variants)
+      );
+      if (totalDocuments === 0) {
+        loggers.keywordSearch.debug('No pages in database');
+        return EMPTY_RESULTS;
+      }
 
-    // Tokenize all documents for IDF calculation
-    const allDocuments: string[][] = [];
-    const pageTokens: Map<string, { title: string[]; summary: string[]; url: string[]; content: string[] }> = new Map();
+      loggers.keywordSearch.debug('Searching across', totalDocuments, 'pages');
+
+    // Expand words missing from the index (no variant has postings) to close vocabulary terms
+    const expansions = new Map<string, FuzzyTerm[]>();
+    const missingTerms = queryTerms.filter(term => term.variants.every(variant => !postings.get(variant)?.length));
+    if (fuzzy && missingTerms.length > 0) {
+      const vocabulary = await vectorStore.getKeywordVocabulary();
+      for (const { word, variants } of missingTerms) {
+        const matches = findFuzzyTerms(variants[0], vocabulary);
+        if (matches.length > 0) {
+          expansions.set(word, matches);
+        }
+      }
 
-    for (const page of pages) {
-      const titleTokens = tokenize(page.title);
-      // Create passage tokens by joining all passage texts
-      const passageTexts = page.passages?.map(p => p.text).join(' ') || '';
-      const passageTokens = tokenize(passageTexts);
-      const urlTokens = tokenize(page.url);
-      const contentTokens = tokenize(page.content.substring(0, TEXT_PROCESSING.MAX_CONTENT_LENGTH));
+      const expansionTerms = [...expansions.values()].flat().map(match => match.term);
+      if (expansionTerms.length > 0) {
+        for (const [term, termPostings] of (await vectorStore.lookupTerms(expansionTerms)).postings) {
+          postings.set(term, termPostings);
+        }
+      }
 
-      const allTokens = [...titleTokens, ...passageTokens, ...urlTokens, ...contentTokens];
-      allDocuments.push(allTokens);
+      // Nearest first, then the most common term
+      for (const matches of expansions.values()) {
+        matches.sort((a, b) =>
+          a.distance - b.distance || (postings.get(b.term)?.length ?? 0) - (postings.get(a.term)?.length ?? 0)
+        );
+      }
+      loggers.keywordSearch.debug('Fuzzy expansions:', Object.fromEntries(expansions));
+    }
 
-      pageTokens.set(page.id, {
-        title: titleTokens,
-        summary: passageTokens, // Keep field name for compatibility
-        url: urlTokens,
-        content: contentTokens,
-      });
+    // Group postings by page: pageId -> term -> posting
+    const pagePostings = new Map<string, Map<string, KeywordPosting>>();
+    for (const [term, termPostings] of postings) {
+      for (const posting of termPostings) {
+        let byTerm = pagePostings.get(posting.pageId);
+        if (!byTerm) {
+          byTerm = new Map();
+          pagePostings.set(posting.pageId, byTerm);
+        }
+        byTerm.set(term, posting);
+      }
     }
 
-    // Calculate IDF for each query term
+    // Calculate IDF for each indexed term from its document frequency
     const idfScores = new Map<string, number>();
-    for (const term of queryTerms) {
-      idfScores.set(term, calculateIDF(term, allDocuments));
+    for (const [term, termPostings] of postings) {
+      idfScores.set(
+        term,
+        scorer === 'bm25f' ? bm25Idf(termPostings.length, totalDocuments) : calculateIDF(termPostings.length, totalDocuments)
+      );
     }
 
-    // Calculate TF-IDF scores for each page
-    const results: KeywordSearchResult[] = [];
+    const termScore = (term: string, byTerm: Map<string, KeywordPosting>): number => {
+      const posting = byTerm.get(term);
+      if (!posting) {
+        return 0;
+      }
+      if (scorer === 'tfidf') {
+        return calculateTFIDF(posting, idfScores.get(term) || 0, params.fieldWeights);
+      }
+      return bm25fTermScore(
+        postingTermFrequencies(posting),
+        posting.fieldLengths,
+        averageFieldLengths,
+        idfScores.get(term) || 0,
+        params
+      );
+    };
+
+    // Calculate scores for each matching page
+    // Exact-only and corrected (best expansion, no penalty) scores decide the suggestion
+    const results: Array<{ pageId: string; score: number; matchedTerms: string[] }> = [];
+    let bestExactScore = 0;
+    let bestCorrectedScore = 0;
+
+    for (const [pageId, byTerm] of pagePostings) {
+      if (allowed && !allowed.has(pageId)) {
+        continue;
+      }
 
-    for (const page of pages) {
-      const tokens = pageTokens.get(page.id)!;
+      let score = 0;
+      let exactScore = 0;
+      let correctedScore = 0;
+      const matchedTerms: string[] = [];
+
+      for (const { word, variants } of queryTerms) {
+        const matches = expansions.get(word);
+        if (!matches) {
+          // A word scores as its best-scoring variant on this page
+          let exact = 0;
+          let exactTerm: string | undefined;
+          for (const variant of variants) {
+            const variantScore = termScore(variant, byTerm);
+            if (variantScore > exact) {
+              exact = variantScore;
+              exactTerm = variant;
+            }
+          }
+          score += exact;
+          exactScore += exact;
+          correctedScore += exact;
+          if (exactTerm) {
+            matchedTerms.push(exactTerm);
+          }
+          continue;
+        }
+
+        // A misspelled word scores as its best-scoring expansion on this page
+        let best = 0;
+        let bestTerm: string | undefined;
+        for (const match of matches) {
+          const fuzzyScore = termScore(match.term, byTerm) * Math.pow(FUZZY_CONFIG.EDIT_PENALTY, match.distance);
+          if (fuzzyScore > best) {
+            best = fuzzyScore;
+            bestTerm = match.term;
+          }
+        }
+        score += best;
+        correctedScore += termScore(matches[0].term, byTerm);
+        if (bestTerm) {
+          matchedTerms.push(bestTerm);
+        }
+      }
 
-      // Calculate base TF-IDF score
-      let score = calculateTFIDF(queryTerms, tokens, idfScores);
+      bestExactScore = Math.max(bestExactScore, exactScore);
+      bestCorrectedScore = Math.max(bestCorrectedScore, correctedScore);
 
       // Skip if score is too low
       if (score < minScore) {
         continue;
       }
 
-      // Bonus: Exact phrase match in title or passages (2x boost)
-      const passageTexts = page.passages?.map(p => p.text).join(' ') || '';
-      if (
-        isExactPhraseMatch(query, page.title) ||
-        isExactPhraseMatch(query, passageTexts)
-      ) {
-        score *= 2.0;
-        loggers.keywordSearch.debug('Exact phrase match bonus for:', page.title);
+      // TF-IDF bonus: exact phrase match in title or passages (2x boost)
+      if (scorer === 'tfidf' && matchedTerms.length === queryTerms.length) {
+        const termPostings = matchedTerms.map(term => byTerm.get(term));
+        if (isPhraseMatch(termPostings, 'title') || isPhraseMatch(termPostings, 'summary')) {
+          score *= 2.0;
+          loggers.keywordSearch.debug('Exact phrase match bonus for:', pageId);
+        }
       }
 
-      // Bonus: Domain match (1.5x boost)
-      const pageDomain = extractDomain(page.url);
-      const queryLower = query.toLowerCase();
-      if (pageDomain && queryLower.includes(pageDomain)) {
-        score *= 1.5;
-        loggers.keywordSearch.debug('Domain match bonus for:', page.url);
-      }
-
-      // Find which terms matched
-      const matchedTerms = queryTerms.filter(term => {
-        return (
-          tokens.title.includes(term) ||
-          tokens.summary.includes(term) ||
-          tokens.url.includes(term) ||
-          tokens.content.includes(term)
-        );
-      });
+      results.push({ pageId, score, matchedTerms });
+    }
 
-      results.push({
-        page,
-        score,
-        matchedTerms,
-      });
+    // Suggest the corrected query only when it clearly beats the original
+    const corrections: TermCorrection[] =
+      expansions.size > 0 && bestCorrectedScore > bestExactScore * FUZZY_CONFIG.SUGGESTION_SCORE_RATIO
+        ? missingTerms
+            .filter(({ word }) => expansions.has(word))
+            .map(({ word, variants }) => ({ term: word, correction: correctedWord(word, variants[0], expansions.get(word)![0].term) }))
+        : [];
+
+    // TF-IDF bonus: domain match (1.5x boost) - needs the page URL from metadata
+    if (scorer === 'tfidf' && results.length > 0) {
+      const metadata = await vectorStore.getPageMetadataByIds(results.map(r => r.pageId));
+      const queryLower = query.toLowerCase();
+      for (const result of results) {
+        const page = metadata.get(result.pageId);
+        const pageDomain = page && extractDomain(page.url);
+        if (pageDomain && queryLower.includes(pageDomain)) {
+          result.score *= 1.5;
+          loggers.keywordSearch.debug('Domain match bonus for:', pageDomain);
+        }
+      }
     }
 
     // Sort by score (descending)
     results.sort((a, b) => b.score - a.score);
 
-    // Return top-k results
-    const topResults = results.slice(0, k);
+    // Return top-k results, hydrated with full records (including embeddings)
+    const topCandidates = results.slice(0, k);
+    const fullPages = new Map(
+      (await vectorStore.getPages(topCandidates.map(r => r.pageId))).map(page => [page.id, page])
+    );
+    const topResults: KeywordSearchResult[] = topCandidates
+      .filter(r => fullPages.has(r.pageId))
+      .map(r => ({ page: fullPages.get(r.pageId)!, score: r.score, matchedTerms: r.matchedTerms }));
 
     loggers.keywordSearch.debug('Found', results.length, 'matches, returning top', topResults.length);
 
+      const searchResults: KeywordSearchResults = { results: topResults, corrections };
+
       // Cache the result
-      globalCaches.queryCache.set(cacheKey, topResults);
+      if (cacheKey) {
+        globalCaches.queryCache.set(cacheKey, searchResults);
+      }
 
-      return topResults;
+      return searchResults;
     });
   }
 }
@@ -5,14 +5,121 @@
  * - Search ALL passages directly
  * - Retrieve top-k and apply tuned threshold (default 0.58)
  * - Simple scoring: max similarity + multi-passage bonus
+ * - Optionally score archived page versions too (a page scores as its best version)
  */
 
 import type { SearchResult, SearchOptions } from './types';
+import type { PageRecord, PassageVector } from '../storage/types';
 import { vectorStore } from '../storage/VectorStore';
+import { annIndex } from './AnnIndex';
+import { resolvePageIds } from './filters';
+import { currentEmbeddingSignature, isSameEmbeddingSignature, LEGACY_EMBEDDING_SIGNATURE } from '../embeddings/embeddingSignature';
 import { DEFAULT_SEARCH_OPTIONS } from '../config/searchConfig';
 import { loggers } from '../utils/logger';
 import { globalCaches, cacheKeys, hashEmbedding } from '../utils/cache';
 
+/**
+ * Per-page score computed while streaming passage vectors
+ */
+interface PageScore {
+  pageId: string;
+  similarity: number;
+  relevanceScore: number;
+  matchingPassages: number;
+  topPassageId?: string;
+
+  /** Set when an archived version scored better than the current content */
+  version?: {
+    id: string;
+    capturedAt: number;
+    snippet?: string;
+  };
+}
+
+/**
+ * Score a page's passage vectors: max similarity plus a multi-passage bonus
+ */
+function scorePassages(
+  queryEmbedding: Float32Array,
+  vectors: PassageVector[],
+  minSimilarity: number
+): { similarity: number; relevanceScore: number; matchingPassages: number; topPassageId?: string } {
+  let maxSimilarity = -Infinity;
+  let topPassageId: string | undefined;
+  let strongMatches = 0;
+
+  for (const vector of vectors) {
+    const similarity = dotProduct(queryEmbedding, vector.embedding);
+
+    if (similarity > maxSimilarity) {
+      maxSimilarity = similarity;
+      topPassageId = vector.passageId;
+    }
+
+    if (similarity >= minSimilarity) {
+      strongMatches++;
+    }
+  }
+
+  // Calculate relevance score with multi-passage bonus
+  // Logarithmic scaling: 2→10%, 5→16%, 10→23% boost
+  let relevanceScore = maxSimilarity;
+  if (strongMatches > 1) {
+    relevanceScore += Math.log(strongMatches) * 0.10;
+  }
+
+  return { similarity: maxSimilarity, relevanceScore, matchingPassages: strongMatches, topPassageId };
+}
+
+/**
+ * Best-scoring archived version per page
+ * Versions embedded with a different signature than the query are skipped
+ */
+async function scoreVersions(
+  queryEmbedding: Float32Array,
+  minSimilarity: number,
+  pageIds?: ReadonlySet<string>
+): Promise<Map<string, PageScore>> {
+  const querySignature = currentEmbeddingSignature(queryEmbedding.length);
+  const best = new Map<string, PageScore>();
+
+  await vectorStore.streamPageVersions((version) => {
+    if (pageIds && !pageIds.has(version.pageId)) {
+      return;
+    }
+
+    if (!isSameEmbeddingSignature(version.embeddingSignature, querySignature)) {
+      return;
+    }
+
+    const vectors: PassageVector[] = version.passages
+      .filter(passage => passage.embedding)
+      .map(passage => ({ passageId: passage.id, quality: passage.quality, embedding: passage.embedding! }));
+    if (vectors.length === 0) {
+      return;
+    }
+
+    const score = scorePassages(queryEmbedding, vectors, minSimilarity);
+    const previous = best.get(version.pageId);
+    if (!previous || score.relevanceScore > previous.relevanceScore) {
+      best.set(version.pageId, {
+        pageId: version.pageId,
+        similarity: score.similarity,
+        relevanceScore: score.relevanceScore,
+        matchingPassages: score.matchingPassages,
+        topPassageId: score.topPassageId,
+        version: {
+          id: version.id,
+          capturedAt: version.capturedAt,
+          snippet: version.passages.find(p => p.id === score.topPassageId)?.text,
+        },
+      });
+    }
+  });
+
+  return best;
+}
+
 function estimateSemanticConfidence(similarity: number, threshold?: number): 'high' | 'medium' | 'low' {
   if (threshold !== undefined) {
     if (similarity >= threshold) return 'high';
@@ -96,6 +203,8 @@ export function cosineSimilarity(a: Float32Array, b: Float32Array): number {
 
 /**
  * Perform semantic search - SIMPLIFIED approach
+ * Pass pageIds to restrict the search to pages already resolved by the caller;
+ * otherwise options.filters are resolved here. options.signal cancels the scan
  * 
  * Testing showed:
  * - Top-k retrieval avoids missing relevant passages below legacy thresholds
@@ -104,21 +213,24 @@ export function cosineSimilarity(a: Float32Array, b: Float32Array): number {
  */
 export async function searchSimilar(
   queryEmbedding: Float32Array,
-  options: SearchOptions = {}
+  options: SearchOptions = {},
+  pageIds?: ReadonlySet<string>
 ): Promise<SearchResult[]> {
   return loggers.vectorSearch.timedAsync('semantic-search', async () => {
-    const opts: Required<SearchOptions> = {
+    const { signal, ...searchOptions } = options;
+    const opts: Required<Omit<SearchOptions, 'signal'>> = {
       ...DEFAULT_SEARCH_OPTIONS,
       mode: 'semantic' as const,
       alpha: 0.5,
-      ...options,
+      ...searchOptions,
     };
 
+    // Filtered searches are cached by HybridSearch under the full query
     const embeddingHash = hashEmbedding(queryEmbedding);
-    const cacheKey = cacheKeys.vectorSearch(embeddingHash, opts);
+    const cacheKey = pageIds ? null : cacheKeys.vectorSearch(embeddingHash, opts, vectorStore.getIndexGeneration());
 
     // Check cache
-    const cached = globalCaches.queryCache.get(cacheKey);
+    const cached = cacheKey ? globalCaches.queryCache.get(cacheKey) : undefined;
     if (cached) {
       loggers.vectorSearch.debug('Cache hit');
       return cached;
@@ -126,70 +238,55 @@ export async function searchSimilar(
 
     loggers.vectorSearch.debug('Passage-only search, threshold:', opts.minSimilarity);
 
-    // Load all pages
-    const allPages = await vectorStore.getAllPages();
-
-    if (allPages.length === 0) {
+    const allowed = pageIds ?? await resolvePageIds({ filters: opts.filters });
+    if (allowed && allowed.size === 0) {
       return [];
     }
 
-    loggers.vectorSearch.debug('Searching', allPages.length, 'pages');
-
-    // Search ALL passages, group by page
-    const results: SearchResult[] = [];
-    const fallbackResults: SearchResult[] = [];
-
-    for (const page of allPages) {
-      if (!page.passages || page.passages.length === 0) {
-        continue;
-      }
+    // Score candidate passage vectors from the ANN index (exact re-rank); full records are loaded for the winners below
+    const results: PageScore[] = [];
+    const fallbackResults: PageScore[] = [];
+    let scannedPages = 0;
 
-      let maxSimilarity = -Infinity;
-      let topPassageSnippet: string | undefined;
-      let strongMatches = 0;
+    const versionScores = opts.includeHistory
+      ? await scoreVersions(queryEmbedding, opts.minSimilarity, allowed)
+      : new Map<string, PageScore>();
 
-      for (const passage of page.passages) {
-        if (!passage.embedding) continue;
+    const collect = (score: PageScore) => {
+      fallbackResults.push(score);
 
-        const similarity = dotProduct(queryEmbedding, passage.embedding);
-
-        if (similarity > maxSimilarity) {
-          maxSimilarity = similarity;
-          topPassageSnippet = passage.text;
-        }
-
-        if (similarity >= opts.minSimilarity) {
-          strongMatches++;
-        }
+      if (score.similarity >= opts.minSimilarity) {
+        results.push(score);
       }
+    };
 
-      if (maxSimilarity === -Infinity) {
-        continue;
-      }
+    await annIndex.visitCandidates(queryEmbedding, ({ pageId, vectors }) => {
+      scannedPages++;
 
-      // Calculate relevance score with multi-passage bonus
-      // Logarithmic scaling: 2→10%, 5→16%, 10→23% boost
-      let relevanceScore = maxSimilarity;
-      if (strongMatches > 1) {
-        relevanceScore += Math.log(strongMatches) * 0.10;
+      if (vectors.length === 0) {
+        return;
       }
 
-      const baseResult: SearchResult & { topPassageSnippet?: string } = {
-        page,
-        similarity: maxSimilarity,
-        relevanceScore,
-        searchMode: 'semantic',
-        confidence: estimateSemanticConfidence(maxSimilarity, opts.minSimilarity),
-        topPassageSnippet,
-      } as SearchResult & { topPassageSnippet?: string };
+      const score: PageScore = { pageId, ...scorePassages(queryEmbedding, vectors, opts.minSimilarity) };
 
-      fallbackResults.push(baseResult);
+      // A page scores as its best version
+      const versionScore = versionScores.get(pageId);
+      versionScores.delete(pageId);
+      collect(versionScore && versionScore.relevanceScore > score.relevanceScore ? versionScore : score);
+    }, allowed, signal);
 
-      if (maxSimilarity >= opts.minSimilarity) {
-        results.push(baseResult);
-      }
+    // Pages the ANN probe skipped can still match through an older version
+    for (const versionScore of versionScores.values()) {
+      scannedPages++;
+      collect(versionScore);
     }
 
+    if (scannedPages === 0) {
+      return [];
+    }
+
+    loggers.vectorSearch.debug('Searched', scannedPages, 'pages');
+
     // Smart fallback: only use low-similarity results if they're not completely irrelevant
     let candidates = results;
     
@@ -212,36 +309,98 @@ export async function searchSimilar(
 
     // CRITICAL: Sort by relevanceScore (includes multi-passage bonuses), not raw similarity
     candidates.sort((a, b) => b.relevanceScore - a.relevanceScore);
-    const topResults = candidates.slice(0, opts.k);
+    const topScores = candidates.slice(0, opts.k);
+
+    // Load full records only for the winning pages
+    signal?.throwIfAborted();
+    const pages = new Map(
+      (await vectorStore.getPages(topScores.map(score => score.pageId))).map(page => [page.id, page])
+    );
+
+    const topResults: SearchResult[] = [];
+    for (const score of topScores) {
+      const page = pages.get(score.pageId);
+      if (!page) continue; // Deleted between scan and hydration
+
+      topResults.push({
+        page,
+        similarity: score.similarity,
+        relevanceScore: score.relevanceScore,
+        matchingPassages: score.matchingPassages,
+        searchMode: 'semantic',
+        confidence: estimateSemanticConfidence(score.similarity, opts.minSimilarity),
+        topPassageId: score.topPassageId,
+        topPassageSnippet: score.version
+          ? score.version.snippet
+          : page.passages.find(p => p.id === score.topPassageId)?.text,
+        ...(score.version ? { matchedVersion: { id: score.version.id, capturedAt: score.version.capturedAt } } : {}),
+      });
+    }
 
     loggers.vectorSearch.debug('Returning', topResults.length, 'results');
 
-    globalCaches.queryCache.set(cacheKey, topResults);
+    if (cacheKey) {
+      globalCaches.queryCache.set(cacheKey, topResults);
+    }
 
     return topResults;
   });
 }
 
+/**
+ * Normalized mean of a page's passage embeddings
+ * Passages with a different dimension than the first are skipped
+ */
+export function pageVector(page: PageRecord): Float32Array | undefined {
+  const embeddings = (page.passages ?? []).flatMap(passage => (passage.embedding ? [passage.embedding] : []));
+  if (embeddings.length === 0) {
+    return undefined;
+  }
+
+  const mean = new Float32Array(embeddings[0].length);
+  for (const embedding of embeddings) {
+    if (embedding.length !== mean.length) {
+      continue;
+    }
+    for (let i = 0; i < mean.length; i++) {
+      mean[i] += embedding[i];
+    }
+  }
+
+  const norm = Math.sqrt(dotProduct(mean, mean));
+  if (norm === 0) {
+    return undefined;
+  }
+  for (let i = 0; i < mean.length; i++) {
+    mean[i] /= norm;
+  }
+  return mean;
+}
+
 /**
  * Find similar pages (for "More like this" feature)
+ * The query is the page's mean passage embedding, so the whole page counts rather
+ * than its title alone. Pages embedded with an outdated model or prompt format
+ * find nothing until they are re-embedded.
  */
 export async function findSimilarPages(pageId: string, options: SearchOptions = {}): Promise<SearchResult[]> {
   const page = await vectorStore.getPage(pageId);
+  const queryEmbedding = page && pageVector(page);
 
-  if (!page || !page.passages || page.passages.length === 0) {
+  if (!queryEmbedding) {
     return [];
   }
 
-  // Use first passage embedding as query
-  const queryEmbedding = page.passages[0].embedding;
-  
-  if (!queryEmbedding) {
+  const pageSignature = page.embeddingSignature ?? LEGACY_EMBEDDING_SIGNATURE;
+  if (!isSameEmbeddingSignature(pageSignature, currentEmbeddingSignature(queryEmbedding.length))) {
+    loggers.vectorSearch.debug('Page embedding signature is outdated; no similar pages', { pageId });
     return [];
   }
 
-  const results = await searchSimilar(queryEmbedding, options);
+  // One extra result makes up for excluding the original page
+  const k = options.k ?? DEFAULT_SEARCH_OPTIONS.k;
+  const results = await searchSimilar(queryEmbedding, { ...options, k: k + 1 });
 
-  // Exclude the original page
-  return results.filter(r => r.page.id !== pageId);
+  return results.filter(r => r.page.id !== pageId).slice(0, k);
 }
 
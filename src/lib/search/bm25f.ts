@@ -0,0 +1,89 @@
+/**
+ * BM25F - field-weighted BM25 scoring
+ *
+ * Term frequencies are length-normalized per field against that field's corpus
+ * average, weighted, summed into one pseudo-frequency and saturated once with k1:
+ *
+ *   tf' = Σ_f w_f · tf_f / (1 - b + b · len_f / avgLen_f)
+ *   score = Σ_t idf(t) · tf' / (k1 + tf')
+ *
+ * Shared by KeywordSearch (index postings) and the evaluation scripts (in-memory pages).
+ */
+
+import type { KeywordField } from '../storage/types';
+import type { SearchOptions } from './types';
+import { DEFAULT_SEARCH_OPTIONS } from '../config/searchConfig';
+
+/**
+ * Resolved BM25F parameters
+ */
+export interface BM25FParams {
+  fieldWeights: Record<KeywordField, number>;
+  k1: number;
+  b: number;
+}
+
+/**
+ * Merge caller overrides with the defaults
+ * Invalid values fall back to the defaults; b is clamped into [0,1]
+ */
+export function resolveBM25FParams(
+  options: Pick<SearchOptions, 'fieldWeights' | 'k1' | 'b'> = {}
+): BM25FParams {
+  const fieldWeights = { ...DEFAULT_SEARCH_OPTIONS.fieldWeights } as Record<KeywordField, number>;
+  for (const [field, weight] of Object.entries(options.fieldWeights ?? {})) {
+    if (field in fieldWeights && Number.isFinite(weight) && weight! >= 0) {
+      fieldWeights[field as KeywordField] = weight!;
+    }
+  }
+
+  const k1 = Number.isFinite(options.k1) && options.k1! >= 0 ? options.k1! : DEFAULT_SEARCH_OPTIONS.k1;
+  const b = Number.isFinite(options.b) ? Math.max(0, Math.min(1, options.b!)) : DEFAULT_SEARCH_OPTIONS.b;
+
+  return { fieldWeights, k1, b };
+}
+
+/**
+ * BM25 inverse document frequency (always positive)
+ */
+export function bm25Idf(documentFrequency: number, totalDocuments: number): number {
+  if (documentFrequency <= 0) {
+    return 0;
+  }
+  return Math.log(1 + (totalDocuments - documentFrequency + 0.5) / (documentFrequency + 0.5));
+}
+
+/**
+ * Score one term in one document
+ * @param termFrequencies Occurrences of the term per field
+ * @param fieldLengths Token count per field of the document
+ * @param averageFieldLengths Corpus average token count per field
+ * @param idf Term IDF (see bm25Idf)
+ * @param params Resolved BM25F parameters
+ */
+export function bm25fTermScore(
+  termFrequencies: Partial<Record<KeywordField, number>>,
+  fieldLengths: Record<KeywordField, number>,
+  averageFieldLengths: Record<KeywordField, number>,
+  idf: number,
+  params: BM25FParams
+): number {
+  let pseudoFrequency = 0;
+
+  for (const field of Object.keys(params.fieldWeights) as KeywordField[]) {
+    const tf = termFrequencies[field] ?? 0;
+    if (tf === 0) {
+      continue;
+    }
+
+    const average = averageFieldLengths[field];
+    const lengthRatio = average > 0 ? fieldLengths[field] / average : 1;
+    pseudoFrequency += (params.fieldWeights[field] * tf) / (1 - params.b + params.b * lengthRatio);
+  }
+
+  if (pseudoFrequency === 0) {
+    return 0;
+  }
+
+  return (idf * pseudoFrequency) / (params.k1 + pseudoFrequency);
+}
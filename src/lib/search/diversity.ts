@@ -0,0 +1,158 @@
+/**
+ * Result Diversity - near-duplicate collapsing and Maximal Marginal Relevance
+ *
+ * Pages are compared by the mean of their passage embeddings (when both carry the
+ * same embedding signature) and by the terms of their titles and URLs. Mirrors, paginated variants and versioned copies of a
+ * document collapse under the best-ranked one. MMR then optionally reorders the
+ * top k so each result adds something the ones above it do not cover.
+ */
+
+import type { SearchResult } from './types';
+import type { PageRecord, EmbeddingSignature } from '../storage/types';
+import { dotProduct, pageVector } from './VectorSearch';
+import { isSameEmbeddingSignature, LEGACY_EMBEDDING_SIGNATURE } from '../embeddings/embeddingSignature';
+import { analyze } from '../utils/analyzers';
+import { DIVERSITY_CONFIG } from '../config/searchConfig';
+
+/**
+ * Comparable features of a page
+ */
+interface PageFeatures {
+  /** Normalized mean passage embedding (undefined without embeddings) */
+  vector?: Float32Array;
+  /** Signature of the passage embeddings behind `vector` */
+  signature: EmbeddingSignature;
+  titleTerms: Set<string>;
+  urlTerms: Set<string>;
+}
+
+/**
+ * Host (without www.) and path terms of a URL; query and fragment are ignored
+ */
+function urlTerms(url: string): Set<string> {
+  try {
+    const parsed = new URL(url);
+    const host = parsed.hostname.replace(/^www\./, '');
+    return new Set([host, ...parsed.pathname.toLowerCase().split(/[^\p{L}\p{N}]+/u).filter(Boolean)]);
+  } catch {
+    return new Set([url]);
+  }
+}
+
+/**
+ * Share of terms two sets have in common (Jaccard index, 0 for two empty sets)
+ */
+function jaccard(a: ReadonlySet<string>, b: ReadonlySet<string>): number {
+  if (a.size === 0 && b.size === 0) {
+    return 0;
+  }
+  let shared = 0;
+  for (const term of a) {
+    if (b.has(term)) {
+      shared++;
+    }
+  }
+  return shared / (a.size + b.size - shared);
+}
+
+function pageFeatures(page: PageRecord): PageFeatures {
+  return {
+    vector: pageVector(page),
+    signature: page.embeddingSignature ?? LEGACY_EMBEDDING_SIGNATURE,
+    titleTerms: new Set(analyze(page.title, page.language)),
+    urlTerms: urlTerms(page.url),
+  };
+}
+
+/**
+ * Embedding similarity of two pages (undefined when either has no comparable vector)
+ */
+function vectorSimilarity(a: PageFeatures, b: PageFeatures): number | undefined {
+  return a.vector && b.vector && a.vector.length === b.vector.length && isSameEmbeddingSignature(a.signature, b.signature)
+    ? dotProduct(a.vector, b.vector)
+    : undefined;
+}
+
+/**
+ * Whether two pages are near-duplicates
+ * - Near-identical content (EMBEDDING_SIMILARITY) alone suffices
+ * - Similar content (SUPPORTED_EMBEDDING_SIMILARITY) needs a similar title or URL
+ * - Without comparable embeddings, both title and URL must be similar
+ */
+function isNearDuplicate(a: PageFeatures, b: PageFeatures): boolean {
+  const similarTitle = jaccard(a.titleTerms, b.titleTerms) >= DIVERSITY_CONFIG.TITLE_SIMILARITY;
+  const similarUrl = jaccard(a.urlTerms, b.urlTerms) >= DIVERSITY_CONFIG.URL_SIMILARITY;
+  const similarity = vectorSimilarity(a, b);
+
+  if (similarity === undefined) {
+    return similarTitle && similarUrl;
+  }
+  return (
+    similarity >= DIVERSITY_CONFIG.EMBEDDING_SIMILARITY ||
+    (similarity >= DIVERSITY_CONFIG.SUPPORTED_EMBEDDING_SIMILARITY && (similarTitle || similarUrl))
+  );
+}
+
+/**
+ * Collapse near-duplicates under the best-ranked result of each group
+ * Results keep their order; each collapsed result is listed in `duplicates` of
+ * the first result above it that it duplicates
+ *
+ * @param results Ranked results
+ * @returns Group representatives in rank order
+ */
+export function collapseNearDuplicates(results: SearchResult[]): SearchResult[] {
+  const representatives: Array<{ result: SearchResult; features: PageFeatures; duplicates: SearchResult[] }> = [];
+
+  for (const result of results) {
+    const features = pageFeatures(result.page);
+    const group = representatives.find(representative => isNearDuplicate(representative.features, features));
+    if (group) {
+      group.duplicates.push(result);
+    } else {
+      representatives.push({ result, features, duplicates: [] });
+    }
+  }
+
+  return representatives.map(({ result, duplicates }) => (duplicates.length > 0 ? { ...result, duplicates } : result));
+}
+
+/**
+ * Maximal Marginal Relevance: greedily pick k results, each maximizing
+ * lambda * relevance - (1 - lambda) * (highest similarity to a picked result)
+ * Relevance falls linearly with first-stage rank (1 for the top result); pages
+ * without comparable embeddings count as not redundant
+ *
+ * @param results Ranked results
+ * @param k Results to pick
+ * @param lambda Relevance/diversity trade-off (1 = rank order, 0 = most diverse)
+ * @returns Picked results in pick order, followed by the rest in rank order
+ */
+export function maximalMarginalRelevance(results: SearchResult[], k: number, lambda: number): SearchResult[] {
+  const features = results.map(result => pageFeatures(result.page));
+  const remaining = results.map((_, index) => index);
+  const picked: number[] = [];
+
+  while (picked.length < k && remaining.length > 0) {
+    let bestPosition = 0;
+    let bestScore = -Infinity;
+
+    remaining.forEach((index, position) => {
+      const relevance = 1 - index / results.length;
+      let redundancy = 0;
+      for (const other of picked) {
+        redundancy = Math.max(redundancy, vectorSimilarity(features[index], features[other]) ?? 0);
+      }
+
+      const score = lambda * relevance - (1 - lambda) * redundancy;
+      if (score > bestScore) {
+        bestScore = score;
+        bestPosition = position;
+      }
+    });
+
+    picked.push(remaining.splice(bestPosition, 1)[0]);
+  }
+
+  return [...picked, ...remaining].map(index => results[index]);
+}
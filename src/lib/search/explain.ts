@@ -0,0 +1,87 @@
+/**
+ * Score explanations (SearchOptions.explain)
+ * Breaks a result's position down into the ranked lists fused into its score
+ * (semantic, keyword, recency, frequency, rerank), each list's RRF contribution,
+ * and the passage similarity and keyword score behind the semantic and keyword ranks.
+ * Query operators are reported with the search: they filter pages before ranking
+ * and never add to a score.
+ */
+
+import type { SearchResult, ScoreExplanation, SearchExplanation, SearchFilters, SearchMode, KeywordScorer } from './types';
+import type { ParsedQuery } from './queryParser';
+
+/**
+ * Explain one result
+ * @param result Ranked result (with the sourceScores, sourceRanks and rankingFeatures HybridSearch attaches)
+ * @param rank 1-based position in the returned results
+ */
+export function explainResult(result: SearchResult, rank: number): ScoreExplanation {
+  const ranks: Record<string, number> = { ...result.sourceRanks };
+  const features = result.rankingFeatures;
+  if (features) {
+    // Single-list searches rank by their own list only
+    if (!result.sourceRanks?.semantic && !result.sourceRanks?.keyword) {
+      ranks[result.searchMode ?? 'retrieval'] = features.rank;
+    }
+    ranks.recency = features.recencyRank;
+    ranks.frequency = features.frequencyRank;
+  }
+
+  const semanticMatch = result.searchMode !== 'keyword' && result.similarity > 0;
+
+  return {
+    rank,
+    ...(result.fusionScore !== undefined ? { fusionScore: result.fusionScore } : {}),
+    ranks,
+    contributions: { ...result.sourceScores },
+    ...(semanticMatch
+      ? {
+          semantic: {
+            similarity: result.similarity,
+            multiPassageBonus: Math.max(result.relevanceScore - result.similarity, 0),
+            matchingPassages: result.matchingPassages ?? 0,
+            relevanceScore: result.relevanceScore,
+            ...(result.topPassageId ? { topPassageId: result.topPassageId } : {}),
+            ...(result.matchedVersion ? { matchedVersionId: result.matchedVersion.id } : {}),
+          },
+        }
+      : {}),
+    ...(result.keywordScore !== undefined
+      ? { keyword: { score: result.keywordScore, matchedTerms: result.matchedTerms ?? [] } }
+      : {}),
+    collapsedDuplicates: result.duplicates?.length ?? 0,
+    ...(result.confidence ? { confidence: result.confidence } : {}),
+  };
+}
+
+/**
+ * Explain the settings and filters of a search
+ */
+export function explainSearch(params: {
+  mode: SearchMode;
+  rankedText: string;
+  parsed: ParsedQuery;
+  filters?: SearchFilters;
+  alpha: number;
+  rrfK: number;
+  recencyWeight: number;
+  frequencyWeight: number;
+  keywordScorer: KeywordScorer;
+  reranker: string;
+  rerankWeight: number;
+  mmrLambda: number;
+  collapseDuplicates: boolean;
+  candidates: number;
+}): SearchExplanation {
+  const { parsed, filters, ...settings } = params;
+  return {
+    ...settings,
+    operators: {
+      sites: parsed.sites,
+      phrases: parsed.phrases,
+      titleTerms: parsed.titleTerms,
+      excluded: parsed.excluded,
+    },
+    ...(filters && Object.keys(filters).length > 0 ? { filters } : {}),
+  };
+}
@@ -0,0 +1,314 @@
+/**
+ * Search Filters - structured filters and facet counts
+ *
+ * Structured filters (SearchOptions.filters) and query operators (queryParser) are
+ * resolved together into the set of page IDs that may be ranked. Phrases and
+ * exclusions are first resolved from the positional keyword postings; only the
+ * pages those leave in doubt have their content loaded. Facets count the
+ * ranked candidates of a search per domain and visit date bucket.
+ */
+
+import type { SearchFilters, SearchFacets, FacetCount, TimeRange } from './types';
+import type { PageMetadata, VisitSummary, KeywordField, KeywordPosting } from '../storage/types';
+import {
+  hasQueryFilters,
+  needsContent,
+  matchesPageFilters,
+  matchesTimeRange,
+  matchesSites,
+  normalizeSite,
+  type ParsedQuery,
+} from './queryParser';
+import { vectorStore } from '../storage/VectorStore';
+import { extractDomain } from '../utils/textProcessing';
+import { analyze } from '../utils/analyzers';
+import { FACET_CONFIG } from '../config/searchConfig';
+import { loggers } from '../utils/logger';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Fields a phrase may occur in; exclusions also cover the URL
+const PHRASE_FIELDS: KeywordField[] = ['title', 'summary', 'content'];
+
+/**
+ * Whether any structured filter is set
+ */
+export function hasSearchFilters(filters: SearchFilters | undefined): boolean {
+  return Boolean(
+    filters &&
+      ((filters.domains && filters.domains.length > 0) ||
+        filters.startTime !== undefined ||
+        filters.endTime !== undefined ||
+        filters.minDwellTime !== undefined ||
+        filters.minVisitCount !== undefined)
+  );
+}
+
+/**
+ * Narrow structured filters to a time range (intersected with a range already set)
+ */
+export function withTimeRange(filters: SearchFilters | undefined, range: TimeRange): SearchFilters {
+  const bound = (a: number | undefined, b: number | undefined, pick: (x: number, y: number) => number) =>
+    a === undefined ? b : b === undefined ? a : pick(a, b);
+
+  return {
+    ...filters,
+    startTime: bound(filters?.startTime, range.startTime, Math.max),
+    endTime: bound(filters?.endTime, range.endTime, Math.min),
+  };
+}
+
+/**
+ * Visit start times of a page (its latest visit when none are recorded)
+ */
+function visitTimesOf(page: Pick<PageMetadata, 'timestamp'>, summary: VisitSummary | undefined): number[] {
+  return summary ? summary.visits.map(visit => visit.startTime) : [page.timestamp];
+}
+
+/**
+ * Whether a page passes the structured filters
+ */
+function matchesSearchFilters(
+  filters: SearchFilters,
+  page: Pick<PageMetadata, 'url' | 'timestamp' | 'dwellTime' | 'visitCount'>,
+  summary: VisitSummary | undefined
+): boolean {
+  if (filters.domains && filters.domains.length > 0 && !matchesSites(page.url, filters.domains.map(normalizeSite))) {
+    return false;
+  }
+
+  if (filters.minVisitCount !== undefined && page.visitCount < filters.minVisitCount) {
+    return false;
+  }
+
+  if (filters.minDwellTime !== undefined && (summary?.totalDwellTime ?? page.dwellTime) < filters.minDwellTime) {
+    return false;
+  }
+
+  if (filters.startTime !== undefined || filters.endTime !== undefined) {
+    return visitTimesOf(page, summary).some(time =>
+      (filters.startTime === undefined || time >= filters.startTime) &&
+      (filters.endTime === undefined || time < filters.endTime)
+    );
+  }
+
+  return true;
+}
+
+/**
+ * Resolve query operators and structured filters to the pages that pass all of them
+ * @returns Matching page IDs, or undefined when nothing filters
+ */
+export async function resolvePageIds(criteria: {
+  query?: ParsedQuery;
+  filters?: SearchFilters;
+}): Promise<Set<string> | undefined> {
+  const query = criteria.query && hasQueryFilters(criteria.query) ? criteria.query : undefined;
+  const filters = hasSearchFilters(criteria.filters) ? criteria.filters! : undefined;
+  if (!query && !filters) {
+    return undefined;
+  }
+
+  // Visit summaries are only needed for time ranges and total dwell time
+  const needsVisits =
+    (query && (query.before !== undefined || query.after !== undefined)) ||
+    (filters && (filters.startTime !== undefined || filters.endTime !== undefined || filters.minDwellTime !== undefined));
+
+  const [pages, visits] = await Promise.all([
+    vectorStore.getAllPageMetadata(),
+    needsVisits ? vectorStore.getVisitSummaries() : Promise.resolve(null),
+  ]);
+
+  // Phrases and exclusions are checked after the cheaper metadata filters
+  const metadataQuery = query && { ...query, phrases: [], excluded: [] };
+
+  const matched: PageMetadata[] = [];
+  for (const page of pages) {
+    const summary = visits?.get(page.id);
+
+    if (query && !(matchesPageFilters(metadataQuery!, page) && matchesTimeRange(query, visitTimesOf(page, summary)))) {
+      continue;
+    }
+    if (filters && !matchesSearchFilters(filters, page, summary)) {
+      continue;
+    }
+    matched.push(page);
+  }
+
+  const pageIds = query && needsContent(query)
+    ? await resolveTextFilters(query, matched)
+    : new Set(matched.map(page => page.id));
+
+  loggers.hybridSearch.debug(`Filters matched ${pageIds.size}/${pages.length} pages`);
+  return pageIds;
+}
+
+/**
+ * Whether a page's postings hold the terms at consecutive positions of one of the fields
+ * @param postings Postings by term, then by page ID
+ */
+function hasTermSequence(
+  postings: Map<string, Map<string, KeywordPosting>>,
+  pageId: string,
+  sequence: string[],
+  fields: KeywordField[]
+): boolean {
+  const first = postings.get(sequence[0])?.get(pageId);
+  if (!first) {
+    return false;
+  }
+
+  return fields.some(field =>
+    (first.positions[field] ?? []).some(start =>
+      sequence.every((term, offset) =>
+        offset === 0 || postings.get(term)?.get(pageId)?.positions[field]?.includes(start + offset)
+      )
+    )
+  );
+}
+
+/**
+ * Apply phrase and exclusion operators to pages that passed the other filters
+ * A phrase must occur as consecutive index terms (analyzed in the page's language)
+ * and an exclusion must not; the index ignores stop words and stems, so pages it
+ * keeps for a phrase or rejects for an exclusion are confirmed against their
+ * content. Phrases and exclusions without index terms (only stop words or short
+ * words) are checked against the content of every page.
+ */
+async function resolveTextFilters(query: ParsedQuery, pages: PageMetadata[]): Promise<Set<string>> {
+  const texts = [...query.phrases, ...query.excluded];
+  const languages = new Set<string | undefined>([undefined, ...pages.map(page => page.language)]);
+
+  const sequences = new Map<string, string[]>();
+  const sequenceOf = (text: string, language: string | undefined): string[] => {
+    const key = `${language ?? ''}\u0000${text}`;
+    let sequence = sequences.get(key);
+    if (!sequence) {
+      sequence = analyze(text, language);
+      sequences.set(key, sequence);
+    }
+    return sequence;
+  };
+
+  const terms = new Set<string>();
+  for (const text of texts) {
+    for (const language of languages) {
+      sequenceOf(text, language).forEach(term => terms.add(term));
+    }
+  }
+
+  const postings = new Map<string, Map<string, KeywordPosting>>();
+  if (terms.size > 0) {
+    for (const [term, termPostings] of (await vectorStore.lookupTerms([...terms])).postings) {
+      postings.set(term, new Map(termPostings.map(posting => [posting.pageId, posting])));
+    }
+  }
+
+  const pageIds = new Set<string>();
+  const toConfirm: string[] = [];
+  for (const page of pages) {
+    // Pages the index keeps for a phrase are always confirmed
+    let confirm = query.phrases.length > 0;
+
+    const hasPhrases = query.phrases.every(phrase => {
+      const sequence = sequenceOf(phrase, page.language);
+      return sequence.length === 0 || hasTermSequence(postings, page.id, sequence, PHRASE_FIELDS);
+    });
+    if (!hasPhrases) {
+      continue;
+    }
+
+    for (const term of query.excluded) {
+      const sequence = sequenceOf(term, page.language);
+      const urlSequence = sequenceOf(term, undefined);
+      if (
+        sequence.length === 0 ||
+        urlSequence.length === 0 ||
+        hasTermSequence(postings, page.id, sequence, PHRASE_FIELDS) ||
+        hasTermSequence(postings, page.id, urlSequence, ['url'])
+      ) {
+        confirm = true;
+      }
+    }
+
+    if (confirm) {
+      toConfirm.push(page.id);
+    } else {
+      pageIds.add(page.id);
+    }
+  }
+
+  for (const page of await vectorStore.getPagesWithoutEmbeddings(toConfirm)) {
+    if (matchesPageFilters(query, page)) {
+      pageIds.add(page.id);
+    }
+  }
+
+  loggers.hybridSearch.debug(`Text filters loaded content for ${toConfirm.length}/${pages.length} pages`);
+  return pageIds;
+}
+
+/**
+ * Visit date buckets relative to now (non-overlapping, newest first)
+ */
+function dateBuckets(now: number): Array<{ value: string; label: string; startTime?: number; endTime?: number }> {
+  const today = new Date(now);
+  today.setHours(0, 0, 0, 0);
+  const startOfToday = today.getTime();
+  const weekStart = startOfToday - 6 * DAY_MS;
+  const monthStart = startOfToday - 29 * DAY_MS;
+
+  return [
+    { value: 'today', label: 'Today', startTime: startOfToday },
+    { value: 'week', label: 'Past 7 days', startTime: weekStart, endTime: startOfToday },
+    { value: 'month', label: 'Past 30 days', startTime: monthStart, endTime: weekStart },
+    { value: 'older', label: 'Older', endTime: monthStart },
+  ];
+}
+
+/**
+ * Count ranked candidates per domain and visit date bucket
+ * A page counts in every date bucket it has a visit in (the results a chip would keep)
+ * @param pages Candidate pages
+ * @param visits Visit summaries of the candidates (pages without one use their latest visit)
+ * @param now Reference time for date buckets (default: Date.now())
+ */
+export function buildFacets(
+  pages: Array<Pick<PageMetadata, 'id' | 'url' | 'timestamp'>>,
+  visits: Map<string, VisitSummary>,
+  now: number = Date.now()
+): SearchFacets {
+  const domainCounts = new Map<string, number>();
+  for (const page of pages) {
+    const domain = extractDomain(page.url);
+    if (domain) {
+      domainCounts.set(domain, (domainCounts.get(domain) ?? 0) + 1);
+    }
+  }
+
+  const domains: FacetCount[] = [...domainCounts.entries()]
+    .sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0]))
+    .slice(0, FACET_CONFIG.MAX_DOMAINS)
+    .map(([domain, count]) => ({ value: domain, label: domain, count, filters: { domains: [domain] } }));
+
+  const dates: FacetCount[] = [];
+  for (const bucket of dateBuckets(now)) {
+    const count = pages.filter(page =>
+      visitTimesOf(page, visits.get(page.id)).some(time =>
+        (bucket.startTime === undefined || time >= bucket.startTime) &&
+        (bucket.endTime === undefined || time < bucket.endTime)
+      )
+    ).length;
+
+    if (count > 0) {
+      dates.push({
+        value: bucket.value,
+        label: bucket.label,
+        count,
+        filters: { startTime: bucket.startTime, endTime: bucket.endTime },
+      });
+    }
+  }
+
+  return { domains, dates };
+}
@@ -0,0 +1,106 @@
+/**
+ * Fuzzy Terms - typo-tolerant matching against the keyword vocabulary
+ *
+ * Query terms missing from the inverted index are expanded to indexed terms within
+ * a small edit distance (optimal string alignment: insert, delete, substitute and
+ * swap adjacent characters). "kubernets" matches "kubernetes", "useefect" matches
+ * "useeffect".
+ */
+
+import { FUZZY_CONFIG } from '../config/searchConfig';
+import { normalizeWord } from '../utils/analyzers';
+
+/**
+ * Vocabulary term close to a query term
+ */
+export interface FuzzyTerm {
+  term: string;
+  distance: number;
+}
+
+/**
+ * Edits allowed for a query term (0 for short terms)
+ */
+export function maxEditsFor(term: string): number {
+  if (term.length < FUZZY_CONFIG.MIN_TERM_LENGTH) {
+    return 0;
+  }
+  return term.length >= FUZZY_CONFIG.LONG_TERM_LENGTH ? 2 : 1;
+}
+
+/**
+ * Optimal string alignment distance, or Infinity once it exceeds maxDistance
+ */
+export function boundedEditDistance(a: string, b: string, maxDistance: number): number {
+  if (Math.abs(a.length - b.length) > maxDistance) {
+    return Infinity;
+  }
+
+  // Three rows: i-2, i-1 and i
+  let previousPrevious = new Array<number>(b.length + 1).fill(0);
+  let previous = Array.from({ length: b.length + 1 }, (_, j) => j);
+  let current = new Array<number>(b.length + 1).fill(0);
+
+  for (let i = 1; i <= a.length; i++) {
+    current[0] = i;
+    let rowMin = current[0];
+
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      let distance = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + cost);
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        distance = Math.min(distance, previousPrevious[j - 2] + 1);
+      }
+      current[j] = distance;
+      rowMin = Math.min(rowMin, distance);
+    }
+
+    if (rowMin > maxDistance) {
+      return Infinity;
+    }
+    [previousPrevious, previous, current] = [previous, current, previousPrevious];
+  }
+
+  return previous[b.length] <= maxDistance ? previous[b.length] : Infinity;
+}
+
+/**
+ * Closest vocabulary terms to a query term, nearest first
+ * @param vocabulary Indexed terms (see VectorStore.getKeywordVocabulary)
+ * @returns At most FUZZY_CONFIG.MAX_EXPANSIONS terms (none for short terms)
+ */
+export function findFuzzyTerms(term: string, vocabulary: readonly string[]): FuzzyTerm[] {
+  const maxEdits = maxEditsFor(term);
+  if (maxEdits === 0) {
+    return [];
+  }
+
+  const matches: FuzzyTerm[] = [];
+  for (const candidate of vocabulary) {
+    if (candidate === term) {
+      continue;
+    }
+    const distance = boundedEditDistance(term, candidate, maxEdits);
+    if (distance !== Infinity) {
+      matches.push({ term: candidate, distance });
+    }
+  }
+
+  return matches
+    .sort((a, b) => a.distance - b.distance || a.term.localeCompare(b.term))
+    .slice(0, FUZZY_CONFIG.MAX_EXPANSIONS);
+}
+
+/**
+ * Replace corrected words in a raw query, keeping operators (name:value) and
+ * exclusions (-term) untouched
+ * Words are compared the way analyzers normalize them (lowercase, diacritics folded)
+ * @param corrections Normalized word → replacement
+ */
+export function applyCorrections(query: string, corrections: ReadonlyMap<string, string>): string {
+  return query.replace(/\S+/g, token =>
+    /^-|^[a-z]+:/i.test(token)
+      ? token
+      : token.replace(/[\p{L}\p{N}]+/gu, word => corrections.get(normalizeWord(word)) ?? word)
+  );
+}
@@ -0,0 +1,153 @@
+/**
+ * Match Highlighting - character ranges of query matches in result passages
+ *
+ * Keyword ranges mark words the page's analyzer reduces to a query term. The
+ * semantic range marks the passage sentence closest to the query embedding.
+ * Display windows are cut by utils/textHighlight.
+ */
+
+import type { SearchResult, HighlightRange } from './types';
+import type { PageRecord } from '../storage/types';
+import { embeddingGemmaService } from '../embeddings/EmbeddingGemmaService';
+import { dotProduct } from './VectorSearch';
+import { analyzeQuery, getAnalyzer } from '../utils/analyzers';
+import { HIGHLIGHT_CONFIG } from '../config/searchConfig';
+import { loggers } from '../utils/logger';
+
+// Sentence: text up to terminal punctuation or a line break
+const SENTENCE_PATTERN = /[^.!?\n]*[.!?]+|[^.!?\n]+/g;
+
+/**
+ * Ranges of query term occurrences in text
+ * @param terms Index terms (see utils/analyzers)
+ * @param language Language of the text (selects its analyzer)
+ */
+export function findKeywordRanges(text: string, terms: ReadonlySet<string>, language?: string): HighlightRange[] {
+  const ranges: HighlightRange[] = [];
+  if (terms.size === 0) {
+    return ranges;
+  }
+
+  for (const token of getAnalyzer(language).analyze(text)) {
+    if (terms.has(token.term)) {
+      ranges.push({ start: token.start, end: token.end, kind: 'keyword' });
+    }
+  }
+  return ranges;
+}
+
+/**
+ * Sentence ranges in text, surrounding whitespace excluded
+ */
+export function sentenceRanges(text: string): Array<{ start: number; end: number }> {
+  const ranges: Array<{ start: number; end: number }> = [];
+
+  for (const match of text.matchAll(SENTENCE_PATTERN)) {
+    const leading = match[0].length - match[0].trimStart().length;
+    const trimmed = match[0].trim();
+    if (trimmed.length > 0) {
+      const start = match.index! + leading;
+      ranges.push({ start, end: start + trimmed.length });
+    }
+  }
+  return ranges;
+}
+
+/**
+ * Passage with the most query term occurrences (page content when there are no passages)
+ */
+function bestKeywordPassage(page: PageRecord, terms: ReadonlySet<string>): { id?: string; text: string } {
+  let best: { id?: string; text: string } = { text: page.content ?? '' };
+  let bestHits = -1;
+
+  for (const passage of page.passages ?? []) {
+    const hits = findKeywordRanges(passage.text, terms, page.language).length;
+    if (hits > bestHits) {
+      best = { id: passage.id, text: passage.text };
+      bestHits = hits;
+    }
+  }
+  return best;
+}
+
+/**
+ * Sentence of text closest to the query embedding
+ * A single-sentence passage is its own best sentence (no embedding needed)
+ */
+async function bestSemanticSentence(text: string, queryEmbedding: Float32Array): Promise<HighlightRange | undefined> {
+  const sentences = sentenceRanges(text);
+  if (sentences.length <= 1) {
+    return sentences[0] && { ...sentences[0], kind: 'semantic' };
+  }
+
+  try {
+    const dimensions = queryEmbedding.length as 128 | 256 | 512 | 768;
+    let best: { start: number; end: number } | undefined;
+    let bestSimilarity = -Infinity;
+
+    for (const sentence of sentences) {
+      const embedding = await embeddingGemmaService.generateEmbedding(
+        text.slice(sentence.start, sentence.end),
+        'document',
+        dimensions
+      );
+      const similarity = dotProduct(queryEmbedding, embedding);
+      if (similarity > bestSimilarity) {
+        bestSimilarity = similarity;
+        best = sentence;
+      }
+    }
+
+    return best && { ...best, kind: 'semantic' };
+  } catch (error) {
+    loggers.hybridSearch.warn('Failed to find best sentence:', error);
+    return undefined;
+  }
+}
+
+/**
+ * Attach the best passage and its match ranges to each result
+ * Semantic and hybrid results keep the passage semantic search picked; the best
+ * sentence is embedded for the top HIGHLIGHT_CONFIG.SEMANTIC_SENTENCE_RESULTS only
+ * @param queryText Free text of the query
+ * @param queryEmbedding Query embedding (omit for keyword-only searches)
+ */
+export async function attachHighlights(
+  results: SearchResult[],
+  queryText: string,
+  queryEmbedding?: Float32Array
+): Promise<SearchResult[]> {
+  const queryTerms = new Set(analyzeQuery(queryText).flatMap(term => term.variants));
+  const highlighted: SearchResult[] = [];
+
+  for (const [index, result] of results.entries()) {
+    // Matched terms include the indexed spellings of corrected typos
+    const terms = result.matchedTerms?.length ? new Set([...queryTerms, ...result.matchedTerms]) : queryTerms;
+    const passage = result.topPassageSnippet
+      ? { id: result.topPassageId, text: result.topPassageSnippet }
+      : bestKeywordPassage(result.page, terms);
+
+    if (!passage.text) {
+      highlighted.push(result);
+      continue;
+    }
+
+    const ranges = findKeywordRanges(passage.text, terms, result.page.language);
+    if (queryEmbedding && result.searchMode !== 'keyword' && index < HIGHLIGHT_CONFIG.SEMANTIC_SENTENCE_RESULTS) {
+      const sentence = await bestSemanticSentence(passage.text, queryEmbedding);
+      if (sentence) {
+        ranges.push(sentence);
+      }
+    }
+    ranges.sort((a, b) => a.start - b.start || b.end - a.end);
+
+    highlighted.push({
+      ...result,
+      topPassageId: passage.id,
+      topPassageSnippet: passage.text,
+      highlights: ranges,
+    });
+  }
+
+  return highlighted;
+}
@@ -0,0 +1,241 @@
+/**
+ * Query Parser - search operators
+ *
+ * Supported operators (combinable, case-insensitive names):
+ *   site:react.dev      page host is react.dev or a subdomain of it
+ *   before:2026-09-01   visited before that day (local time)
+ *   after:2026-09-01    visited after that day (local time)
+ *   intitle:hooks       title contains the word (intitle:"two words" for a phrase)
+ *   "exact phrase"      title or content contains the phrase
+ *   -term / -"phrase"   title, URL and content do not contain it
+ *
+ * Operators act as hard filters. Phrase words stay in the free text so they still
+ * rank; every other operator is removed. Unknown `name:value` tokens and operators
+ * with invalid values are kept as free text.
+ */
+
+/**
+ * Search query split into free text and filters
+ */
+export interface ParsedQuery {
+  /** Free text passed to embedding and keyword ranking */
+  text: string;
+
+  /** Allowed hosts (site:), any of them matches */
+  sites: string[];
+
+  /** Visit time bounds (ms since epoch): before is exclusive, after is inclusive */
+  before?: number;
+  after?: number;
+
+  /** Words or phrases the title must contain (intitle:) */
+  titleTerms: string[];
+
+  /** Phrases the title or content must contain */
+  phrases: string[];
+
+  /** Words or phrases the page must not contain */
+  excluded: string[];
+}
+
+/**
+ * Page fields the filters are evaluated against
+ */
+export interface FilterablePage {
+  url: string;
+  title: string;
+  content?: string;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// -?name:"value" | -?name:value | -?"phrase" | word
+const TOKEN_PATTERN = /(-?)([a-z]+):"([^"]*)"|(-?)([a-z]+):(\S+)|(-?)"([^"]*)"?|(\S+)/gi;
+
+/**
+ * Parse a YYYY-MM-DD date as local midnight
+ */
+function parseDay(value: string): number | undefined {
+  const match = /^(\d{4})-(\d{1,2})-(\d{1,2})$/.exec(value);
+  if (!match) {
+    return undefined;
+  }
+
+  const date = new Date(Number(match[1]), Number(match[2]) - 1, Number(match[3]));
+  return Number.isNaN(date.getTime()) ? undefined : date.getTime();
+}
+
+/**
+ * Normalize a site or domain to a bare lowercase host
+ */
+export function normalizeSite(value: string): string {
+  return value.toLowerCase().replace(/^[a-z]+:\/\//, '').replace(/^www\./, '').replace(/\/.*$/, '');
+}
+
+function normalizeText(text: string): string {
+  return text.toLowerCase().replace(/\s+/g, ' ');
+}
+
+/**
+ * Parse operators out of a search query
+ * @param query Raw query string
+ */
+export function parseQuery(query: string): ParsedQuery {
+  const parsed: ParsedQuery = { text: '', sites: [], titleTerms: [], phrases: [], excluded: [] };
+  const textParts: string[] = [];
+
+  for (const match of query.matchAll(TOKEN_PATTERN)) {
+    const [token, quotedNegation, quotedName, quotedValue, negation, name, value, phraseNegation, phrase, word] = match;
+
+    const operatorName = (quotedName ?? name)?.toLowerCase();
+    if (operatorName !== undefined) {
+      const operatorValue = (quotedValue ?? value).trim();
+      const negated = (quotedNegation ?? negation) === '-';
+      if (!negated && operatorValue && applyOperator(parsed, operatorName, operatorValue)) {
+        continue;
+      }
+      textParts.push(token);
+      continue;
+    }
+
+    if (phrase !== undefined) {
+      const text = phrase.trim();
+      if (!text) {
+        continue;
+      }
+      if (phraseNegation === '-') {
+        parsed.excluded.push(normalizeText(text));
+      } else {
+        parsed.phrases.push(normalizeText(text));
+        textParts.push(text);
+      }
+      continue;
+    }
+
+    if (word.length > 1 && word.startsWith('-')) {
+      parsed.excluded.push(normalizeText(word.slice(1)));
+    } else {
+      textParts.push(word);
+    }
+  }
+
+  parsed.text = textParts.join(' ').trim();
+  return parsed;
+}
+
+/**
+ * Apply a name:value operator
+ * @returns False for unknown operators and invalid values
+ */
+function applyOperator(parsed: ParsedQuery, name: string, value: string): boolean {
+  switch (name) {
+    case 'site': {
+      const site = normalizeSite(value);
+      if (!site) return false;
+      parsed.sites.push(site);
+      return true;
+    }
+    case 'before': {
+      const day = parseDay(value);
+      if (day === undefined) return false;
+      parsed.before = Math.min(parsed.before ?? Infinity, day);
+      return true;
+    }
+    case 'after': {
+      const day = parseDay(value);
+      if (day === undefined) return false;
+      parsed.after = Math.max(parsed.after ?? -Infinity, day + DAY_MS);
+      return true;
+    }
+    case 'intitle':
+      parsed.titleTerms.push(normalizeText(value));
+      return true;
+    default:
+      return false;
+  }
+}
+
+/**
+ * Whether the query has any filter operators
+ */
+export function hasQueryFilters(parsed: ParsedQuery): boolean {
+  return (
+    parsed.sites.length > 0 ||
+    parsed.before !== undefined ||
+    parsed.after !== undefined ||
+    parsed.titleTerms.length > 0 ||
+    parsed.phrases.length > 0 ||
+    parsed.excluded.length > 0
+  );
+}
+
+/**
+ * Whether filters need the page content (phrases and exclusions)
+ */
+export function needsContent(parsed: ParsedQuery): boolean {
+  return parsed.phrases.length > 0 || parsed.excluded.length > 0;
+}
+
+/**
+ * Whether any of the visit times falls inside the query's time bounds
+ * @param visitTimes Visit start times of a page (at least its latest visit)
+ */
+export function matchesTimeRange(parsed: ParsedQuery, visitTimes: number[]): boolean {
+  if (parsed.before === undefined && parsed.after === undefined) {
+    return true;
+  }
+
+  return visitTimes.some(time =>
+    (parsed.before === undefined || time < parsed.before) &&
+    (parsed.after === undefined || time >= parsed.after)
+  );
+}
+
+/**
+ * Whether a page passes the site, title, phrase and exclusion filters
+ * Time bounds are checked separately (see matchesTimeRange)
+ */
+export function matchesPageFilters(parsed: ParsedQuery, page: FilterablePage): boolean {
+  if (parsed.sites.length > 0 && !matchesSites(page.url, parsed.sites)) {
+    return false;
+  }
+
+  const title = normalizeText(page.title);
+  if (!parsed.titleTerms.every(term => containsWords(title, term))) {
+    return false;
+  }
+
+  if (!needsContent(parsed)) {
+    return true;
+  }
+
+  const body = `${title} ${normalizeText(page.content ?? '')}`;
+  if (!parsed.phrases.every(phrase => body.includes(phrase))) {
+    return false;
+  }
+
+  const searchable = `${body} ${page.url.toLowerCase()}`;
+  return !parsed.excluded.some(term => containsWords(searchable, term));
+}
+
+/**
+ * Whether a URL's host is one of the sites or a subdomain of one
+ * @param sites Normalized hosts (see normalizeSite)
+ */
+export function matchesSites(url: string, sites: string[]): boolean {
+  let host: string;
+  try {
+    host = new URL(url).hostname.toLowerCase().replace(/^www\./, '');
+  } catch {
+    return false;
+  }
+  return sites.some(site => host === site || host.endsWith(`.${site}`));
+}
+
+/**
+ * Whether normalized text contains a word or phrase on word boundaries
+ */
+function containsWords(text: string, words: string): boolean {
+  const escaped = words.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+  return new RegExp(`(^|[^\\p{L}\\p{N}])${escaped}($|[^\\p{L}\\p{N}])`, 'u').test(text);
+}
@@ -0,0 +1,215 @@
+/**
+ * Ranking priors and click feedback
+ *
+ * Recency and visit frequency join the first-stage order the way a reranker does,
+ * by rank: first-stage contributions are scaled by (1 - recencyWeight - frequencyWeight)
+ * and each prior adds weight / (K + rank) under sourceScores.recency/.frequency.
+ * Pages not visited within recencyDecayDays, or visited only once, share the rank
+ * after the last page that was.
+ *
+ * Click feedback re-ranks logged impressions (see SearchImpression) under other
+ * weights and scores them by the mean reciprocal rank of the opened results.
+ * fitRankingWeights grid-searches the weights within FEEDBACK_CONFIG bounds.
+ */
+
+import type { SearchResult, RankingWeights } from './types';
+import type { RankingFeatures, SearchImpression } from '../storage/types';
+import { DEFAULT_RANKING_CONFIG, FEEDBACK_CONFIG, RRF_CONFIG } from '../config/searchConfig';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Result of fitting ranking weights to click feedback
+ */
+export interface RankingFit {
+  /** Best weights found (the current ones when nothing beats them) */
+  weights: RankingWeights;
+
+  /** Mean reciprocal rank of clicked results under the current and the best weights */
+  before: number;
+  after: number;
+
+  /** Impressions with at least one click that were scored */
+  clickedImpressions: number;
+}
+
+/**
+ * 1-based ranks by descending value; ties share the best rank and ineligible
+ * values share the rank after the last eligible one
+ */
+function competitionRanks(values: number[], eligible: (index: number) => boolean): number[] {
+  const order = values
+    .map((_, index) => index)
+    .filter(eligible)
+    .sort((a, b) => values[b] - values[a]);
+
+  const ranks: number[] = values.map(() => order.length + 1);
+  order.forEach((index, position) => {
+    const previous = order[position - 1];
+    ranks[index] = previous !== undefined && values[previous] === values[index] ? ranks[previous] : position + 1;
+  });
+  return ranks;
+}
+
+/**
+ * Fused score of a result under given weights (see module comment)
+ * Hybrid results are re-fused from their semantic and keyword ranks with alpha
+ */
+export function scoreRankingFeatures(
+  features: RankingFeatures,
+  weights: RankingWeights,
+  hybrid: boolean,
+  k: number = RRF_CONFIG.K
+): number {
+  const firstStage = hybrid
+    ? (features.semanticRank ? weights.alpha / (k + features.semanticRank) : 0) +
+      (features.keywordRank ? (1 - weights.alpha) / (k + features.keywordRank) : 0)
+    : 1 / (k + features.rank);
+
+  return (
+    (1 - weights.recencyWeight - weights.frequencyWeight) * firstStage +
+    weights.recencyWeight / (k + features.recencyRank) +
+    weights.frequencyWeight / (k + features.frequencyRank)
+  );
+}
+
+/**
+ * Attach ranking features to first-stage candidates and fuse in recency and frequency
+ *
+ * @param candidates First-stage candidates in ranked order
+ * @param weights Prior weights (both 0 only attaches features)
+ * @param now Reference time for recency (default: Date.now())
+ * @returns Candidates re-sorted by the fused score
+ */
+export function applyRankingPriors(
+  candidates: SearchResult[],
+  weights: Pick<RankingWeights, 'recencyWeight' | 'frequencyWeight'>,
+  now: number = Date.now(),
+  k: number = RRF_CONFIG.K
+): SearchResult[] {
+  const lastVisits = candidates.map(({ page }) => Math.max(page.timestamp, page.lastAccessed ?? 0));
+  const visitCounts = candidates.map(({ page }) => page.visitCount ?? 1);
+  const recencyCutoff = now - DEFAULT_RANKING_CONFIG.recencyDecayDays * DAY_MS;
+  const recencyRanks = competitionRanks(lastVisits, index => lastVisits[index] >= recencyCutoff);
+  const frequencyRanks = competitionRanks(visitCounts, index => visitCounts[index] > 1);
+
+  const withFeatures = candidates.map((result, index) => ({
+    ...result,
+    rankingFeatures: {
+      semanticRank: result.sourceRanks?.semantic,
+      keywordRank: result.sourceRanks?.keyword,
+      rank: index + 1,
+      recencyRank: recencyRanks[index],
+      frequencyRank: frequencyRanks[index],
+    },
+  }));
+
+  const { recencyWeight, frequencyWeight } = weights;
+  if (recencyWeight <= 0 && frequencyWeight <= 0) {
+    return withFeatures;
+  }
+
+  const fused = withFeatures.map((result, index) => {
+    const features = result.rankingFeatures;
+    const firstStage = result.sourceScores ?? {
+      [result.searchMode ?? 'retrieval']: result.fusionScore ?? 1 / (k + index + 1),
+    };
+
+    const sourceScores: Record<string, number> = {};
+    for (const [source, score] of Object.entries(firstStage)) {
+      sourceScores[source] = score * (1 - recencyWeight - frequencyWeight);
+    }
+    if (recencyWeight > 0) {
+      sourceScores.recency = recencyWeight / (k + features.recencyRank);
+    }
+    if (frequencyWeight > 0) {
+      sourceScores.frequency = frequencyWeight / (k + features.frequencyRank);
+    }
+
+    const fusionScore = Object.values(sourceScores).reduce((sum, score) => sum + score, 0);
+    return { ...result, fusionScore, sourceScores };
+  });
+
+  // Stable sort: ties keep their first-stage order
+  return fused.sort((a, b) => b.fusionScore - a.fusionScore);
+}
+
+/**
+ * Mean reciprocal rank of the clicked results of one impression under given weights
+ */
+function impressionReciprocalRank(impression: SearchImpression, weights: RankingWeights): number {
+  const hybrid = impression.mode === 'hybrid';
+  const order = impression.results
+    .map(({ pageId, features }) => ({ pageId, score: scoreRankingFeatures(features, weights, hybrid) }))
+    .sort((a, b) => b.score - a.score)
+    .map(({ pageId }) => pageId);
+
+  const clicked = impression.clickedPageIds.filter(pageId => order.includes(pageId));
+  return clicked.reduce((sum, pageId) => sum + 1 / (order.indexOf(pageId) + 1), 0) / clicked.length;
+}
+
+/**
+ * Mean reciprocal rank of clicked results over impressions that have clicks
+ * @returns 0 when no impression has a click on a shown result
+ */
+export function evaluateRankingWeights(impressions: SearchImpression[], weights: RankingWeights): number {
+  const clicked = impressions.filter(impression =>
+    impression.clickedPageIds.some(pageId => impression.results.some(result => result.pageId === pageId))
+  );
+  if (clicked.length === 0) {
+    return 0;
+  }
+  return clicked.reduce((sum, impression) => sum + impressionReciprocalRank(impression, weights), 0) / clicked.length;
+}
+
+/**
+ * Grid values within a range and at most maxStep away from a current value
+ */
+function gridValues(current: number, range: readonly [number, number]): number[] {
+  const low = Math.max(range[0], current - FEEDBACK_CONFIG.MAX_STEP);
+  const high = Math.min(range[1], current + FEEDBACK_CONFIG.MAX_STEP);
+  const values = new Set<number>([Math.min(Math.max(current, range[0]), range[1])]);
+  for (let value = Math.ceil(low / FEEDBACK_CONFIG.GRID_STEP) * FEEDBACK_CONFIG.GRID_STEP; value <= high + 1e-9; value += FEEDBACK_CONFIG.GRID_STEP) {
+    values.add(Math.round(value * 1000) / 1000);
+  }
+  return [...values];
+}
+
+/**
+ * Fit ranking weights to click feedback
+ * Searches the grid around the current weights (bounded by FEEDBACK_CONFIG) for the
+ * highest click MRR; ties go to the weights closest to the current ones
+ *
+ * @param impressions Logged impressions (those without clicks are ignored)
+ * @param current Weights in use
+ */
+export function fitRankingWeights(impressions: SearchImpression[], current: RankingWeights): RankingFit {
+  const clicked = impressions.filter(impression =>
+    impression.clickedPageIds.some(pageId => impression.results.some(result => result.pageId === pageId))
+  );
+  const before = evaluateRankingWeights(clicked, current);
+  let best = { weights: current, score: before, distance: 0 };
+
+  // Alpha only changes the order of hybrid impressions
+  const hasHybrid = clicked.some(impression => impression.mode === 'hybrid');
+  const alphas = hasHybrid ? gridValues(current.alpha, FEEDBACK_CONFIG.ALPHA_RANGE) : [current.alpha];
+
+  for (const alpha of alphas) {
+    for (const recencyWeight of gridValues(current.recencyWeight, FEEDBACK_CONFIG.RECENCY_RANGE)) {
+      for (const frequencyWeight of gridValues(current.frequencyWeight, FEEDBACK_CONFIG.FREQUENCY_RANGE)) {
+        const weights = { alpha, recencyWeight, frequencyWeight };
+        const score = evaluateRankingWeights(clicked, weights);
+        const distance =
+          Math.abs(alpha - current.alpha) +
+          Math.abs(recencyWeight - current.recencyWeight) +
+          Math.abs(frequencyWeight - current.frequencyWeight);
+
+        if (score > best.score + 1e-9 || (Math.abs(score - best.score) <= 1e-9 && distance < best.distance)) {
+          best = { weights, score, distance };
+        }
+      }
+    }
+  }
+
+  return { weights: best.weights, before, after: best.score, clickedImpressions: clicked.length };
+}
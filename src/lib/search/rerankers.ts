@@ -0,0 +1,150 @@
+/**
+ * Rerankers - second-stage relevance models for the top search candidates
+ *
+ * Built in:
+ * - lexical: query term coverage and proximity within the best passage
+ * - prompt: on-device Prompt API (Gemini Nano) rates each candidate's relevance
+ *
+ * HybridSearch fuses the reranker's order into the first-stage order with RRF
+ * (see RERANK_CONFIG); other rerankers can be added with registerReranker.
+ */
+
+import type { Reranker } from './types';
+import type { PageRecord } from '../storage/types';
+import { analyzeQuery, getAnalyzer, type QueryTerm } from '../utils/analyzers';
+import { offscreenManager } from '../../background/OffscreenManager';
+import { RERANK_CONFIG } from '../config/searchConfig';
+
+const rerankers = new Map<string, Reranker>();
+
+/**
+ * Register (or replace) a reranker under its name
+ */
+export function registerReranker(reranker: Reranker): void {
+  rerankers.set(reranker.name, reranker);
+}
+
+/**
+ * Reranker registered under a name, if any
+ */
+export function getReranker(name: string): Reranker | undefined {
+  return rerankers.get(name);
+}
+
+/**
+ * Coverage and proximity of query words in one text (0-1)
+ * Coverage is the share of query words present; proximity is the number of
+ * distinct words over the shortest token window containing them all
+ */
+function lexicalTextScore(text: string, queryTerms: QueryTerm[], language: string | undefined): number {
+  // Query word index per index term
+  const wordOf = new Map<string, number>();
+  queryTerms.forEach(({ variants }, index) => variants.forEach(variant => wordOf.set(variant, index)));
+
+  const positions: Array<{ token: number; word: number }> = [];
+  getAnalyzer(language).analyze(text).forEach(({ term }, token) => {
+    const word = wordOf.get(term);
+    if (word !== undefined) {
+      positions.push({ token, word });
+    }
+  });
+
+  const distinct = new Set(positions.map(position => position.word)).size;
+  if (distinct === 0) {
+    return 0;
+  }
+
+  // Shortest window covering every matched word (two pointers over the positions)
+  let window = Infinity;
+  const counts = new Map<number, number>();
+  let covered = 0;
+  let left = 0;
+  for (const position of positions) {
+    counts.set(position.word, (counts.get(position.word) ?? 0) + 1);
+    if (counts.get(position.word) === 1) {
+      covered++;
+    }
+    while (covered === distinct) {
+      window = Math.min(window, position.token - positions[left].token + 1);
+      const leftWord = positions[left].word;
+      counts.set(leftWord, counts.get(leftWord)! - 1);
+      if (counts.get(leftWord) === 0) {
+        covered--;
+      }
+      left++;
+    }
+  }
+
+  const coverage = distinct / queryTerms.length;
+  const proximity = distinct / window;
+  return coverage * (1 - RERANK_CONFIG.PROXIMITY_WEIGHT + RERANK_CONFIG.PROXIMITY_WEIGHT * proximity);
+}
+
+/**
+ * Texts a page is judged on: title, then passages (content when there are none)
+ */
+function pageTexts(page: PageRecord): string[] {
+  const passages = page.passages?.map(passage => passage.text) ?? [];
+  return [page.title, ...(passages.length > 0 ? passages : [page.content ?? ''])];
+}
+
+/**
+ * Lexical reranker: best passage by query word coverage and proximity
+ */
+export const lexicalReranker: Reranker = {
+  name: 'lexical',
+  async score(query, results) {
+    const queryTerms = analyzeQuery(query);
+    if (queryTerms.length === 0) {
+      return results.map(() => 0);
+    }
+
+    return results.map(({ page }) =>
+      Math.max(...pageTexts(page).map(text => lexicalTextScore(text, queryTerms, page.language)))
+    );
+  },
+};
+
+/**
+ * Prompt API reranker: the language model rates each candidate from 0 to 10
+ * Candidates the model does not rate score 0; a reply with no ratings is an error
+ */
+export const promptReranker: Reranker = {
+  name: 'prompt',
+  maxResults: RERANK_CONFIG.PROMPT_TOP_N,
+  async score(query, results, signal) {
+    const candidates = results.map((result, index) => {
+      const text = (result.topPassageSnippet ?? result.page.content ?? '').slice(0, RERANK_CONFIG.PROMPT_SNIPPET_LENGTH);
+      return `[${index + 1}] ${result.page.title}\n${text}`;
+    });
+
+    const prompt = [
+      'Rate how relevant each search result is to the query, from 0 (unrelated) to 10 (exactly what was asked for).',
+      'Reply with one line per result in the form "<result number>: <rating>" and nothing else.',
+      '',
+      `Query: ${query}`,
+      '',
+      ...candidates,
+    ].join('\n');
+
+    const reply = await offscreenManager.prompt(prompt, undefined, signal);
+
+    const scores = results.map(() => 0);
+    let rated = 0;
+    for (const match of reply.matchAll(/^\s*\[?(\d+)\]?\s*[:.-]\s*(\d+(?:\.\d+)?)/gm)) {
+      const index = Number(match[1]) - 1;
+      if (index >= 0 && index < results.length) {
+        scores[index] = Number(match[2]);
+        rated++;
+      }
+    }
+
+    if (rated === 0) {
+      throw new Error('Reranker reply contained no ratings');
+    }
+    return scores;
+  },
+};
+
+registerReranker(lexicalReranker);
+registerReranker(promptReranker);
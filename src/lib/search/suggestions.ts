@@ -0,0 +1,128 @@
+/**
+ * Query Suggestions - autocomplete from the search log and indexed page titles
+ *
+ * Both sources are prefix lookups over sorted keys: the search log is keyed by
+ * normalized query in IndexedDB, titles by word in VectorStore's cached title-word
+ * list. Each lookup reads at most SUGGESTION_CONFIG.PREFIX_SCAN_LIMIT entries, so
+ * suggestions stay fast however large the history grows.
+ */
+
+import type { QuerySuggestion } from './types';
+import type { SearchLogEntry, TitleWord } from '../storage/types';
+import { vectorStore, searchLogKey } from '../storage/VectorStore';
+import { normalizeWord } from '../utils/analyzers';
+import { SUGGESTION_CONFIG } from '../config/searchConfig';
+
+/**
+ * Suggestion for a logged query
+ */
+function toLogSuggestion(entry: SearchLogEntry): QuerySuggestion {
+  return { text: entry.query, source: entry.pinnedAt > 0 ? 'saved' : 'history' };
+}
+
+/**
+ * Rank logged queries: saved first, then by searches plus clicks (clicked
+ * queries found what was wanted), then most recent
+ */
+function compareLogEntries(a: SearchLogEntry, b: SearchLogEntry): number {
+  return (
+    Number(b.pinnedAt > 0) - Number(a.pinnedAt > 0) ||
+    b.searchCount + 2 * b.clickCount - (a.searchCount + 2 * a.clickCount) ||
+    b.lastSearched - a.lastSearched
+  );
+}
+
+/**
+ * Index of the first title word not sorting before the prefix (binary search)
+ */
+function lowerBound(words: TitleWord[], prefix: string): number {
+  let low = 0;
+  let high = words.length;
+  while (low < high) {
+    const middle = (low + high) >>> 1;
+    if (words[middle].word < prefix) {
+      low = middle + 1;
+    } else {
+      high = middle;
+    }
+  }
+  return low;
+}
+
+/**
+ * Words of a title or query, normalized like title words
+ */
+function titleWords(text: string): string[] {
+  return [...text.matchAll(/[\p{L}\p{N}]+/gu)].map(match => normalizeWord(match[0]));
+}
+
+/**
+ * Titles of pages containing every complete query word and a word starting with the last one
+ * Ranked by visit count, then most recent visit
+ */
+async function titleSuggestions(prefix: string, limit: number): Promise<QuerySuggestion[]> {
+  const words = titleWords(prefix);
+  const partial = words.pop();
+  if (!partial || limit <= 0) {
+    return [];
+  }
+
+  const titleWordList = await vectorStore.getTitleWords();
+  const pageIds = new Set<string>();
+  for (
+    let i = lowerBound(titleWordList, partial);
+    i < titleWordList.length && titleWordList[i].word.startsWith(partial) && pageIds.size < SUGGESTION_CONFIG.PREFIX_SCAN_LIMIT;
+    i++
+  ) {
+    pageIds.add(titleWordList[i].pageId);
+  }
+
+  const metadata = await vectorStore.getPageMetadataByIds([...pageIds]);
+  return [...metadata.values()]
+    .filter(page => {
+      const pageWords = new Set(titleWords(page.title));
+      return words.every(word => pageWords.has(word));
+    })
+    .sort((a, b) => b.visitCount - a.visitCount || b.timestamp - a.timestamp)
+    .slice(0, limit)
+    .map(page => ({ text: page.title, source: 'title' as const, pageId: page.id }));
+}
+
+/**
+ * Suggestions for a partly typed query
+ * An empty prefix returns saved searches, then recent ones
+ *
+ * @param prefix Text typed so far
+ * @returns At most SUGGESTION_CONFIG.MAX_SUGGESTIONS suggestions, without duplicates
+ */
+export async function suggestQueries(prefix: string): Promise<QuerySuggestion[]> {
+  const key = searchLogKey(prefix);
+  let suggestions: QuerySuggestion[];
+
+  if (!key) {
+    const [saved, recent] = await Promise.all([
+      vectorStore.getSavedSearches(),
+      vectorStore.getRecentSearches(SUGGESTION_CONFIG.RECENT_SEARCHES),
+    ]);
+    suggestions = [...saved, ...recent].map(toLogSuggestion);
+  } else {
+    const logged = (await vectorStore.findSearchesByPrefix(key, SUGGESTION_CONFIG.PREFIX_SCAN_LIMIT))
+      .sort(compareLogEntries)
+      .slice(0, SUGGESTION_CONFIG.MAX_HISTORY_SUGGESTIONS)
+      .map(toLogSuggestion);
+    const titles = await titleSuggestions(prefix, SUGGESTION_CONFIG.MAX_SUGGESTIONS - logged.length);
+    suggestions = [...logged, ...titles];
+  }
+
+  const seen = new Set<string>();
+  return suggestions
+    .filter(suggestion => {
+      const suggestionKey = searchLogKey(suggestion.text);
+      if (!suggestionKey || seen.has(suggestionKey)) {
+        return false;
+      }
+      seen.add(suggestionKey);
+      return true;
+    })
+    .slice(0, SUGGESTION_CONFIG.MAX_SUGGESTIONS);
+}
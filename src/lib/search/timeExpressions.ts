@@ -0,0 +1,345 @@
+/**
+ * Time Expressions - natural-language time phrases in queries
+ *
+ * Recognized phrases (case-insensitive):
+ *   today, tonight, this morning, yesterday, the day before yesterday
+ *   this/last week|month|year       calendar periods ("last week" is the previous week)
+ *   past week|month|year            rolling periods ending today
+ *   last/past 3 days, a few weeks ago, a couple of months ago
+ *   this/last weekend, over the weekend
+ *   last monday, on tuesday         most recent such day
+ *   in march, march 2024, march 5th, 5 march 2024
+ *   in 2024, on 2024-03-05
+ *   recently, lately
+ *
+ * A leading preposition (from, in, on, during, ...) is part of the phrase and is
+ * removed with it; bare weekdays, months, years and dates need one ("on monday",
+ * "in may"). "since <phrase>" keeps the start and leaves the end open. Only the
+ * first phrase in the query is read. Times are local; weeks start on
+ * TIME_EXPRESSION_CONFIG.WEEK_START.
+ */
+
+import type { TimeRange } from './types';
+import { TIME_EXPRESSION_CONFIG } from '../config/searchConfig';
+
+/**
+ * Query with its time phrase removed
+ */
+export interface TimeInterpretation {
+  /** Query text without the phrase */
+  text: string;
+
+  range: TimeRange;
+}
+
+type Unit = 'day' | 'week' | 'month' | 'year';
+
+/**
+ * Time range of a matched phrase (ms since epoch, end exclusive)
+ */
+interface Span {
+  start: number;
+  end: number;
+}
+
+/**
+ * One phrase pattern
+ * resolve gets the pattern's capture groups and returns undefined to reject the match
+ */
+interface TimeRule {
+  pattern: string;
+  resolve(groups: string[], now: Date, hasPreposition: boolean): Span | undefined;
+}
+
+const PREPOSITIONS = 'from|in|during|on|at|around|over|within|since';
+
+const MONTHS = [
+  'january', 'february', 'march', 'april', 'may', 'june',
+  'july', 'august', 'september', 'october', 'november', 'december',
+];
+const MONTH_ABBREVIATIONS: Record<string, number> = {
+  jan: 0, feb: 1, mar: 2, apr: 3, jun: 5, jul: 6, aug: 7, sep: 8, sept: 8, oct: 9, nov: 10, dec: 11,
+};
+const MONTH_PATTERN = `${MONTHS.join('|')}|${Object.keys(MONTH_ABBREVIATIONS).join('|')}`;
+
+const WEEKDAYS = ['sunday', 'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday'];
+const WEEKDAY_PATTERN = WEEKDAYS.join('|');
+
+const NUMBER_WORDS: Record<string, number> = {
+  a: 1, an: 1, one: 1, two: 2, three: 3, four: 4, five: 5, six: 6,
+  seven: 7, eight: 8, nine: 9, ten: 10, eleven: 11, twelve: 12,
+};
+const COUNT_PATTERN = `\\d{1,3}|a\\s+couple(?:\\s+of)?|couple(?:\\s+of)?|a\\s+few|few|several|${Object.keys(NUMBER_WORDS).join('|')}`;
+const UNIT_PATTERN = '(day|week|month|year)s?';
+
+/**
+ * Smallest and largest count a count phrase stands for
+ */
+function parseCount(value: string): [number, number] {
+  const count = value.toLowerCase().replace(/\s+/g, ' ');
+  if (/^\d+$/.test(count)) {
+    return [Number(count), Number(count)];
+  }
+  if (count.includes('couple')) {
+    return [2, 3];
+  }
+  if (count.includes('few') || count === 'several') {
+    return [TIME_EXPRESSION_CONFIG.FEW_MIN, TIME_EXPRESSION_CONFIG.FEW_MAX];
+  }
+  const number = NUMBER_WORDS[count] ?? 1;
+  return [number, number];
+}
+
+function monthIndex(value: string): number {
+  const month = value.toLowerCase();
+  return MONTH_ABBREVIATIONS[month] ?? MONTHS.indexOf(month);
+}
+
+/**
+ * Local midnight `offset` days from now
+ */
+function dayStart(now: Date, offset: number): number {
+  return new Date(now.getFullYear(), now.getMonth(), now.getDate() + offset).getTime();
+}
+
+/**
+ * Start of the calendar period `offset` periods from the current one
+ */
+function periodStart(now: Date, unit: Unit, offset: number): number {
+  switch (unit) {
+    case 'day':
+      return dayStart(now, offset);
+    case 'week': {
+      const sinceWeekStart = (now.getDay() - TIME_EXPRESSION_CONFIG.WEEK_START + 7) % 7;
+      return dayStart(now, 7 * offset - sinceWeekStart);
+    }
+    case 'month':
+      return new Date(now.getFullYear(), now.getMonth() + offset, 1).getTime();
+    case 'year':
+      return new Date(now.getFullYear() + offset, 0, 1).getTime();
+  }
+}
+
+/**
+ * Calendar periods from `from` to `to` periods back (inclusive)
+ */
+function periodsAgo(now: Date, unit: Unit, from: number, to: number): Span {
+  return { start: periodStart(now, unit, -to), end: periodStart(now, unit, -from + 1) };
+}
+
+/**
+ * From local midnight `count` units ago through the end of today
+ */
+function rollingSpan(now: Date, unit: Unit, count: number): Span {
+  const start = new Date(now.getFullYear(), now.getMonth(), now.getDate());
+  switch (unit) {
+    case 'day':
+      start.setDate(start.getDate() - count);
+      break;
+    case 'week':
+      start.setDate(start.getDate() - 7 * count);
+      break;
+    case 'month':
+      start.setMonth(start.getMonth() - count);
+      break;
+    case 'year':
+      start.setFullYear(start.getFullYear() - count);
+      break;
+  }
+  return { start: start.getTime(), end: dayStart(now, 1) };
+}
+
+/**
+ * A month of the given year, or of the latest year it is not in the future
+ * @param before Skip the current month (latest strictly earlier occurrence)
+ */
+function monthSpan(now: Date, month: number, year: number | undefined, before: boolean = false): Span {
+  const resolvedYear =
+    year ?? (month < now.getMonth() || (month === now.getMonth() && !before) ? now.getFullYear() : now.getFullYear() - 1);
+  return {
+    start: new Date(resolvedYear, month, 1).getTime(),
+    end: new Date(resolvedYear, month + 1, 1).getTime(),
+  };
+}
+
+/**
+ * One calendar day; undefined for dates that do not exist (February 30)
+ * Without a year, the latest occurrence that is not in the future
+ */
+function daySpan(now: Date, month: number, day: number, year: number | undefined): Span | undefined {
+  let resolvedYear = year ?? now.getFullYear();
+  if (year === undefined && new Date(resolvedYear, month, day).getTime() > now.getTime()) {
+    resolvedYear--;
+  }
+
+  const date = new Date(resolvedYear, month, day);
+  if (date.getMonth() !== month || date.getDate() !== day) {
+    return undefined;
+  }
+  return { start: date.getTime(), end: new Date(resolvedYear, month, day + 1).getTime() };
+}
+
+const RULES: TimeRule[] = [
+  {
+    pattern: 'today|tonight|earlier\\s+today|this\\s+(?:morning|afternoon|evening)',
+    resolve: (_, now) => ({ start: dayStart(now, 0), end: dayStart(now, 1) }),
+  },
+  {
+    pattern: 'yesterday(?:\\s+(?:morning|afternoon|evening|night))?|last\\s+night',
+    resolve: (_, now) => ({ start: dayStart(now, -1), end: dayStart(now, 0) }),
+  },
+  {
+    pattern: 'day\\s+before\\s+yesterday',
+    resolve: (_, now) => ({ start: dayStart(now, -2), end: dayStart(now, -1) }),
+  },
+  {
+    pattern: '(this|current|last|previous|past)\\s+(week|month|year)',
+    resolve: ([modifier, unit], now) => {
+      switch (modifier.toLowerCase()) {
+        case 'past':
+          return rollingSpan(now, unit.toLowerCase() as Unit, 1);
+        case 'last':
+        case 'previous':
+          return periodsAgo(now, unit.toLowerCase() as Unit, 1, 1);
+        default:
+          return periodsAgo(now, unit.toLowerCase() as Unit, 0, 0);
+      }
+    },
+  },
+  {
+    pattern: `(?:last|past|previous)\\s+(${COUNT_PATTERN})\\s+${UNIT_PATTERN}`,
+    resolve: ([count, unit], now) => rollingSpan(now, unit.toLowerCase() as Unit, parseCount(count)[1]),
+  },
+  {
+    pattern: `(${COUNT_PATTERN})\\s+${UNIT_PATTERN}\\s+ago`,
+    resolve: ([count, unit], now) => {
+      const [min, max] = parseCount(count);
+      return periodsAgo(now, unit.toLowerCase() as Unit, min, max);
+    },
+  },
+  {
+    pattern: '(?:(this|last|past)\\s+)?weekend',
+    resolve: ([modifier], now, hasPreposition) => {
+      if (!modifier && !hasPreposition) {
+        return undefined;
+      }
+      // Most recent Saturday (today on a Saturday); "last weekend" skips an ongoing one
+      let sinceSaturday = (now.getDay() + 1) % 7;
+      if (modifier?.toLowerCase() === 'last' && sinceSaturday <= 1) {
+        sinceSaturday += 7;
+      }
+      return { start: dayStart(now, -sinceSaturday), end: dayStart(now, 2 - sinceSaturday) };
+    },
+  },
+  {
+    pattern: `(?:(this|last|past)\\s+)?(${WEEKDAY_PATTERN})`,
+    resolve: ([modifier, weekday], now, hasPreposition) => {
+      if (!modifier && !hasPreposition) {
+        return undefined;
+      }
+      // Most recent such day (today counts unless "last")
+      let back = (now.getDay() - WEEKDAYS.indexOf(weekday.toLowerCase()) + 7) % 7;
+      if (back === 0 && modifier?.toLowerCase() === 'last') {
+        back = 7;
+      }
+      return { start: dayStart(now, -back), end: dayStart(now, 1 - back) };
+    },
+  },
+  {
+    pattern: `(?:(this|last)\\s+)?(${MONTH_PATTERN})(?:,?\\s+(\\d{4}))?`,
+    resolve: ([modifier, month, year], now, hasPreposition) => {
+      if (!modifier && !year && !hasPreposition) {
+        return undefined;
+      }
+      const explicitYear = year ? Number(year) : modifier?.toLowerCase() === 'this' ? now.getFullYear() : undefined;
+      return monthSpan(now, monthIndex(month), explicitYear, modifier?.toLowerCase() === 'last');
+    },
+  },
+  {
+    pattern: `(${MONTH_PATTERN})\\s+(\\d{1,2})(?:st|nd|rd|th)?(?:,?\\s+(\\d{4}))?`,
+    resolve: ([month, day, year], now) => daySpan(now, monthIndex(month), Number(day), year ? Number(year) : undefined),
+  },
+  {
+    pattern: `(\\d{1,2})(?:st|nd|rd|th)?\\s+(?:of\\s+)?(${MONTH_PATTERN})(?:,?\\s+(\\d{4}))?`,
+    resolve: ([day, month, year], now) => daySpan(now, monthIndex(month), Number(day), year ? Number(year) : undefined),
+  },
+  {
+    pattern: '((?:19|20)\\d{2})(?!-\\d)',
+    resolve: ([year], _, hasPreposition) =>
+      hasPreposition
+        ? { start: new Date(Number(year), 0, 1).getTime(), end: new Date(Number(year) + 1, 0, 1).getTime() }
+        : undefined,
+  },
+  {
+    pattern: '(\\d{4})-(\\d{1,2})-(\\d{1,2})',
+    resolve: ([year, month, day], now, hasPreposition) =>
+      hasPreposition ? daySpan(now, Number(month) - 1, Number(day), Number(year)) : undefined,
+  },
+  {
+    pattern: 'recently|lately',
+    resolve: (_, now) => rollingSpan(now, 'day', TIME_EXPRESSION_CONFIG.RECENT_DAYS - 1),
+  },
+];
+
+// Groups: 1 = preposition, 2 = phrase, 3+ = rule groups
+const RULE_PATTERNS = RULES.map(rule => ({
+  rule,
+  regex: new RegExp(`(?<![\\p{L}\\p{N}])(?:(${PREPOSITIONS})\\s+)?(?:the\\s+)?(${rule.pattern})(?![\\p{L}\\p{N}])`, 'giu'),
+}));
+
+// Month and weekday names, capitalized in labels
+const PROPER_NAMES = new RegExp(`\\b(?:${MONTH_PATTERN}|${WEEKDAY_PATTERN})\\b`, 'g');
+
+function capitalize(text: string): string {
+  return `${text.charAt(0).toUpperCase()}${text.slice(1)}`;
+}
+
+/**
+ * Read the first time phrase out of a query
+ * The earliest match wins; of matches starting at the same position, the longest
+ *
+ * @param query Query text (operators already removed)
+ * @param now Reference time (default: Date.now())
+ * @returns Remaining text and the range, or undefined without a time phrase
+ */
+export function parseTimeExpression(query: string, now: number = Date.now()): TimeInterpretation | undefined {
+  const reference = new Date(now);
+  let best: { index: number; length: number; preposition?: string; phrase: string; span: Span } | undefined;
+
+  for (const { rule, regex } of RULE_PATTERNS) {
+    for (const match of query.matchAll(regex)) {
+      const index = match.index ?? 0;
+      const [token, preposition, phrase, ...groups] = match;
+      if (best && (index > best.index || (index === best.index && token.length <= best.length))) {
+        continue;
+      }
+
+      const span = rule.resolve(groups, reference, preposition !== undefined);
+      if (span) {
+        best = { index, length: token.length, preposition, phrase, span };
+      }
+    }
+  }
+
+  if (!best) {
+    return undefined;
+  }
+
+  const since = best.preposition?.toLowerCase() === 'since';
+  const phrase = best.phrase.replace(/\s+/g, ' ').toLowerCase().replace(PROPER_NAMES, capitalize);
+  const text = `${query.slice(0, best.index)} ${query.slice(best.index + best.length)}`
+    .replace(/\s+/g, ' ')
+    .replace(/\s+([,.;:?!])/g, '$1')
+    .replace(/[,;:]+(?=[.?!])/g, '')
+    .replace(/^[\s,;:]+|[\s,;:]+$/g, '');
+
+  return {
+    text,
+    range: {
+      startTime: best.span.start,
+      endTime: since ? undefined : best.span.end,
+      phrase: query.slice(best.index, best.index + best.length).trim(),
+      label: since ? `Since ${phrase}` : capitalize(phrase),
+    },
+  };
+}
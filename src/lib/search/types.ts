@@ -2,13 +2,20 @@
  * Type definitions for vector search
  */
 
-import type { PageRecord } from '../storage/types';
+import type { PageRecord, KeywordField, VisitSummary, RankingFeatures } from '../storage/types';
 
 /**
  * Search mode type
  */
 export type SearchMode = 'semantic' | 'keyword' | 'hybrid';
 
+/**
+ * Keyword scoring function
+ * 'tfidf' is the scorer docs/GROUND_TRUTH.json was measured with; 'bm25f' is
+ * opt-in until the snapshot is regenerated with it
+ */
+export type KeywordScorer = 'tfidf' | 'bm25f';
+
 /**
  * Search result with similarity and relevance scoring
  */
@@ -28,20 +35,154 @@ export interface SearchResult {
   /** Matched keywords (optional, for keyword/hybrid search) */
   matchedTerms?: string[];
 
-  /** Text snippet from the top matching passage (optional, semantic only) */
+  /** ID of the best matching passage (optional, absent when matched on page content) */
+  topPassageId?: string;
+
+  /** Text of the best matching passage (optional) */
   topPassageSnippet?: string;
 
+  /** Match ranges within topPassageSnippet, sorted by start (optional, attached by HybridSearch) */
+  highlights?: HighlightRange[];
+
   /** Final Reciprocal Rank Fusion score (optional, hybrid search) */
   fusionScore?: number;
 
-  /** Contribution per source list used during fusion (optional, hybrid search) */
+  /**
+   * Contribution per source list used during fusion (optional)
+   * Hybrid search fills 'semantic' and 'keyword'; recency and frequency priors add
+   * 'recency' and 'frequency'; a reranker adds 'rerank' (see Reranker)
+   */
   sourceScores?: Record<string, number>;
 
+  /** 1-based rank in each fused source list (optional, hybrid search; a reranker adds 'rerank') */
+  sourceRanks?: Record<string, number>;
+
+  /** Passages at or above minSimilarity (optional, semantic and hybrid search) */
+  matchingPassages?: number;
+
+  /** Ranks behind the fused score (optional, attached by HybridSearch) */
+  rankingFeatures?: RankingFeatures;
+
   /** Search mode that produced this result (optional) */
   searchMode?: SearchMode;
 
   /** Confidence level of this result (high/medium/low) */
   confidence?: 'high' | 'medium' | 'low';
+
+  /** Near-duplicate pages collapsed under this result, in rank order (optional, HybridSearch) */
+  duplicates?: SearchResult[];
+
+  /** Visit timeline of the page (optional, attached by HybridSearch) */
+  visits?: VisitSummary;
+
+  /** Archived version that matched better than the current content (optional, includeHistory only) */
+  matchedVersion?: {
+    id: string;
+    capturedAt: number;
+  };
+
+  /** Score breakdown (optional, SearchOptions.explain only) */
+  explanation?: ScoreExplanation;
+}
+
+/**
+ * Why a result ranked where it did (SearchOptions.explain)
+ */
+export interface ScoreExplanation {
+  /** 1-based position in the returned results */
+  rank: number;
+
+  /** Final fused score (absent when nothing was fused) */
+  fusionScore?: number;
+
+  /** 1-based rank in each list behind the score: semantic, keyword, recency, frequency, rerank */
+  ranks: Record<string, number>;
+
+  /** Weighted RRF contribution of each list (they sum to fusionScore) */
+  contributions: Record<string, number>;
+
+  /** Passage similarity behind the semantic rank (absent without a semantic match) */
+  semantic?: {
+    /** Best passage similarity */
+    similarity: number;
+
+    /** Logarithmic bonus for several matching passages (relevanceScore - similarity) */
+    multiPassageBonus: number;
+    matchingPassages: number;
+    relevanceScore: number;
+    topPassageId?: string;
+
+    /** Set when an archived version scored better than the current content */
+    matchedVersionId?: string;
+  };
+
+  /** Keyword score behind the keyword rank (absent without a keyword match) */
+  keyword?: {
+    score: number;
+    matchedTerms: string[];
+  };
+
+  /** Near-duplicates collapsed under this result */
+  collapsedDuplicates: number;
+
+  confidence?: 'high' | 'medium' | 'low';
+}
+
+/**
+ * Settings and filters that shaped a search (SearchOptions.explain)
+ */
+export interface SearchExplanation {
+  mode: SearchMode;
+
+  /** Free text that was ranked, after operators and the time phrase were removed */
+  rankedText: string;
+
+  /** Semantic weight of hybrid fusion, and the RRF constant */
+  alpha: number;
+  rrfK: number;
+
+  /** Prior weights actually applied (0 when the prior is off) */
+  recencyWeight: number;
+  frequencyWeight: number;
+
+  keywordScorer: KeywordScorer;
+  reranker: string;
+  rerankWeight: number;
+  mmrLambda: number;
+  collapseDuplicates: boolean;
+
+  /**
+   * Hard filters from the query: pages that fail them are not ranked at all, so
+   * phrases and sites never add to a score
+   */
+  operators: {
+    sites: string[];
+    phrases: string[];
+    titleTerms: string[];
+    excluded: string[];
+  };
+
+  /** Structured filters after the time phrase was applied */
+  filters?: SearchFilters;
+
+  /** Ranked candidates the top k were cut from */
+  candidates: number;
+}
+
+/**
+ * Kind of match a highlight marks
+ * - keyword: a query term occurrence
+ * - semantic: the sentence closest to the query embedding
+ */
+export type HighlightKind = 'keyword' | 'semantic';
+
+/**
+ * Character range of a match (start inclusive, end exclusive)
+ */
+export interface HighlightRange {
+  start: number;
+  end: number;
+  kind: HighlightKind;
 }
 
 /**
@@ -51,13 +192,138 @@ export interface KeywordSearchResult {
   /** The matched page record */
   page: PageRecord;
 
-  /** TF-IDF score */
+  /** TF-IDF or BM25F score (see SearchOptions.keywordScorer) */
   score: number;
 
   /** Terms that matched in the search */
   matchedTerms: string[];
 }
 
+/**
+ * Misspelled query term and the indexed term it was corrected to
+ */
+export interface TermCorrection {
+  term: string;
+  correction: string;
+}
+
+/**
+ * Keyword search results with spelling corrections (KeywordSearch.searchWithCorrections)
+ */
+export interface KeywordSearchResults {
+  results: KeywordSearchResult[];
+
+  /** Set only when the corrected query scores much better than the original */
+  corrections: TermCorrection[];
+}
+
+/**
+ * "Did you mean" suggestion for a query
+ */
+export interface SpellingSuggestion {
+  /** Full query with the corrections applied (operators kept) */
+  query: string;
+  corrections: TermCorrection[];
+}
+
+/**
+ * Where an autocomplete suggestion comes from
+ * - saved: a saved (pinned) search
+ * - history: a past search
+ * - title: the title of an indexed page
+ */
+export type QuerySuggestionSource = 'saved' | 'history' | 'title';
+
+/**
+ * As-you-type query suggestion
+ */
+export interface QuerySuggestion {
+  text: string;
+  source: QuerySuggestionSource;
+
+  /** Page the title belongs to (title suggestions only) */
+  pageId?: string;
+}
+
+/**
+ * Structured result filters
+ * All set fields must match; unset fields do not filter
+ */
+export interface SearchFilters {
+  /** Hosts to include (a domain also matches its subdomains) */
+  domains?: string[];
+
+  /** Visit time range (ms since epoch; start inclusive, end exclusive), matched against any recorded visit */
+  startTime?: number;
+  endTime?: number;
+
+  /** Minimum total dwell time across visits in seconds */
+  minDwellTime?: number;
+
+  /** Minimum number of visits */
+  minVisitCount?: number;
+}
+
+/**
+ * Visit time range interpreted from a time phrase in a query ("last week", "in March")
+ */
+export interface TimeRange {
+  /** Range bounds (ms since epoch; start inclusive, end exclusive, open when absent) */
+  startTime?: number;
+  endTime?: number;
+
+  /** Phrase as written in the query, including a leading preposition */
+  phrase: string;
+
+  /** Display label ("Last week", "Since March") */
+  label: string;
+}
+
+/**
+ * Number of matching results for one facet value
+ */
+export interface FacetCount {
+  /** Facet value (domain, or date bucket ID) */
+  value: string;
+
+  /** Display label */
+  label: string;
+
+  /** Ranked candidates with this value */
+  count: number;
+
+  /** Filters that restrict results to this value */
+  filters: SearchFilters;
+}
+
+/**
+ * Facet counts over the ranked candidates of a search
+ */
+export interface SearchFacets {
+  /** Most common domains, most frequent first */
+  domains: FacetCount[];
+
+  /** Visit date buckets (today, past week, past month, older), empty buckets omitted */
+  dates: FacetCount[];
+}
+
+/**
+ * Search results with facet counts (HybridSearch.searchWithFacets)
+ */
+export interface FacetedSearchResults {
+  results: SearchResult[];
+  facets: SearchFacets;
+
+  /** Corrected query when it scores much better (keyword and hybrid modes) */
+  suggestion?: SpellingSuggestion;
+
+  /** Time range read from the query and applied as a visit time filter */
+  timeRange?: TimeRange;
+
+  /** Settings and filters behind the ranking (SearchOptions.explain only) */
+  explanation?: SearchExplanation;
+}
+
 /**
  * Options for configuring search behavior
  */
@@ -74,10 +340,10 @@ export interface SearchOptions {
   /** Boost frequently accessed pages in ranking (default: true) */
   boostFrequent?: boolean;
 
-  /** Recency boost weight (0-1, default: 0.2) */
+  /** Recency boost weight (0-1, default: 0.15) */
   recencyWeight?: number;
 
-  /** Access frequency boost weight (0-1, default: 0.1) */
+  /** Access frequency boost weight (0-1, default: 0.15) */
   frequencyWeight?: number;
 
   /** Search mode: 'semantic', 'keyword', or 'hybrid' (default: 'hybrid') */
@@ -85,6 +351,79 @@ export interface SearchOptions {
 
   /** Alpha weight for semantic vs keyword (0-1, default: 0.5, only for hybrid mode) */
   alpha?: number;
+
+  /** Keyword scoring function (default: 'tfidf', keyword/hybrid only) */
+  keywordScorer?: KeywordScorer;
+
+  /** Per-field weights (default: FIELD_WEIGHTS, keyword/hybrid only) */
+  fieldWeights?: Partial<Record<KeywordField, number>>;
+
+  /** BM25F term frequency saturation (default: 1.2, keyword/hybrid only) */
+  k1?: number;
+
+  /** BM25F field length normalization (0-1, default: 0.75, keyword/hybrid only) */
+  b?: number;
+
+  /**
+   * Also match archived prior versions of pages (default: false)
+   * Historical versions are matched semantically only; keyword search covers current content
+   */
+  includeHistory?: boolean;
+
+  /** Structured filters applied before ranking (default: none) */
+  filters?: SearchFilters;
+
+  /**
+   * Second-stage reranker for the top candidates: 'none', 'lexical', 'prompt' or a
+   * registered name (default: 'none')
+   */
+  reranker?: string;
+
+  /** Collapse near-duplicate pages under the best-ranked one (default: true, HybridSearch) */
+  collapseDuplicates?: boolean;
+
+  /**
+   * Maximal Marginal Relevance trade-off for the top k (HybridSearch)
+   * 1 keeps rank order (default); lower values favour results unlike those above them
+   */
+  mmrLambda?: number;
+
+  /**
+   * Read a natural-language time phrase ("yesterday", "last week", "in March 2024")
+   * out of the query and filter by it (default: true, HybridSearch)
+   */
+  parseTime?: boolean;
+
+  /** Attach a score breakdown to each result and the search (default: false, HybridSearch) */
+  explain?: boolean;
+
+  /**
+   * Latency-bounded search for per-keystroke suggestions (default: false, HybridSearch)
+   * Never waits for the embedding model: semantic and hybrid searches use the cached
+   * query embedding when there is one and rank keywords only otherwise. Rerankers are skipped.
+   */
+  instant?: boolean;
+
+  /** Cancels the search; it then rejects with the signal's reason (an AbortError) */
+  signal?: AbortSignal;
+}
+
+/**
+ * Second-stage relevance model applied to the top first-stage candidates
+ */
+export interface Reranker {
+  /** Name selected with SearchOptions.reranker */
+  name: string;
+
+  /** Most candidates scored per search (default: RERANK_CONFIG.TOP_N) */
+  maxResults?: number;
+
+  /**
+   * Relevance of each result to the query (any scale, higher is better)
+   * @param signal Cancels scoring (the search was aborted)
+   * @returns One score per result, in input order
+   */
+  score(query: string, results: SearchResult[], signal?: AbortSignal): Promise<number[]>;
 }
 
 /**
@@ -96,3 +435,14 @@ export interface RankingConfig {
   frequencyWeight: number; // How much to boost frequently accessed pages
   recencyDecayDays: number; // Days for recency to decay to 0
 }
+
+/**
+ * Weights fitted from click feedback (see RankingTuner)
+ */
+export interface RankingWeights {
+  /** Semantic weight in hybrid fusion (keyword gets 1 - alpha) */
+  alpha: number;
+
+  recencyWeight: number;
+  frequencyWeight: number;
+}
@@ -1,26 +1,135 @@
 /**
  * Vector Store - IndexedDB wrapper for storing page embeddings
+ *
+ * Schema (v7): each page is split across three object stores keyed by page ID
+ * - pages:    lightweight metadata (title, URL, timestamps, counters)
+ * - contents: raw extracted text and passage text
+ * - vectors:  passage embeddings only
+ *
+ * Search streams the vectors store and only loads full records for winning pages.
+ * The ANN index (v8) persists its centroids and page assignments in two more stores.
+ * The keyword inverted index (v9) and its corpus statistics (v10) are maintained
+ * on every add/update/delete.
+ *
+ * Every page load is logged in the visits store (v11), indexed by page and time.
+ * When a revisit finds changed content, the previous text, passages and vectors are
+ * archived in the pageVersions store (v12), keeping the newest maxVersionsPerPage.
+ *
+ * Metadata and vector records carry the embedding signature of the page's vectors;
+ * records written before stamping read back as LEGACY_EMBEDDING_SIGNATURE.
  */
 
 import type {
   PageRecord,
   PageMetadata,
   PageRecordUpdate,
+  PageVectors,
+  PageVisit,
+  PageVersion,
+  VisitSummary,
+  Passage,
+  AnnAssignment,
+  KeywordDocument,
+  KeywordLookup,
+  KeywordPosting,
+  KeywordStats,
   DatabaseStats,
   DatabaseConfig,
   SerializedPageRecord,
   SerializedPageMetadata,
+  SerializedPageContent,
+  SerializedPageVectors,
+  SerializedPageVersion,
+  SerializedAnnCentroid,
+  SearchLogEntry,
+  SearchImpression,
+  TitleWord,
 } from './types';
 import { generateUUID } from '../../utils/uuid';
+import {
+  buildKeywordEntries,
+  createKeywordStats,
+  applyToKeywordStats,
+  type IndexablePage,
+} from './keywordIndex';
+import { LEGACY_EMBEDDING_SIGNATURE } from '../embeddings/embeddingSignature';
 import { loggers } from '../utils/logger';
-import { PERFORMANCE_CONFIG } from '../config/searchConfig';
+import { globalCaches } from '../utils/cache';
+import { hashText } from '../utils/textProcessing';
+import { detectLanguage } from '../utils/languageDetection';
+import { normalizeWord } from '../utils/analyzers';
+import { FEEDBACK_CONFIG, PERFORMANCE_CONFIG, SUGGESTION_CONFIG, VERSION_CONFIG } from '../config/searchConfig';
 
 const DEFAULT_CONFIG: DatabaseConfig = {
   name: 'RewindVectorDB',
-  version: 6, // Chrome-inspired: passage-only embeddings (no page/title/URL embeddings)
+  version: 15, // Search impressions (click feedback)
   storeName: 'pages',
+  contentStoreName: 'contents',
+  vectorStoreName: 'vectors',
+  annCentroidStoreName: 'annCentroids',
+  annAssignmentStoreName: 'annAssignments',
+  keywordPostingStoreName: 'keywordPostings',
+  keywordDocumentStoreName: 'keywordDocuments',
+  keywordStatsStoreName: 'keywordStats',
+  visitStoreName: 'visits',
+  versionStoreName: 'pageVersions',
+  searchLogStoreName: 'searchLog',
+  impressionStoreName: 'searchImpressions',
+  maxVersionsPerPage: VERSION_CONFIG.MAX_VERSIONS_PER_PAGE,
 };
 
+/**
+ * Metadata fields stored in the pages store
+ * Updates touching only these fields skip the content and vector stores
+ */
+const METADATA_FIELDS = ['url', 'title', 'timestamp', 'dwellTime', 'lastAccessed', 'visitCount'] as const;
+
+/**
+ * Set one metadata-only field on a stored metadata record
+ */
+function setMetadataField<K extends (typeof METADATA_FIELDS)[number]>(
+  metadata: SerializedPageMetadata,
+  key: K,
+  value: SerializedPageMetadata[K]
+): void {
+  metadata[key] = value;
+}
+
+/**
+ * Approximate stored size of a page from its metadata (used by getStats and retention)
+ */
+export function estimatePageSizeBytes(meta: Pick<PageMetadata, 'title' | 'passageCount' | 'versionCount'>): number {
+  // Estimate content size based on title length (rough approximation)
+  let size = meta.title.length * 2; // chars are 2 bytes
+  // Estimate passage embeddings (avg ~5 passages x 768 dimensions x 4 bytes)
+  size += meta.passageCount * 768 * 4; // Float32 passage embeddings
+  size += 300; // Estimated overhead for content and passages
+  // Archived versions are assumed to be about the size of the current one
+  return size * (1 + (meta.versionCount ?? 0));
+}
+
+/**
+ * Aggregate a page's visits (any order) into its timeline summary
+ */
+function summarizeVisits(pageId: string, visits: PageVisit[]): VisitSummary {
+  const ordered = [...visits].sort((a, b) => a.startTime - b.startTime);
+  return {
+    pageId,
+    visitCount: ordered.length,
+    firstVisit: ordered[0].startTime,
+    lastVisit: ordered[ordered.length - 1].startTime,
+    totalDwellTime: ordered.reduce((sum, visit) => sum + visit.dwellTime, 0),
+    visits: ordered,
+  };
+}
+
+/**
+ * Search log key of a query: lowercased, whitespace collapsed
+ */
+export function searchLogKey(query: string): string {
+  return query.trim().toLowerCase().replace(/\s+/g, ' ');
+}
+
 /**
  * VectorStore class for managing page embeddings in IndexedDB
  */
@@ -30,6 +139,10 @@ export class VectorStore {
   private initPromise: Promise<void> | null = null;
   private statsCache: DatabaseStats | null = null;
   private statsCacheTimestamp: number = 0;
+  private vocabularyCache: string[] | null = null;
+  private titleWordCache: TitleWord[] | null = null;
+  private vocabularyGeneration: number = 0;
+  private indexGeneration: number = 0;
 
   constructor(config: Partial<DatabaseConfig> = {}) {
     this.config = { ...DEFAULT_CONFIG, ...config };
@@ -122,10 +235,230 @@ export class VectorStore {
           // Existing records will get visitCount: 1 via deserialization defaults
           loggers.vectorStore.debug('visitCount migration complete (existing pages will default to visitCount: 1)');
         }
+
+        // Version 7: separate stores for content and passage vectors
+        if (!db.objectStoreNames.contains(this.config.contentStoreName)) {
+          db.createObjectStore(this.config.contentStoreName, { keyPath: 'pageId' });
+          loggers.vectorStore.debug('Content store created');
+        }
+
+        if (!db.objectStoreNames.contains(this.config.vectorStoreName)) {
+          db.createObjectStore(this.config.vectorStoreName, { keyPath: 'pageId' });
+          loggers.vectorStore.debug('Vector store created');
+        }
+
+        // Version 8: ANN index stores (rebuilt from vectors on first training)
+        if (!db.objectStoreNames.contains(this.config.annCentroidStoreName)) {
+          db.createObjectStore(this.config.annCentroidStoreName, { keyPath: 'listId' });
+        }
+
+        if (!db.objectStoreNames.contains(this.config.annAssignmentStoreName)) {
+          db.createObjectStore(this.config.annAssignmentStoreName, { keyPath: 'pageId' });
+          loggers.vectorStore.debug('ANN index stores created');
+        }
+
+        // Version 9: keyword inverted index
+        if (!db.objectStoreNames.contains(this.config.keywordPostingStoreName)) {
+          db.createObjectStore(this.config.keywordPostingStoreName, { keyPath: ['term', 'pageId'] });
+        }
+
+        if (!db.objectStoreNames.contains(this.config.keywordDocumentStoreName)) {
+          db.createObjectStore(this.config.keywordDocumentStoreName, { keyPath: 'pageId' });
+          loggers.vectorStore.debug('Keyword index stores created');
+        }
+
+        // Version 10: keyword corpus statistics
+        if (!db.objectStoreNames.contains(this.config.keywordStatsStoreName)) {
+          db.createObjectStore(this.config.keywordStatsStoreName, { keyPath: 'id' });
+        }
+
+        // Version 11: per-visit history log
+        if (!db.objectStoreNames.contains(this.config.visitStoreName)) {
+          const visitStore = db.createObjectStore(this.config.visitStoreName, { keyPath: 'id' });
+          visitStore.createIndex('pageId', 'pageId', { unique: false });
+          visitStore.createIndex('startTime', 'startTime', { unique: false });
+          loggers.vectorStore.debug('Visit store created');
+        }
+
+        // Version 12: archived page versions (existing pages start without history)
+        if (!db.objectStoreNames.contains(this.config.versionStoreName)) {
+          const versionStore = db.createObjectStore(this.config.versionStoreName, { keyPath: 'id' });
+          versionStore.createIndex('pageId', 'pageId', { unique: false });
+          loggers.vectorStore.debug('Version store created');
+        }
+
+        // Version 13: keyword terms come from per-language analyzers; rebuild the index
+        // Version 14: search query log (prefix lookups by key)
+        if (!db.objectStoreNames.contains(this.config.searchLogStoreName)) {
+          const searchLogStore = db.createObjectStore(this.config.searchLogStoreName, { keyPath: 'key' });
+          searchLogStore.createIndex('lastSearched', 'lastSearched', { unique: false });
+          searchLogStore.createIndex('pinnedAt', 'pinnedAt', { unique: false });
+          loggers.vectorStore.debug('Search log store created');
+        }
+
+        // Version 15: shown results and clicks per search (RankingTuner)
+        if (!db.objectStoreNames.contains(this.config.impressionStoreName)) {
+          const impressionStore = db.createObjectStore(this.config.impressionStoreName, { keyPath: 'id' });
+          impressionStore.createIndex('timestamp', 'timestamp', { unique: false });
+          loggers.vectorStore.debug('Impression store created');
+        }
+
+        if (oldVersion >= 2 && oldVersion < 7 && transaction) {
+          this._migrateToSplitStores(transaction);
+        } else if (oldVersion >= 7 && oldVersion < 13 && transaction) {
+          if (oldVersion >= 9) {
+            transaction.objectStore(this.config.keywordPostingStoreName).clear();
+            transaction.objectStore(this.config.keywordDocumentStoreName).clear();
+          }
+          this._buildKeywordIndex(transaction);
+        }
+
+        if (oldVersion >= 2 && oldVersion < 11 && transaction) {
+          this._seedVisits(transaction);
+        }
       };
     });
   }
 
+  /**
+   * Upgrade to version 7: move content and passages out of the pages store
+   * Runs inside the versionchange transaction so the upgrade is atomic
+   */
+  private _migrateToSplitStores(transaction: IDBTransaction): void {
+    loggers.vectorStore.debug('Upgrading to version 7 (split metadata, content and vectors)');
+
+    const pageStore = transaction.objectStore(this.config.storeName);
+    const contentStore = transaction.objectStore(this.config.contentStoreName);
+    const vectorStore = transaction.objectStore(this.config.vectorStoreName);
+    const cursorRequest = pageStore.openCursor();
+    const stats = createKeywordStats();
+    let migrated = 0;
+
+    cursorRequest.onsuccess = () => {
+      const cursor = cursorRequest.result;
+      if (!cursor) {
+        transaction.objectStore(this.config.keywordStatsStoreName).put(stats);
+        loggers.vectorStore.debug(`Store split migration complete (${migrated} pages)`);
+        return;
+      }
+
+      const legacy = cursor.value as SerializedPageRecord;
+      if (Array.isArray(legacy.passages)) {
+        const { metadata, content, vectors } = this._splitRecord({
+          ...legacy,
+          visitCount: legacy.visitCount ?? 1,
+          language: detectLanguage(legacy.content),
+          passages: legacy.passages.map(passage => ({
+            ...passage,
+            embedding: passage.embedding ? new Float32Array(passage.embedding) : undefined,
+          })),
+        });
+
+        contentStore.put(content);
+        vectorStore.put(vectors);
+        cursor.update(metadata);
+        applyToKeywordStats(stats, this._putKeywordEntries(transaction, { ...legacy, language: metadata.language }), 1);
+        migrated++;
+      }
+
+      cursor.continue();
+    };
+
+    cursorRequest.onerror = () => {
+      loggers.vectorStore.error('Failed to migrate pages to split stores:', cursorRequest.error);
+    };
+  }
+
+  /**
+   * Upgrade to version 13: (re)index the text of every existing page with the
+   * analyzer of its detected language
+   * Runs inside the versionchange transaction so the upgrade is atomic
+   */
+  private _buildKeywordIndex(transaction: IDBTransaction): void {
+    loggers.vectorStore.debug('Upgrading to version 13 (per-language keyword index)');
+
+    const pageStore = transaction.objectStore(this.config.storeName);
+    const contentStore = transaction.objectStore(this.config.contentStoreName);
+    const cursorRequest = pageStore.openCursor();
+    const stats = createKeywordStats();
+    let indexed = 0;
+
+    cursorRequest.onsuccess = () => {
+      const cursor = cursorRequest.result;
+      if (!cursor) {
+        transaction.objectStore(this.config.keywordStatsStoreName).put(stats);
+        loggers.vectorStore.debug(`Keyword index built (${indexed} pages)`);
+        return;
+      }
+
+      const metadata = cursor.value as SerializedPageMetadata;
+      const contentRequest = contentStore.get(metadata.id);
+      contentRequest.onsuccess = () => {
+        const content = contentRequest.result as SerializedPageContent | undefined;
+        const language = metadata.language ?? detectLanguage(content?.content ?? '');
+        if (language !== metadata.language) {
+          pageStore.put({ ...metadata, language });
+        }
+
+        const document = this._putKeywordEntries(transaction, {
+          id: metadata.id,
+          title: metadata.title,
+          url: metadata.url,
+          content: content?.content ?? '',
+          passages: content?.passages ?? [],
+          language,
+        });
+        applyToKeywordStats(stats, document, 1);
+        indexed++;
+      };
+
+      cursor.continue();
+    };
+
+    cursorRequest.onerror = () => {
+      loggers.vectorStore.error('Failed to build keyword index:', cursorRequest.error);
+    };
+  }
+
+  /**
+   * Upgrade to version 11: seed the visit log with each page's most recent visit
+   * Earlier visits were never recorded, so only visitCount remembers them
+   */
+  private _seedVisits(transaction: IDBTransaction): void {
+    loggers.vectorStore.debug('Upgrading to version 11 (visit log)');
+
+    const visitStore = transaction.objectStore(this.config.visitStoreName);
+    const cursorRequest = transaction.objectStore(this.config.storeName).openCursor();
+    let seeded = 0;
+
+    cursorRequest.onsuccess = () => {
+      const cursor = cursorRequest.result;
+      if (!cursor) {
+        loggers.vectorStore.debug(`Visit log seeded (${seeded} pages)`);
+        return;
+      }
+
+      const page = cursor.value as SerializedPageMetadata;
+      const visit: PageVisit = {
+        id: generateUUID(),
+        pageId: page.id,
+        url: page.url,
+        startTime: page.timestamp,
+        dwellTime: page.dwellTime ?? 0,
+        tabId: -1,
+        windowId: -1,
+        transitionType: 'unknown',
+      };
+      visitStore.put(visit);
+      seeded++;
+      cursor.continue();
+    };
+
+    cursorRequest.onerror = () => {
+      loggers.vectorStore.error('Failed to seed visit log:', cursorRequest.error);
+    };
+  }
+
   /**
    * Add a new page to the database
    * @param record Page record to add
@@ -138,22 +471,28 @@ export class VectorStore {
     const fullRecord: PageRecord = { id, ...record };
 
     // Serialize the record for storage
-    const serialized = this._serializeRecord(fullRecord);
+    const { metadata, content, vectors } = this._splitRecord(fullRecord);
 
     return new Promise((resolve, reject) => {
-      const transaction = this.db!.transaction([this.config.storeName], 'readwrite');
-      const store = transaction.objectStore(this.config.storeName);
-      const request = store.add(serialized);
-
-      request.onsuccess = () => {
+      const transaction = this.db!.transaction(
+        [...this._allStoreNames(), ...this._keywordStoreNames()],
+        'readwrite'
+      );
+      transaction.objectStore(this.config.storeName).add(metadata);
+      transaction.objectStore(this.config.contentStoreName).put(content);
+      transaction.objectStore(this.config.vectorStoreName).put(vectors);
+      this._replaceKeywordEntries(transaction, id, fullRecord);
+
+      transaction.oncomplete = () => {
         this.invalidateStatsCache();
+        this._bumpIndexGeneration();
         loggers.vectorStore.debug('Page added:', id);
         resolve(id);
       };
 
-      request.onerror = () => {
-        loggers.vectorStore.error('Failed to add page:', request.error);
-        reject(new Error(`Failed to add page: ${request.error}`));
+      transaction.onerror = () => {
+        loggers.vectorStore.error('Failed to add page:', transaction.error);
+        reject(new Error(`Failed to add page: ${transaction.error}`));
       };
     });
   }
@@ -164,25 +503,48 @@ export class VectorStore {
    * @returns Page record or null if not found
    */
   async getPage(id: string): Promise<PageRecord | null> {
+    const [page] = await this.getPages([id]);
+    return page ?? null;
+  }
+
+  /**
+   * Get full page records for a set of IDs
+   * Used to hydrate search winners after scoring on vectors or metadata only
+   * @param ids Page IDs
+   * @returns Page records in the same order as the IDs (missing pages are skipped)
+   */
+  async getPages(ids: string[]): Promise<PageRecord[]> {
     await this.initialize();
 
-    return new Promise((resolve, reject) => {
-      const transaction = this.db!.transaction([this.config.storeName], 'readonly');
-      const store = transaction.objectStore(this.config.storeName);
-      const request = store.get(id);
+    if (ids.length === 0) {
+      return [];
+    }
 
-      request.onsuccess = () => {
-        if (request.result) {
-          const deserialized = this._deserializeRecord(request.result);
-          resolve(deserialized);
-        } else {
-          resolve(null);
+    return new Promise((resolve, reject) => {
+      const transaction = this.db!.transaction(this._allStoreNames(), 'readonly');
+      const pageStore = transaction.objectStore(this.config.storeName);
+      const contentStore = transaction.objectStore(this.config.contentStoreName);
+      const vectorStore = transaction.objectStore(this.config.vectorStoreName);
+
+      const parts = ids.map(id => ({
+        metadata: pageStore.get(id) as IDBRequest<SerializedPageMetadata | undefined>,
+        content: contentStore.get(id) as IDBRequest<SerializedPageContent | undefined>,
+        vectors: vectorStore.get(id) as IDBRequest<SerializedPageVectors | undefined>,
+      }));
+
+      transaction.oncomplete = () => {
+        const pages: PageRecord[] = [];
+        for (const part of parts) {
+          if (part.metadata.result) {
+            pages.push(this._joinRecord(part.metadata.result, part.content.result, part.vectors.result));
+          }
         }
+        resolve(pages);
       };
 
-      request.onerror = () => {
-        loggers.vectorStore.error('Failed to get page:', request.error);
-        reject(new Error(`Failed to get page: ${request.error}`));
+      transaction.onerror = () => {
+        loggers.vectorStore.error('Failed to get pages:', transaction.error);
+        reject(new Error(`Failed to get pages: ${transaction.error}`));
       };
     });
   }
@@ -195,19 +557,14 @@ export class VectorStore {
   async getPageByUrl(url: string): Promise<PageRecord | null> {
     await this.initialize();
 
-    return new Promise((resolve, reject) => {
+    const metadata = await new Promise<SerializedPageMetadata | undefined>((resolve, reject) => {
       const transaction = this.db!.transaction([this.config.storeName], 'readonly');
       const store = transaction.objectStore(this.config.storeName);
       const index = store.index('url');
       const request = index.get(url);
 
       request.onsuccess = () => {
-        if (request.result) {
-          const deserialized = this._deserializeRecord(request.result);
-          resolve(deserialized);
-        } else {
-          resolve(null);
-        }
+        resolve(request.result);
       };
 
       request.onerror = () => {
@@ -215,10 +572,13 @@ export class VectorStore {
         reject(new Error(`Failed to get page by URL: ${request.error}`));
       };
     });
+
+    return metadata ? this.getPage(metadata.id) : null;
   }
 
   /**
    * Get all page metadata (excluding content and passages) for fast search
+   * Reads only the pages store
    * @returns Array of page metadata records
    */
   async getAllPageMetadata(): Promise<PageMetadata[]> {
@@ -244,214 +604,1343 @@ export class VectorStore {
   }
 
   /**
-   * Get all pages from the database
-   * @returns Array of all page records
+   * Get metadata for a set of page IDs
+   * @param ids Page IDs
+   * @returns Map of page ID to metadata (missing pages are skipped)
    */
-  async getAllPages(): Promise<PageRecord[]> {
+  async getPageMetadataByIds(ids: string[]): Promise<Map<string, PageMetadata>> {
     await this.initialize();
 
+    const result = new Map<string, PageMetadata>();
+    if (ids.length === 0) {
+      return result;
+    }
+
     return new Promise((resolve, reject) => {
       const transaction = this.db!.transaction([this.config.storeName], 'readonly');
       const store = transaction.objectStore(this.config.storeName);
-      const request = store.getAll();
+      const requests = ids.map(id => store.get(id) as IDBRequest<SerializedPageMetadata | undefined>);
 
-      request.onsuccess = () => {
-        const pages = request.result.map((serialized) =>
-          this._deserializeRecord(serialized)
+      transaction.oncomplete = () => {
+        for (const request of requests) {
+          if (request.result) {
+            result.set(request.result.id, this._deserializeMetadata(request.result));
+          }
+        }
+        resolve(result);
+      };
+
+      transaction.onerror = () => {
+        loggers.vectorStore.error('Failed to get page metadata:', transaction.error);
+        reject(new Error(`Failed to get page metadata: ${transaction.error}`));
+      };
+    });
+  }
+
+  /**
+   * Get all pages without passage embeddings
+   * Cheaper than getAllPages() for text-only consumers such as keyword search
+   * @returns Array of page records whose passages have no embedding field
+   */
+  async getAllPagesWithoutEmbeddings(): Promise<PageRecord[]> {
+    await this.initialize();
+
+    return new Promise((resolve, reject) => {
+      const transaction = this.db!.transaction(
+        [this.config.storeName, this.config.contentStoreName],
+        'readonly'
+      );
+      const metadataRequest = transaction.objectStore(this.config.storeName).getAll();
+      const contentRequest = transaction.objectStore(this.config.contentStoreName).getAll();
+
+      transaction.oncomplete = () => {
+        const contents = new Map<string, SerializedPageContent>(
+          (contentRequest.result as SerializedPageContent[]).map(c => [c.pageId, c])
+        );
+        const pages = (metadataRequest.result as SerializedPageMetadata[]).map(metadata =>
+          this._joinRecord(metadata, contents.get(metadata.id), undefined)
         );
         resolve(pages);
       };
 
-      request.onerror = () => {
-        loggers.vectorStore.error('Failed to get all pages:', request.error);
-        reject(new Error(`Failed to get all pages: ${request.error}`));
+      transaction.onerror = () => {
+        loggers.vectorStore.error('Failed to get pages without embeddings:', transaction.error);
+        reject(new Error(`Failed to get pages without embeddings: ${transaction.error}`));
       };
     });
   }
 
   /**
-   * Update a page
-   * @param id Page ID
-   * @param updates Partial page record with fields to update
+   * Get pages without passage embeddings for a set of IDs
+   * @param ids Page IDs
+   * @returns Page records in the same order as the IDs (missing pages are skipped)
    */
-  async updatePage(id: string, updates: PageRecordUpdate): Promise<void> {
+  async getPagesWithoutEmbeddings(ids: string[]): Promise<PageRecord[]> {
     await this.initialize();
 
-    // Get the existing record first
-    const existing = await this.getPage(id);
-    if (!existing) {
-      throw new Error(`Page not found: ${id}`);
+    if (ids.length === 0) {
+      return [];
     }
 
-    // Merge updates
-    const updated: PageRecord = { ...existing, ...updates };
-
-    // Serialize and save
-    const serialized = this._serializeRecord(updated);
-
     return new Promise((resolve, reject) => {
-      const transaction = this.db!.transaction([this.config.storeName], 'readwrite');
-      const store = transaction.objectStore(this.config.storeName);
-      const request = store.put(serialized);
-
-      request.onsuccess = () => {
-        this.invalidateStatsCache();
-        loggers.vectorStore.debug('Page updated:', id);
-        resolve();
+      const transaction = this.db!.transaction(
+        [this.config.storeName, this.config.contentStoreName],
+        'readonly'
+      );
+      const pageStore = transaction.objectStore(this.config.storeName);
+      const contentStore = transaction.objectStore(this.config.contentStoreName);
+
+      const parts = ids.map(id => ({
+        metadata: pageStore.get(id) as IDBRequest<SerializedPageMetadata | undefined>,
+        content: contentStore.get(id) as IDBRequest<SerializedPageContent | undefined>,
+      }));
+
+      transaction.oncomplete = () => {
+        const pages: PageRecord[] = [];
+        for (const part of parts) {
+          if (part.metadata.result) {
+            pages.push(this._joinRecord(part.metadata.result, part.content.result, undefined));
+          }
+        }
+        resolve(pages);
       };
 
-      request.onerror = () => {
-        loggers.vectorStore.error('Failed to update page:', request.error);
-        reject(new Error(`Failed to update page: ${request.error}`));
+      transaction.onerror = () => {
+        loggers.vectorStore.error('Failed to get pages without embeddings:', transaction.error);
+        reject(new Error(`Failed to get pages without embeddings: ${transaction.error}`));
       };
     });
   }
 
   /**
-   * Delete a page
-   * @param id Page ID
+   * Stream passage vectors page by page without loading content or metadata
+   * The visitor runs synchronously inside the cursor callback
+   * @param visitor Called once per page with its passage vectors
+   * @param signal Stops streaming once aborted (optional)
    */
-  async deletePage(id: string): Promise<void> {
+  async streamPassageVectors(visitor: (entry: PageVectors) => void, signal?: AbortSignal): Promise<void> {
     await this.initialize();
 
     return new Promise((resolve, reject) => {
-      const transaction = this.db!.transaction([this.config.storeName], 'readwrite');
-      const store = transaction.objectStore(this.config.storeName);
-      const request = store.delete(id);
+      const transaction = this.db!.transaction([this.config.vectorStoreName], 'readonly');
+      const store = transaction.objectStore(this.config.vectorStoreName);
+      const request = store.openCursor();
 
       request.onsuccess = () => {
-        this.invalidateStatsCache();
-        loggers.vectorStore.debug('Page deleted:', id);
-        resolve();
+        const cursor = request.result;
+        if (!cursor || signal?.aborted) {
+          return;
+        }
+
+        const serialized = cursor.value as SerializedPageVectors;
+        visitor({
+          pageId: serialized.pageId,
+          signature: serialized.signature ?? LEGACY_EMBEDDING_SIGNATURE,
+          vectors: serialized.vectors.map(vector => ({
+            passageId: vector.passageId,
+            quality: vector.quality,
+            embedding: new Float32Array(vector.embedding),
+          })),
+        });
+
+        cursor.continue();
       };
 
-      request.onerror = () => {
-        loggers.vectorStore.error('Failed to delete page:', request.error);
-        reject(new Error(`Failed to delete page: ${request.error}`));
+      transaction.oncomplete = () => resolve();
+
+      transaction.onerror = () => {
+        loggers.vectorStore.error('Failed to stream passage vectors:', transaction.error);
+        reject(new Error(`Failed to stream passage vectors: ${transaction.error}`));
       };
     });
   }
 
   /**
-   * Get database statistics
-   * @returns Database stats
+   * Get passage vectors for a set of pages (used for exact re-ranking of ANN candidates)
+   * @param ids Page IDs
+   * @returns Passage vectors per page (missing pages are skipped)
    */
-  async getStats(): Promise<DatabaseStats> {
-    return loggers.vectorStore.timedAsync('get-stats', async () => {
-      await this.initialize();
-
-      // Check cache first
-      const now = Date.now();
-      if (
-        this.statsCache &&
-        (now - this.statsCacheTimestamp) < PERFORMANCE_CONFIG.STATS_CACHE_TTL
-      ) {
-        loggers.vectorStore.debug('Returning cached stats');
-        return this.statsCache;
-      }
+  async getPageVectors(ids: string[]): Promise<PageVectors[]> {
+    await this.initialize();
 
-      loggers.vectorStore.debug('Computing fresh stats');
+    if (ids.length === 0) {
+      return [];
+    }
 
-      // Use metadata only for faster calculation
-      const metadata = await this.getAllPageMetadata();
+    return new Promise((resolve, reject) => {
+      const transaction = this.db!.transaction([this.config.vectorStoreName], 'readonly');
+      const store = transaction.objectStore(this.config.vectorStoreName);
+      const requests = ids.map(id => store.get(id) as IDBRequest<SerializedPageVectors | undefined>);
+
+      transaction.oncomplete = () => {
+        const entries: PageVectors[] = [];
+        for (const request of requests) {
+          if (request.result) {
+            entries.push({
+              pageId: request.result.pageId,
+              signature: request.result.signature ?? LEGACY_EMBEDDING_SIGNATURE,
+              vectors: request.result.vectors.map(vector => ({
+                passageId: vector.passageId,
+                quality: vector.quality,
+                embedding: new Float32Array(vector.embedding),
+              })),
+            });
+          }
+        }
+        resolve(entries);
+      };
 
-      const stats: DatabaseStats = {
-        totalPages: metadata.length,
-        sizeBytes: 0, // Approximate calculation
-        oldestTimestamp: metadata.length > 0 ? Math.min(...metadata.map((p) => p.timestamp)) : 0,
-        newestTimestamp: metadata.length > 0 ? Math.max(...metadata.map((p) => p.timestamp)) : 0,
-        lastAccessedTimestamp:
-          metadata.length > 0 ? Math.max(...metadata.map((p) => p.lastAccessed)) : 0,
+      transaction.onerror = () => {
+        loggers.vectorStore.error('Failed to get page vectors:', transaction.error);
+        reject(new Error(`Failed to get page vectors: ${transaction.error}`));
       };
+    });
+  }
 
-      // Approximate size calculation (metadata only estimation)
-      // This is much faster than loading full pages
-      metadata.forEach((meta) => {
-        // Estimate content size based on title length (rough approximation)
-        stats.sizeBytes += meta.title.length * 2; // chars are 2 bytes
-        // Estimate passage embeddings (avg ~5 passages x 768 dimensions x 4 bytes)
-        stats.sizeBytes += meta.passageCount * 768 * 4; // Float32 passage embeddings
-        stats.sizeBytes += 300; // Estimated overhead for content and passages
-      });
+  /**
+   * Load the persisted ANN index
+   * @returns Centroids ordered by list ID and all page assignments
+   */
+  async getAnnIndex(): Promise<{ centroids: Float32Array[]; assignments: AnnAssignment[] }> {
+    await this.initialize();
 
-      // Cache the result
-      this.statsCache = stats;
-      this.statsCacheTimestamp = now;
+    return new Promise((resolve, reject) => {
+      const transaction = this.db!.transaction(this._annStoreNames(), 'readonly');
+      const centroidRequest = transaction.objectStore(this.config.annCentroidStoreName).getAll();
+      const assignmentRequest = transaction.objectStore(this.config.annAssignmentStoreName).getAll();
+
+      transaction.oncomplete = () => {
+        const centroids = (centroidRequest.result as SerializedAnnCentroid[])
+          .sort((a, b) => a.listId - b.listId)
+          .map(record => new Float32Array(record.centroid));
+        resolve({ centroids, assignments: assignmentRequest.result as AnnAssignment[] });
+      };
 
-      return stats;
+      transaction.onerror = () => {
+        loggers.vectorStore.error('Failed to load ANN index:', transaction.error);
+        reject(new Error(`Failed to load ANN index: ${transaction.error}`));
+      };
     });
   }
 
   /**
-   * Invalidate stats cache (call when data changes)
+   * Replace the persisted ANN index (after training)
+   * @param centroids Centroids indexed by list ID
+   * @param assignments Page assignments for every indexed page
    */
-  private invalidateStatsCache(): void {
-    this.statsCache = null;
-    this.statsCacheTimestamp = 0;
-    loggers.vectorStore.debug('Stats cache invalidated');
+  async replaceAnnIndex(centroids: Float32Array[], assignments: AnnAssignment[]): Promise<void> {
+    await this.initialize();
+
+    return new Promise((resolve, reject) => {
+      const transaction = this.db!.transaction(this._annStoreNames(), 'readwrite');
+      const centroidStore = transaction.objectStore(this.config.annCentroidStoreName);
+      const assignmentStore = transaction.objectStore(this.config.annAssignmentStoreName);
+
+      centroidStore.clear();
+      assignmentStore.clear();
+
+      centroids.forEach((centroid, listId) => {
+        const record: SerializedAnnCentroid = {
+          listId,
+          centroid: centroid.buffer.slice(
+            centroid.byteOffset,
+            centroid.byteOffset + centroid.byteLength
+          ) as ArrayBuffer,
+        };
+        centroidStore.put(record);
+      });
+
+      for (const assignment of assignments) {
+        assignmentStore.put(assignment);
+      }
+
+      // Retrained lists change which pages probed vector searches visit
+      transaction.oncomplete = () => {
+        this._bumpIndexGeneration();
+        loggers.vectorStore.debug('ANN index saved:', centroids.length, 'lists,', assignments.length, 'pages');
+        resolve();
+      };
+
+      transaction.onerror = () => {
+        loggers.vectorStore.error('Failed to save ANN index:', transaction.error);
+        reject(new Error(`Failed to save ANN index: ${transaction.error}`));
+      };
+    });
   }
 
   /**
-   * Clear all data from the database (for testing)
+   * Save a single page's ANN assignment
    */
-  async clearDatabase(): Promise<void> {
+  async putAnnAssignment(assignment: AnnAssignment): Promise<void> {
     await this.initialize();
 
     return new Promise((resolve, reject) => {
-      const transaction = this.db!.transaction([this.config.storeName], 'readwrite');
-      const store = transaction.objectStore(this.config.storeName);
-      const request = store.clear();
+      const transaction = this.db!.transaction([this.config.annAssignmentStoreName], 'readwrite');
+      const request = transaction.objectStore(this.config.annAssignmentStoreName).put(assignment);
 
-      request.onsuccess = () => {
-        this.invalidateStatsCache();
-        loggers.vectorStore.debug('Database cleared');
+      // A newly assigned page becomes visible to probed vector searches
+      transaction.oncomplete = () => {
+        this._bumpIndexGeneration();
         resolve();
       };
 
       request.onerror = () => {
-        loggers.vectorStore.error('Failed to clear database:', request.error);
-        reject(new Error(`Failed to clear database: ${request.error}`));
+        loggers.vectorStore.error('Failed to save ANN assignment:', request.error);
+        reject(new Error(`Failed to save ANN assignment: ${request.error}`));
       };
     });
   }
 
   /**
-   * Clear all data from the database (alias for clearDatabase)
+   * Delete a single page's ANN assignment
    */
-  async clearAll(): Promise<void> {
-    return this.clearDatabase();
+  async deleteAnnAssignment(pageId: string): Promise<void> {
+    await this.initialize();
+
+    return new Promise((resolve, reject) => {
+      const transaction = this.db!.transaction([this.config.annAssignmentStoreName], 'readwrite');
+      const request = transaction.objectStore(this.config.annAssignmentStoreName).delete(pageId);
+
+      transaction.oncomplete = () => {
+        this._bumpIndexGeneration();
+        resolve();
+      };
+
+      request.onerror = () => {
+        loggers.vectorStore.error('Failed to delete ANN assignment:', request.error);
+        reject(new Error(`Failed to delete ANN assignment: ${request.error}`));
+      };
+    });
   }
 
   /**
-   * Serialize a page record for storage
-   * Chrome approach: Only serialize passage embeddings
+   * Look up query terms in the keyword inverted index
+   * @param terms Index terms (see utils/analyzers)
+   * @returns Postings per term and the number of indexed pages
    */
-  private _serializeRecord(record: PageRecord): SerializedPageRecord {
-    // Serialize passages (convert Float32Array embeddings to ArrayBuffer)
-    const serializedPassages = record.passages.map(passage => ({
-      ...passage,
-      embedding: passage.embedding ? passage.embedding.buffer.slice(
-        passage.embedding.byteOffset,
-        passage.embedding.byteOffset + passage.embedding.byteLength
-      ) as ArrayBuffer : undefined,
-    }));
+  async lookupTerms(terms: string[]): Promise<KeywordLookup> {
+    await this.initialize();
 
-    return {
-      ...record,
-      passages: serializedPassages,
-    };
+    return new Promise((resolve, reject) => {
+      const transaction = this.db!.transaction(this._keywordStoreNames(), 'readonly');
+      const postingStore = transaction.objectStore(this.config.keywordPostingStoreName);
+      const countRequest = transaction.objectStore(this.config.keywordDocumentStoreName).count();
+      const statsRequest = transaction.objectStore(this.config.keywordStatsStoreName).get('corpus') as IDBRequest<
+        KeywordStats | undefined
+      >;
+
+      // [term] sorts before every [term, pageId] key and [term, []] after them
+      const requests = [...new Set(terms)].map(term => ({
+        term,
+        request: postingStore.getAll(IDBKeyRange.bound([term], [term, []])) as IDBRequest<KeywordPosting[]>,
+      }));
+
+      transaction.oncomplete = () => {
+        const postings = new Map<string, KeywordPosting[]>();
+        for (const { term, request } of requests) {
+          postings.set(term, request.result);
+        }
+        const stats = statsRequest.result ?? createKeywordStats();
+        const averageFieldLengths = { ...stats.fieldLengthTotals };
+        for (const field of Object.keys(averageFieldLengths) as Array<keyof typeof averageFieldLengths>) {
+          averageFieldLengths[field] = stats.documentCount > 0 ? averageFieldLengths[field] / stats.documentCount : 0;
+        }
+        resolve({ totalDocuments: countRequest.result, averageFieldLengths, postings });
+      };
+
+      transaction.onerror = () => {
+        loggers.vectorStore.error('Failed to look up keyword terms:', transaction.error);
+        reject(new Error(`Failed to look up keyword terms: ${transaction.error}`));
+      };
+    });
   }
 
   /**
-   * Deserialize page metadata from storage
-   * Chrome approach: No embeddings in metadata, only passage count
+   * Get every distinct term in the keyword inverted index (sorted)
+   * Cached until the index changes
    */
-  private _deserializeMetadata(serialized: SerializedPageRecord | SerializedPageMetadata): PageMetadata {
-    // Calculate passage count from serialized data
-    const passageCount = 'passages' in serialized ? serialized.passages.length : 
-                        'passageCount' in serialized ? serialized.passageCount : 0;
-    
-    return {
+  async getKeywordVocabulary(): Promise<string[]> {
+    await this.initialize();
+
+    if (this.vocabularyCache) {
+      return this.vocabularyCache;
+    }
+
+    const generation = this.vocabularyGeneration;
+    return new Promise((resolve, reject) => {
+      const transaction = this.db!.transaction([this.config.keywordPostingStoreName], 'readonly');
+      const request = transaction.objectStore(this.config.keywordPostingStoreName).openKeyCursor();
+      const terms: string[] = [];
+
+      request.onsuccess = () => {
+        const cursor = request.result;
+        if (!cursor) {
+          return;
+        }
+
+        // Skip the term's remaining postings: [term, []] sorts after all of them
+        const term = (cursor.key as [string, string])[0];
+        terms.push(term);
+        cursor.continue([term, []]);
+      };
+
+      transaction.oncomplete = () => {
+        if (generation === this.vocabularyGeneration) {
+          this.vocabularyCache = terms;
+        }
+        loggers.vectorStore.debug(`Keyword vocabulary loaded (${terms.length} terms)`);
+        resolve(terms);
+      };
+
+      transaction.onerror = () => {
+        loggers.vectorStore.error('Failed to load keyword vocabulary:', transaction.error);
+        reject(new Error(`Failed to load keyword vocabulary: ${transaction.error}`));
+      };
+    });
+  }
+
+  /**
+   * Get all pages from the database
+   * Loads every store; prefer the streaming and metadata accessors for search
+   * @returns Array of all page records
+   */
+  async getAllPages(): Promise<PageRecord[]> {
+    await this.initialize();
+
+    return new Promise((resolve, reject) => {
+      const transaction = this.db!.transaction(this._allStoreNames(), 'readonly');
+      const metadataRequest = transaction.objectStore(this.config.storeName).getAll();
+      const contentRequest = transaction.objectStore(this.config.contentStoreName).getAll();
+      const vectorRequest = transaction.objectStore(this.config.vectorStoreName).getAll();
+
+      transaction.oncomplete = () => {
+        const contents = new Map<string, SerializedPageContent>(
+          (contentRequest.result as SerializedPageContent[]).map(c => [c.pageId, c])
+        );
+        const vectors = new Map<string, SerializedPageVectors>(
+          (vectorRequest.result as SerializedPageVectors[]).map(v => [v.pageId, v])
+        );
+        const pages = (metadataRequest.result as SerializedPageMetadata[]).map(metadata =>
+          this._joinRecord(metadata, contents.get(metadata.id), vectors.get(metadata.id))
+        );
+        resolve(pages);
+      };
+
+      transaction.onerror = () => {
+        loggers.vectorStore.error('Failed to get all pages:', transaction.error);
+        reject(new Error(`Failed to get all pages: ${transaction.error}`));
+      };
+    });
+  }
+
+  /**
+   * Record a visit, or update it when the same visit is reported again (e.g. with its final dwell time)
+   * @param visit Visit to store
+   * @returns True if the visit was not recorded before
+   */
+  async recordVisit(visit: PageVisit): Promise<boolean> {
+    await this.initialize();
+
+    return new Promise((resolve, reject) => {
+      const transaction = this.db!.transaction([this.config.visitStoreName], 'readwrite');
+      const store = transaction.objectStore(this.config.visitStoreName);
+      let isNew = false;
+
+      const getRequest = store.get(visit.id);
+      getRequest.onsuccess = () => {
+        const existing = getRequest.result as PageVisit | undefined;
+        isNew = !existing;
+        store.put(existing ? { ...existing, ...visit, dwellTime: Math.max(existing.dwellTime, visit.dwellTime) } : visit);
+      };
+
+      // Visits feed visit-time filters, date facets and the recency/frequency priors
+      transaction.oncomplete = () => {
+        this._bumpIndexGeneration();
+        resolve(isNew);
+      };
+
+      transaction.onerror = () => {
+        loggers.vectorStore.error('Failed to record visit:', transaction.error);
+        reject(new Error(`Failed to record visit: ${transaction.error}`));
+      };
+    });
+  }
+
+  /**
+   * Check whether a visit has been recorded
+   * @param id Visit ID
+   */
+  async hasVisit(id: string): Promise<boolean> {
+    await this.initialize();
+
+    return new Promise((resolve, reject) => {
+      const transaction = this.db!.transaction([this.config.visitStoreName], 'readonly');
+      const request = transaction.objectStore(this.config.visitStoreName).count(id);
+
+      request.onsuccess = () => resolve(request.result > 0);
+      request.onerror = () => {
+        loggers.vectorStore.error('Failed to look up visit:', request.error);
+        reject(new Error(`Failed to look up visit: ${request.error}`));
+      };
+    });
+  }
+
+  /**
+   * Get the visit timelines of a set of pages
+   * @param ids Page IDs (omit to load every page's timeline)
+   * @returns Summary per page ID (pages without recorded visits are absent)
+   */
+  async getVisitSummaries(ids?: string[]): Promise<Map<string, VisitSummary>> {
+    await this.initialize();
+
+    if (ids && ids.length === 0) {
+      return new Map();
+    }
+
+    return new Promise((resolve, reject) => {
+      const transaction = this.db!.transaction([this.config.visitStoreName], 'readonly');
+      const store = transaction.objectStore(this.config.visitStoreName);
+      const visitsByPage = new Map<string, PageVisit[]>();
+
+      const collect = (visits: PageVisit[]) => {
+        for (const visit of visits) {
+          const pageVisits = visitsByPage.get(visit.pageId);
+          if (pageVisits) {
+            pageVisits.push(visit);
+          } else {
+            visitsByPage.set(visit.pageId, [visit]);
+          }
+        }
+      };
+
+      if (ids) {
+        const index = store.index('pageId');
+        for (const id of new Set(ids)) {
+          const request = index.getAll(id);
+          request.onsuccess = () => collect(request.result as PageVisit[]);
+        }
+      } else {
+        const request = store.getAll();
+        request.onsuccess = () => collect(request.result as PageVisit[]);
+      }
+
+      transaction.oncomplete = () => {
+        const summaries = new Map<string, VisitSummary>();
+        for (const [pageId, visits] of visitsByPage) {
+          summaries.set(pageId, summarizeVisits(pageId, visits));
+        }
+        resolve(summaries);
+      };
+
+      transaction.onerror = () => {
+        loggers.vectorStore.error('Failed to get visit summaries:', transaction.error);
+        reject(new Error(`Failed to get visit summaries: ${transaction.error}`));
+      };
+    });
+  }
+
+  /**
+   * Get the archived versions of a page
+   * @param pageId Page ID
+   * @returns Versions, newest first
+   */
+  async getPageVersions(pageId: string): Promise<PageVersion[]> {
+    await this.initialize();
+
+    return new Promise((resolve, reject) => {
+      const transaction = this.db!.transaction([this.config.versionStoreName], 'readonly');
+      const request = transaction.objectStore(this.config.versionStoreName).index('pageId').getAll(pageId);
+
+      request.onsuccess = () => {
+        const versions = (request.result as SerializedPageVersion[]).map(version => this._deserializeVersion(version));
+        resolve(versions.sort((a, b) => b.capturedAt - a.capturedAt));
+      };
+
+      request.onerror = () => {
+        loggers.vectorStore.error('Failed to get page versions:', request.error);
+        reject(new Error(`Failed to get page versions: ${request.error}`));
+      };
+    });
+  }
+
+  /**
+   * Stream every archived version (used by search when history is included)
+   * The visitor runs synchronously inside the cursor callback
+   * @param visitor Called once per version
+   */
+  async streamPageVersions(visitor: (version: PageVersion) => void): Promise<void> {
+    await this.initialize();
+
+    return new Promise((resolve, reject) => {
+      const transaction = this.db!.transaction([this.config.versionStoreName], 'readonly');
+      const request = transaction.objectStore(this.config.versionStoreName).openCursor();
+
+      request.onsuccess = () => {
+        const cursor = request.result;
+        if (!cursor) {
+          return;
+        }
+
+        visitor(this._deserializeVersion(cursor.value as SerializedPageVersion));
+        cursor.continue();
+      };
+
+      transaction.oncomplete = () => resolve();
+
+      transaction.onerror = () => {
+        loggers.vectorStore.error('Failed to stream page versions:', transaction.error);
+        reject(new Error(`Failed to stream page versions: ${transaction.error}`));
+      };
+    });
+  }
+
+  /**
+   * Update a page
+   * Metadata-only updates (e.g. lastAccessed) leave the content and vector stores untouched.
+   * New content with a new timestamp (a later visit) archives the previous version when its
+   * hash differs; content re-indexed for the same visit is replaced in place.
+   * @param id Page ID
+   * @param updates Partial page record with fields to update
+   */
+  async updatePage(id: string, updates: PageRecordUpdate): Promise<void> {
+    await this.initialize();
+
+    // Any change to indexed text or embeddings rewrites the body and the keyword postings
+    const touchesBody =
+      updates.content !== undefined ||
+      updates.passages !== undefined ||
+      updates.embeddingSignature !== undefined ||
+      updates.title !== undefined ||
+      updates.url !== undefined ||
+      updates.language !== undefined;
+
+    // Get the existing record first
+    const existing = touchesBody ? await this.getPage(id) : await this._getMetadataRecord(id);
+    if (!existing) {
+      throw new Error(`Page not found: ${id}`);
+    }
+
+    const version = touchesBody ? await this._buildVersion(existing as PageRecord, updates) : null;
+
+    return new Promise((resolve, reject) => {
+      const transaction = this.db!.transaction(
+        [...this._allStoreNames(), ...this._keywordStoreNames(), this.config.versionStoreName],
+        'readwrite'
+      );
+
+      if (touchesBody) {
+        const updated: PageRecord = { ...(existing as PageRecord), ...updates };
+        const { metadata, content, vectors } = this._splitRecord(updated);
+        transaction.objectStore(this.config.contentStoreName).put(content);
+        transaction.objectStore(this.config.vectorStoreName).put(vectors);
+        this._replaceKeywordEntries(transaction, id, updated);
+
+        if (version) {
+          this._archiveVersion(transaction, version, metadata);
+        } else {
+          transaction.objectStore(this.config.storeName).put(metadata);
+        }
+      } else {
+        const metadata: SerializedPageMetadata = { ...(existing as SerializedPageMetadata) };
+        for (const field of METADATA_FIELDS) {
+          const value = updates[field];
+          if (value !== undefined) {
+            setMetadataField(metadata, field, value);
+          }
+        }
+        transaction.objectStore(this.config.storeName).put(metadata);
+      }
+
+      transaction.oncomplete = () => {
+        this.invalidateStatsCache();
+        this._bumpIndexGeneration();
+        loggers.vectorStore.debug('Page updated:', id);
+        resolve();
+      };
+
+      transaction.onerror = () => {
+        loggers.vectorStore.error('Failed to update page:', transaction.error);
+        reject(new Error(`Failed to update page: ${transaction.error}`));
+      };
+    });
+  }
+
+  /**
+   * Delete a page
+   * @param id Page ID
+   */
+  async deletePage(id: string): Promise<void> {
+    await this.initialize();
+
+    return new Promise((resolve, reject) => {
+      const transaction = this.db!.transaction(
+        [
+          ...this._allStoreNames(),
+          ...this._keywordStoreNames(),
+          this.config.visitStoreName,
+          this.config.versionStoreName,
+        ],
+        'readwrite'
+      );
+      for (const storeName of this._allStoreNames()) {
+        transaction.objectStore(storeName).delete(id);
+      }
+      this._replaceKeywordEntries(transaction, id, null);
+
+      // Remove the page's visits and archived versions
+      for (const storeName of [this.config.visitStoreName, this.config.versionStoreName]) {
+        const cursorRequest = transaction.objectStore(storeName).index('pageId').openCursor(IDBKeyRange.only(id));
+        cursorRequest.onsuccess = () => {
+          const cursor = cursorRequest.result;
+          if (cursor) {
+            cursor.delete();
+            cursor.continue();
+          }
+        };
+      }
+
+      transaction.oncomplete = () => {
+        this.invalidateStatsCache();
+        this._bumpIndexGeneration();
+        loggers.vectorStore.debug('Page deleted:', id);
+        resolve();
+      };
+
+      transaction.onerror = () => {
+        loggers.vectorStore.error('Failed to delete page:', transaction.error);
+        reject(new Error(`Failed to delete page: ${transaction.error}`));
+      };
+    });
+  }
+
+  /**
+   * Get every word of every indexed page title, sorted by word (for prefix lookups)
+   * Cached until indexed text changes
+   */
+  async getTitleWords(): Promise<TitleWord[]> {
+    if (this.titleWordCache) {
+      return this.titleWordCache;
+    }
+
+    const generation = this.vocabularyGeneration;
+    const pages = await this.getAllPageMetadata();
+    const words: TitleWord[] = [];
+    for (const page of pages) {
+      const pageWords = new Set([...page.title.matchAll(/[\p{L}\p{N}]+/gu)].map(match => normalizeWord(match[0])));
+      for (const word of pageWords) {
+        words.push({ word, pageId: page.id });
+      }
+    }
+    words.sort((a, b) => (a.word < b.word ? -1 : a.word > b.word ? 1 : 0));
+
+    if (generation === this.vocabularyGeneration) {
+      this.titleWordCache = words;
+    }
+    loggers.vectorStore.debug(`Title words loaded (${words.length} words)`);
+    return words;
+  }
+
+  /**
+   * Log a run of a search query
+   * @param query Query as typed
+   * @param resultCount Results returned
+   */
+  async recordSearch(query: string, resultCount: number): Promise<void> {
+    const now = Date.now();
+    await this._updateSearchLog(query, entry => ({
+      ...entry,
+      query: query.trim(),
+      searchCount: entry.searchCount + 1,
+      resultCount,
+      lastSearched: now,
+    }));
+  }
+
+  /**
+   * Log a result opened from a search (logs the query too if it was not yet)
+   * @param query Query the result was found with
+   * @param pageId Opened page ID
+   */
+  async recordSearchClick(query: string, pageId: string): Promise<void> {
+    await this._updateSearchLog(query, entry => ({
+      ...entry,
+      searchCount: Math.max(entry.searchCount, 1),
+      clickCount: entry.clickCount + 1,
+      clickedPageIds: [pageId, ...entry.clickedPageIds.filter(id => id !== pageId)].slice(
+        0,
+        SUGGESTION_CONFIG.MAX_CLICKED_PAGES
+      ),
+    }));
+  }
+
+  /**
+   * Save (pin) or unsave a search query
+   */
+  async setSearchPinned(query: string, pinned: boolean): Promise<void> {
+    const now = Date.now();
+    await this._updateSearchLog(query, entry => ({
+      ...entry,
+      pinnedAt: pinned ? entry.pinnedAt || now : 0,
+    }));
+  }
+
+  /**
+   * Remove a query from the search log
+   */
+  async deleteSearch(query: string): Promise<void> {
+    await this.initialize();
+
+    return new Promise((resolve, reject) => {
+      const transaction = this.db!.transaction([this.config.searchLogStoreName], 'readwrite');
+      transaction.objectStore(this.config.searchLogStoreName).delete(searchLogKey(query));
+
+      transaction.oncomplete = () => resolve();
+      transaction.onerror = () => {
+        loggers.vectorStore.error('Failed to delete search:', transaction.error);
+        reject(new Error(`Failed to delete search: ${transaction.error}`));
+      };
+    });
+  }
+
+  /**
+   * Get the log entry of a query
+   * @returns The entry, or null if the query was never logged
+   */
+  async getSearch(query: string): Promise<SearchLogEntry | null> {
+    await this.initialize();
+
+    return new Promise((resolve, reject) => {
+      const transaction = this.db!.transaction([this.config.searchLogStoreName], 'readonly');
+      const request = transaction.objectStore(this.config.searchLogStoreName).get(searchLogKey(query));
+
+      request.onsuccess = () => resolve((request.result as SearchLogEntry | undefined) ?? null);
+      request.onerror = () => {
+        loggers.vectorStore.error('Failed to get search:', request.error);
+        reject(new Error(`Failed to get search: ${request.error}`));
+      };
+    });
+  }
+
+  /**
+   * Get saved searches, most recently saved first
+   */
+  async getSavedSearches(): Promise<SearchLogEntry[]> {
+    return this._readSearchLog('pinnedAt', IDBKeyRange.lowerBound(0, true), 'prev', Infinity);
+  }
+
+  /**
+   * Get the most recently run searches
+   * @param limit Maximum entries
+   */
+  async getRecentSearches(limit: number): Promise<SearchLogEntry[]> {
+    return this._readSearchLog('lastSearched', IDBKeyRange.lowerBound(0, true), 'prev', limit);
+  }
+
+  /**
+   * Get logged queries that start with a prefix (in key order)
+   * A key range scan, so the cost depends on the matches read, not the log size
+   * @param prefix Query prefix (normalized like the log keys)
+   * @param limit Maximum entries read
+   */
+  async findSearchesByPrefix(prefix: string, limit: number): Promise<SearchLogEntry[]> {
+    const key = searchLogKey(prefix);
+    return this._readSearchLog(null, IDBKeyRange.bound(key, `${key}\uffff`), 'next', limit);
+  }
+
+  /**
+   * Read search log entries over a key range of the store or one of its indexes
+   */
+  private async _readSearchLog(
+    indexName: string | null,
+    range: IDBKeyRange,
+    direction: IDBCursorDirection,
+    limit: number
+  ): Promise<SearchLogEntry[]> {
+    await this.initialize();
+
+    return new Promise((resolve, reject) => {
+      const transaction = this.db!.transaction([this.config.searchLogStoreName], 'readonly');
+      const store = transaction.objectStore(this.config.searchLogStoreName);
+      const request = (indexName ? store.index(indexName) : store).openCursor(range, direction);
+      const entries: SearchLogEntry[] = [];
+
+      request.onsuccess = () => {
+        const cursor = request.result;
+        if (!cursor || entries.length >= limit) {
+          return;
+        }
+        entries.push(cursor.value as SearchLogEntry);
+        cursor.continue();
+      };
+
+      transaction.oncomplete = () => resolve(entries);
+      transaction.onerror = () => {
+        loggers.vectorStore.error('Failed to read search log:', transaction.error);
+        reject(new Error(`Failed to read search log: ${transaction.error}`));
+      };
+    });
+  }
+
+  /**
+   * Create or update the log entry of a query in one transaction
+   * @param update Returns the new entry from the existing one (a fresh entry if none)
+   */
+  private async _updateSearchLog(query: string, update: (entry: SearchLogEntry) => SearchLogEntry): Promise<void> {
+    await this.initialize();
+
+    const key = searchLogKey(query);
+    if (!key) {
+      return;
+    }
+
+    return new Promise((resolve, reject) => {
+      const transaction = this.db!.transaction([this.config.searchLogStoreName], 'readwrite');
+      const store = transaction.objectStore(this.config.searchLogStoreName);
+      const getRequest = store.get(key);
+
+      getRequest.onsuccess = () => {
+        const now = Date.now();
+        const existing = (getRequest.result as SearchLogEntry | undefined) ?? {
+          key,
+          query: query.trim(),
+          searchCount: 0,
+          resultCount: 0,
+          firstSearched: now,
+          lastSearched: now,
+          clickCount: 0,
+          clickedPageIds: [],
+          pinnedAt: 0,
+        };
+        store.put(update(existing));
+      };
+
+      transaction.oncomplete = () => resolve();
+      transaction.onerror = () => {
+        loggers.vectorStore.error('Failed to update search log:', transaction.error);
+        reject(new Error(`Failed to update search log: ${transaction.error}`));
+      };
+    });
+  }
+
+  /**
+   * Log the results shown for a search, dropping the oldest impressions past
+   * FEEDBACK_CONFIG.MAX_IMPRESSIONS
+   */
+  async recordImpression(impression: SearchImpression): Promise<void> {
+    await this.initialize();
+
+    return new Promise((resolve, reject) => {
+      const transaction = this.db!.transaction([this.config.impressionStoreName], 'readwrite');
+      const store = transaction.objectStore(this.config.impressionStoreName);
+      store.put(impression);
+
+      const countRequest = store.count();
+      countRequest.onsuccess = () => {
+        let excess = countRequest.result - FEEDBACK_CONFIG.MAX_IMPRESSIONS;
+        if (excess <= 0) {
+          return;
+        }
+        const cursorRequest = store.index('timestamp').openCursor();
+        cursorRequest.onsuccess = () => {
+          const cursor = cursorRequest.result;
+          if (!cursor || excess <= 0) {
+            return;
+          }
+          cursor.delete();
+          excess--;
+          cursor.continue();
+        };
+      };
+
+      transaction.oncomplete = () => resolve();
+      transaction.onerror = () => {
+        loggers.vectorStore.error('Failed to record impression:', transaction.error);
+        reject(new Error(`Failed to record impression: ${transaction.error}`));
+      };
+    });
+  }
+
+  /**
+   * Log a result opened from a logged impression (ignored for unknown impressions)
+   */
+  async recordImpressionClick(impressionId: string, pageId: string): Promise<void> {
+    await this.initialize();
+
+    return new Promise((resolve, reject) => {
+      const transaction = this.db!.transaction([this.config.impressionStoreName], 'readwrite');
+      const store = transaction.objectStore(this.config.impressionStoreName);
+      const getRequest = store.get(impressionId);
+
+      getRequest.onsuccess = () => {
+        const impression = getRequest.result as SearchImpression | undefined;
+        if (impression && !impression.clickedPageIds.includes(pageId)) {
+          store.put({ ...impression, clickedPageIds: [...impression.clickedPageIds, pageId] });
+        }
+      };
+
+      transaction.oncomplete = () => resolve();
+      transaction.onerror = () => {
+        loggers.vectorStore.error('Failed to record impression click:', transaction.error);
+        reject(new Error(`Failed to record impression click: ${transaction.error}`));
+      };
+    });
+  }
+
+  /**
+   * Get all logged impressions, oldest first
+   */
+  async getImpressions(): Promise<SearchImpression[]> {
+    await this.initialize();
+
+    return new Promise((resolve, reject) => {
+      const transaction = this.db!.transaction([this.config.impressionStoreName], 'readonly');
+      const request = transaction.objectStore(this.config.impressionStoreName).index('timestamp').getAll();
+
+      request.onsuccess = () => resolve(request.result as SearchImpression[]);
+      request.onerror = () => {
+        loggers.vectorStore.error('Failed to get impressions:', request.error);
+        reject(new Error(`Failed to get impressions: ${request.error}`));
+      };
+    });
+  }
+
+  /**
+   * Get database statistics
+   * @returns Database stats
+   */
+  async getStats(): Promise<DatabaseStats> {
+    return loggers.vectorStore.timedAsync('get-stats', async () => {
+      await this.initialize();
+
+      // Check cache first
+      const now = Date.now();
+      if (
+        this.statsCache &&
+        (now - this.statsCacheTimestamp) < PERFORMANCE_CONFIG.STATS_CACHE_TTL
+      ) {
+        loggers.vectorStore.debug('Returning cached stats');
+        return this.statsCache;
+      }
+
+      loggers.vectorStore.debug('Computing fresh stats');
+
+      // Use metadata only for faster calculation
+      const metadata = await this.getAllPageMetadata();
+
+      const stats: DatabaseStats = {
+        totalPages: metadata.length,
+        sizeBytes: 0, // Approximate calculation
+        oldestTimestamp: metadata.length > 0 ? Math.min(...metadata.map((p) => p.timestamp)) : 0,
+        newestTimestamp: metadata.length > 0 ? Math.max(...metadata.map((p) => p.timestamp)) : 0,
+        lastAccessedTimestamp:
+          metadata.length > 0 ? Math.max(...metadata.map((p) => p.lastAccessed)) : 0,
+      };
+
+      // Approximate size calculation (metadata only estimation)
+      // This is much faster than loading full pages
+      metadata.forEach((meta) => {
+        stats.sizeBytes += estimatePageSizeBytes(meta);
+      });
+
+      // Cache the result
+      this.statsCache = stats;
+      this.statsCacheTimestamp = now;
+
+      return stats;
+    });
+  }
+
+  /**
+   * Current index generation
+   * Increases whenever a page is added, updated or deleted, a visit is recorded, the
+   * ANN index is retrained or a page's assignment changes, or the database is cleared.
+   * Query caches key on it, so results cached before a change are never served after it.
+   */
+  getIndexGeneration(): number {
+    return this.indexGeneration;
+  }
+
+  /**
+   * Invalidate stats cache (call when data changes)
+   */
+  private invalidateStatsCache(): void {
+    this.statsCache = null;
+    this.statsCacheTimestamp = 0;
+    loggers.vectorStore.debug('Stats cache invalidated');
+  }
+
+  /**
+   * Clear all data from the database (for testing)
+   */
+  async clearDatabase(): Promise<void> {
+    await this.initialize();
+
+    return new Promise((resolve, reject) => {
+      const storeNames = [
+        ...this._allStoreNames(),
+        ...this._annStoreNames(),
+        ...this._keywordStoreNames(),
+        this.config.visitStoreName,
+        this.config.versionStoreName,
+        this.config.searchLogStoreName,
+        this.config.impressionStoreName,
+      ];
+      const transaction = this.db!.transaction(storeNames, 'readwrite');
+      for (const storeName of storeNames) {
+        transaction.objectStore(storeName).clear();
+      }
+
+      this._invalidateVocabulary();
+
+      transaction.oncomplete = () => {
+        this.invalidateStatsCache();
+        this._bumpIndexGeneration();
+        loggers.vectorStore.debug('Database cleared');
+        resolve();
+      };
+
+      transaction.onerror = () => {
+        loggers.vectorStore.error('Failed to clear database:', transaction.error);
+        reject(new Error(`Failed to clear database: ${transaction.error}`));
+      };
+    });
+  }
+
+  /**
+   * Clear all data from the database (alias for clearDatabase)
+   */
+  async clearAll(): Promise<void> {
+    return this.clearDatabase();
+  }
+
+  /**
+   * Names of every object store that holds part of a page
+   */
+  private _allStoreNames(): string[] {
+    return [this.config.storeName, this.config.contentStoreName, this.config.vectorStoreName];
+  }
+
+  /**
+   * Names of the ANN index object stores
+   */
+  private _annStoreNames(): string[] {
+    return [this.config.annCentroidStoreName, this.config.annAssignmentStoreName];
+  }
+
+  /**
+   * Drop the cached keyword vocabulary and title words (and any load in flight)
+   */
+  private _invalidateVocabulary(): void {
+    this.vocabularyCache = null;
+    this.titleWordCache = null;
+    this.vocabularyGeneration++;
+  }
+
+  /**
+   * Mark every cached search result as stale and evict it
+   * (searches still running store under the old generation, which is never looked up)
+   */
+  private _bumpIndexGeneration(): void {
+    this.indexGeneration++;
+    globalCaches.queryCache.clear();
+  }
+
+  /**
+   * Names of the keyword inverted index object stores
+   */
+  private _keywordStoreNames(): string[] {
+    return [
+      this.config.keywordPostingStoreName,
+      this.config.keywordDocumentStoreName,
+      this.config.keywordStatsStoreName,
+    ];
+  }
+
+  /**
+   * Write keyword postings for a page (no existing entries, statistics not updated)
+   * @returns The page's keyword document
+   */
+  private _putKeywordEntries(transaction: IDBTransaction, page: IndexablePage): KeywordDocument {
+    const { document, postings } = buildKeywordEntries(page);
+    const postingStore = transaction.objectStore(this.config.keywordPostingStoreName);
+    for (const posting of postings) {
+      postingStore.put(posting);
+    }
+    transaction.objectStore(this.config.keywordDocumentStoreName).put(document);
+    return document;
+  }
+
+  /**
+   * Remove a page's existing keyword postings, then write new ones (if any)
+   * Keeps corpus statistics in sync; call at most once per transaction
+   */
+  private _replaceKeywordEntries(transaction: IDBTransaction, pageId: string, page: IndexablePage | null): void {
+    this._invalidateVocabulary();
+
+    const documentStore = transaction.objectStore(this.config.keywordDocumentStoreName);
+    const postingStore = transaction.objectStore(this.config.keywordPostingStoreName);
+    const statsStore = transaction.objectStore(this.config.keywordStatsStoreName);
+    const documentRequest = documentStore.get(pageId) as IDBRequest<KeywordDocument | undefined>;
+    const statsRequest = statsStore.get('corpus') as IDBRequest<KeywordStats | undefined>;
+
+    statsRequest.onsuccess = () => {
+      const previous = documentRequest.result;
+      const stats = statsRequest.result ?? createKeywordStats();
+
+      if (previous) {
+        for (const term of previous.terms) {
+          postingStore.delete([term, pageId]);
+        }
+        applyToKeywordStats(stats, previous, -1);
+      }
+
+      if (page) {
+        applyToKeywordStats(stats, this._putKeywordEntries(transaction, page), 1);
+      } else {
+        documentStore.delete(pageId);
+      }
+
+      statsStore.put(stats);
+    };
+  }
+
+  /**
+   * Capture the current state of a page as a version if an update replaces its content
+   * @returns The version to archive, or null if nothing needs archiving
+   */
+  private async _buildVersion(existing: PageRecord, updates: PageRecordUpdate): Promise<SerializedPageVersion | null> {
+    const isLaterVisit = updates.timestamp !== undefined && updates.timestamp !== existing.timestamp;
+    if (this.config.maxVersionsPerPage <= 0 || updates.content === undefined || !isLaterVisit || !existing.content) {
+      return null;
+    }
+
+    const [contentHash, nextHash] = await Promise.all([hashText(existing.content), hashText(updates.content)]);
+    if (contentHash === nextHash) {
+      return null;
+    }
+
+    const { content, vectors } = this._splitRecord(existing);
+    const embeddings = new Map(vectors.vectors.map(vector => [vector.passageId, vector.embedding]));
+
+    return {
+      id: generateUUID(),
+      pageId: existing.id,
+      url: existing.url,
+      title: existing.title,
+      content: existing.content,
+      contentHash,
+      passages: content.passages.map(passage => ({ ...passage, embedding: embeddings.get(passage.id) })),
+      embeddingSignature: vectors.signature ?? LEGACY_EMBEDDING_SIGNATURE,
+      capturedAt: existing.timestamp,
+      replacedAt: Date.now(),
+    };
+  }
+
+  /**
+   * Store a version, prune the oldest beyond maxVersionsPerPage and write the page's
+   * metadata with the resulting version count (same transaction)
+   */
+  private _archiveVersion(
+    transaction: IDBTransaction,
+    version: SerializedPageVersion,
+    metadata: SerializedPageMetadata
+  ): void {
+    const versionStore = transaction.objectStore(this.config.versionStoreName);
+    versionStore.put(version);
+
+    const request = versionStore.index('pageId').getAll(version.pageId);
+    request.onsuccess = () => {
+      const versions = (request.result as SerializedPageVersion[]).sort((a, b) => b.capturedAt - a.capturedAt);
+      for (const stale of versions.slice(this.config.maxVersionsPerPage)) {
+        versionStore.delete(stale.id);
+      }
+
+      const versionCount = Math.min(versions.length, this.config.maxVersionsPerPage);
+      transaction.objectStore(this.config.storeName).put({ ...metadata, versionCount });
+      loggers.vectorStore.debug(`Archived version of page ${version.pageId} (${versionCount} kept)`);
+    };
+  }
+
+  /**
+   * Read the raw metadata record for a page
+   */
+  private async _getMetadataRecord(id: string): Promise<SerializedPageMetadata | null> {
+    return new Promise((resolve, reject) => {
+      const transaction = this.db!.transaction([this.config.storeName], 'readonly');
+      const store = transaction.objectStore(this.config.storeName);
+      const request = store.get(id);
+
+      request.onsuccess = () => {
+        resolve(request.result ?? null);
+      };
+
+      request.onerror = () => {
+        loggers.vectorStore.error('Failed to get page metadata:', request.error);
+        reject(new Error(`Failed to get page metadata: ${request.error}`));
+      };
+    });
+  }
+
+  /**
+   * Split a page record into its metadata, content and vector parts for storage
+   * Chrome approach: Only passage embeddings are stored (title as passage #0)
+   */
+  private _splitRecord(record: PageRecord): {
+    metadata: SerializedPageMetadata;
+    content: SerializedPageContent;
+    vectors: SerializedPageVectors;
+  } {
+    const signature = record.embeddingSignature ?? LEGACY_EMBEDDING_SIGNATURE;
+
+    const metadata: SerializedPageMetadata = {
+      id: record.id,
+      url: record.url,
+      title: record.title,
+      passageCount: record.passages.length,
+      timestamp: record.timestamp,
+      dwellTime: record.dwellTime,
+      lastAccessed: record.lastAccessed,
+      visitCount: record.visitCount,
+      embeddingSignature: signature,
+      versionCount: record.versionCount ?? 0,
+      language: record.language,
+    };
+
+    const content: SerializedPageContent = {
+      pageId: record.id,
+      content: record.content,
+      passages: record.passages.map(({ embedding: _embedding, ...passage }) => passage),
+    };
+
+    // Serialize embeddings (convert Float32Array to ArrayBuffer)
+    const vectors: SerializedPageVectors = {
+      pageId: record.id,
+      signature,
+      vectors: record.passages
+        .filter(passage => passage.embedding)
+        .map(passage => ({
+          passageId: passage.id,
+          quality: passage.quality,
+          embedding: passage.embedding!.buffer.slice(
+            passage.embedding!.byteOffset,
+            passage.embedding!.byteOffset + passage.embedding!.byteLength
+          ) as ArrayBuffer,
+        })),
+    };
+
+    return { metadata, content, vectors };
+  }
+
+  /**
+   * Deserialize page metadata from storage
+   * Chrome approach: No embeddings in metadata, only passage count
+   */
+  private _deserializeMetadata(serialized: SerializedPageRecord | SerializedPageMetadata): PageMetadata {
+    // Calculate passage count from serialized data
+    const passageCount = 'passages' in serialized ? serialized.passages.length :
+                        'passageCount' in serialized ? serialized.passageCount : 0;
+
+    return {
       id: serialized.id,
       url: serialized.url,
       title: serialized.title,
@@ -460,24 +1949,57 @@ export class VectorStore {
       dwellTime: serialized.dwellTime,
       lastAccessed: serialized.lastAccessed,
       visitCount: serialized.visitCount ?? 1, // Default to 1 for migration
+      embeddingSignature: ('embeddingSignature' in serialized && serialized.embeddingSignature) || LEGACY_EMBEDDING_SIGNATURE,
+      versionCount: ('versionCount' in serialized && serialized.versionCount) || 0,
+      language: 'language' in serialized ? serialized.language : undefined,
+    };
+  }
+
+  /**
+   * Deserialize an archived page version (convert ArrayBuffer embeddings back to Float32Array)
+   */
+  private _deserializeVersion(serialized: SerializedPageVersion): PageVersion {
+    return {
+      ...serialized,
+      passages: serialized.passages.map(passage => ({
+        ...passage,
+        embedding: passage.embedding ? new Float32Array(passage.embedding) : undefined,
+      })),
     };
   }
 
   /**
-   * Deserialize a page record from storage
-   * Chrome approach: Only deserialize passage embeddings
+   * Join the stored parts of a page back into a full record
+   * Passages without a stored vector come back without an embedding
    */
-  private _deserializeRecord(serialized: SerializedPageRecord): PageRecord {
-    // Deserialize passages (convert ArrayBuffer embeddings back to Float32Array)
-    const passages = serialized.passages.map(passage => ({
+  private _joinRecord(
+    metadata: SerializedPageMetadata,
+    content: SerializedPageContent | undefined,
+    vectors: SerializedPageVectors | undefined
+  ): PageRecord {
+    // Deserialize embeddings (convert ArrayBuffer back to Float32Array)
+    const embeddings = new Map<string, Float32Array>(
+      (vectors?.vectors ?? []).map(vector => [vector.passageId, new Float32Array(vector.embedding)])
+    );
+
+    const passages: Passage[] = (content?.passages ?? []).map(passage => ({
       ...passage,
-      embedding: passage.embedding ? new Float32Array(passage.embedding) : undefined,
+      embedding: embeddings.get(passage.id),
     }));
 
     return {
-      ...serialized,
+      id: metadata.id,
+      url: metadata.url,
+      title: metadata.title,
+      content: content?.content ?? '',
       passages,
-      visitCount: serialized.visitCount ?? 1, // Default to 1 for migration
+      timestamp: metadata.timestamp,
+      dwellTime: metadata.dwellTime,
+      lastAccessed: metadata.lastAccessed,
+      visitCount: metadata.visitCount ?? 1, // Default to 1 for migration
+      embeddingSignature: metadata.embeddingSignature ?? LEGACY_EMBEDDING_SIGNATURE,
+      versionCount: metadata.versionCount ?? 0,
+      language: metadata.language,
     };
   }
 
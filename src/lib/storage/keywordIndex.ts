@@ -0,0 +1,97 @@
+/**
+ * Keyword Index - builds inverted index entries for a page
+ *
+ * Fields are analyzed with the analyzer of the page's language (see analyzers.ts),
+ * which produces the same terms analyzeQuery expands query words to. Each unique
+ * term gets one posting with its token positions per field; VectorStore writes
+ * the postings alongside the page so keyword search never re-tokenizes the corpus.
+ */
+
+import type { KeywordDocument, KeywordField, KeywordPosting, KeywordStats } from './types';
+import { getAnalyzer } from '../utils/analyzers';
+import { TEXT_PROCESSING } from '../constants/contentSelectors';
+
+/**
+ * Text needed to index a page
+ */
+export interface IndexablePage {
+  id: string;
+  title: string;
+  url: string;
+  content: string;
+  passages: Array<{ text: string }>;
+  language?: string;
+}
+
+/**
+ * Tokenize every indexed field of a page
+ */
+export function tokenizeFields(page: IndexablePage): Record<KeywordField, string[]> {
+  const analyzer = getAnalyzer(page.language);
+  const tokenize = (text: string) => analyzer.analyze(text).map(token => token.term);
+
+  return {
+    title: tokenize(page.title),
+    summary: tokenize(page.passages.map(p => p.text).join(' ')),
+    // URLs are language-neutral
+    url: getAnalyzer().analyze(page.url).map(token => token.term),
+    content: tokenize(page.content.substring(0, TEXT_PROCESSING.MAX_CONTENT_LENGTH)),
+  };
+}
+
+/**
+ * Build the keyword document and postings for a page
+ * @param page Page text
+ * @returns Document entry and one posting per unique term
+ */
+export function buildKeywordEntries(page: IndexablePage): {
+  document: KeywordDocument;
+  postings: KeywordPosting[];
+} {
+  const fields = tokenizeFields(page);
+  const fieldLengths: Record<KeywordField, number> = {
+    title: fields.title.length,
+    summary: fields.summary.length,
+    url: fields.url.length,
+    content: fields.content.length,
+  };
+
+  const postings = new Map<string, KeywordPosting>();
+
+  for (const field of Object.keys(fields) as KeywordField[]) {
+    fields[field].forEach((term, position) => {
+      let posting = postings.get(term);
+      if (!posting) {
+        posting = { term, pageId: page.id, positions: {}, fieldLengths };
+        postings.set(term, posting);
+      }
+      (posting.positions[field] ??= []).push(position);
+    });
+  }
+
+  return {
+    document: { pageId: page.id, terms: [...postings.keys()], fieldLengths },
+    postings: [...postings.values()],
+  };
+}
+
+/**
+ * Empty corpus statistics
+ */
+export function createKeywordStats(): KeywordStats {
+  return {
+    id: 'corpus',
+    documentCount: 0,
+    fieldLengthTotals: { title: 0, summary: 0, url: 0, content: 0 },
+  };
+}
+
+/**
+ * Add (sign = 1) or remove (sign = -1) a document from corpus statistics in place
+ */
+export function applyToKeywordStats(stats: KeywordStats, document: KeywordDocument, sign: 1 | -1): void {
+  stats.documentCount += sign;
+  for (const field of Object.keys(stats.fieldLengthTotals) as KeywordField[]) {
+    stats.fieldLengthTotals[field] += sign * (document.fieldLengths[field] ?? 0);
+  }
+}
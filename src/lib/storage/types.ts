@@ -32,6 +32,21 @@ export interface Passage {
   };
 }
 
+/**
+ * Identifies the configuration that produced a set of passage embeddings
+ * Vectors with different signatures must not be compared
+ */
+export interface EmbeddingSignature {
+  /** Embedding model name */
+  model: string;
+
+  /** Embedding dimension (Matryoshka truncation) */
+  dimensions: number;
+
+  /** Version of the task prompt prefixes */
+  promptVersion: number;
+}
+
 /**
  * Lightweight page metadata for fast search operations
  * Chrome approach: No page-level embeddings, metadata only
@@ -49,10 +64,10 @@ export interface PageMetadata {
   /** Number of passages for this page */
   passageCount: number;
 
-  /** Visit timestamp (ms since epoch) */
+  /** Most recent visit timestamp (ms since epoch); full timeline in the visits store */
   timestamp: number;
 
-  /** Time spent on page in seconds */
+  /** Time spent on page during the most recent visit in seconds */
   dwellTime: number;
 
   /** Last time this page was accessed from search results (ms since epoch) */
@@ -60,6 +75,15 @@ export interface PageMetadata {
 
   /** Number of times this URL has been visited */
   visitCount: number;
+
+  /** Signature of the page's passage embeddings */
+  embeddingSignature: EmbeddingSignature;
+
+  /** Number of archived prior versions of the page content */
+  versionCount: number;
+
+  /** Detected content language (ISO 639-1); undefined when unknown */
+  language?: string;
 }
 
 /**
@@ -86,10 +110,10 @@ export interface PageRecord {
    */
   passages: Passage[];
 
-  /** Visit timestamp (ms since epoch) */
+  /** Most recent visit timestamp (ms since epoch); full timeline in the visits store */
   timestamp: number;
 
-  /** Time spent on page in seconds */
+  /** Time spent on page during the most recent visit in seconds */
   dwellTime: number;
 
   /** Last time this page was accessed from search results (ms since epoch) */
@@ -97,6 +121,287 @@ export interface PageRecord {
 
   /** Number of times this URL has been visited */
   visitCount: number;
+
+  /**
+   * Signature of the passage embeddings
+   * Omitted when adding pages without embeddings; unstamped records read back as the legacy signature
+   */
+  embeddingSignature?: EmbeddingSignature;
+
+  /** Number of archived prior versions (maintained by the store) */
+  versionCount?: number;
+
+  /** Detected content language (ISO 639-1); selects the keyword analyzer */
+  language?: string;
+}
+
+/**
+ * A prior version of a page, archived when a revisit finds changed content
+ */
+export interface PageVersion {
+  /** Unique identifier */
+  id: string;
+
+  /** Owning page ID */
+  pageId: string;
+
+  /** URL and title at the time the version was captured */
+  url: string;
+  title: string;
+
+  /** Raw extracted text of the version */
+  content: string;
+
+  /** SHA-256 (hex) of the content */
+  contentHash: string;
+
+  /** Passages with their embeddings as they were indexed */
+  passages: Passage[];
+
+  /** Signature of the passage embeddings */
+  embeddingSignature: EmbeddingSignature;
+
+  /** When the version was indexed (the page timestamp at the time) */
+  capturedAt: number;
+
+  /** When a newer version replaced it */
+  replacedAt: number;
+}
+
+/**
+ * A single visit to a page (one row per page load)
+ */
+export interface PageVisit {
+  /** Unique identifier (assigned when the page loads) */
+  id: string;
+
+  /** Visited page ID */
+  pageId: string;
+
+  /** URL as loaded (may differ from the page URL by query or fragment) */
+  url: string;
+
+  /** Visit start (ms since epoch) */
+  startTime: number;
+
+  /** Time spent on the page during this visit in seconds (0 until the user navigates away) */
+  dwellTime: number;
+
+  /** Tab and window the visit happened in (-1 when unknown) */
+  tabId: number;
+  windowId: number;
+
+  /** webNavigation transition type ('link', 'typed', 'reload', ...) or 'unknown' */
+  transitionType: string;
+}
+
+/**
+ * A logged search query with its outcomes (one record per normalized query)
+ */
+export interface SearchLogEntry {
+  /** Normalized query (lowercased, whitespace collapsed); the record key */
+  key: string;
+
+  /** Query as last typed */
+  query: string;
+
+  /** Times the query was run */
+  searchCount: number;
+
+  /** Results returned the last time it ran */
+  resultCount: number;
+
+  /** First and last time it ran (ms since epoch) */
+  firstSearched: number;
+  lastSearched: number;
+
+  /** Results opened from this query */
+  clickCount: number;
+
+  /** Pages opened from this query, most recent first */
+  clickedPageIds: string[];
+
+  /** When the query was saved (ms since epoch); 0 when not saved */
+  pinnedAt: number;
+}
+
+/**
+ * Ranking signals of a search result (1-based ranks among the ranked candidates)
+ * Kept with impressions so feedback can re-rank results under other weights
+ */
+export interface RankingFeatures {
+  /** Rank in the semantic and keyword lists (hybrid mode; absent when not in that list) */
+  semanticRank?: number;
+  keywordRank?: number;
+
+  /** First-stage rank (before recency and frequency) */
+  rank: number;
+
+  /** Rank by latest visit (pages not visited within recencyDecayDays share the last rank) */
+  recencyRank: number;
+
+  /** Rank by visit count (pages visited once share the last rank) */
+  frequencyRank: number;
+}
+
+/**
+ * Results shown for one search and the ones opened from it
+ */
+export interface SearchImpression {
+  /** Impression ID (UUID) */
+  id: string;
+
+  query: string;
+  mode: 'semantic' | 'keyword' | 'hybrid';
+
+  /** When the results were shown (ms since epoch) */
+  timestamp: number;
+
+  /** Shown results in display order */
+  results: Array<{ pageId: string; features: RankingFeatures }>;
+
+  /** Pages opened from these results, in click order */
+  clickedPageIds: string[];
+}
+
+/**
+ * A word of an indexed page title (entries of the title prefix index)
+ */
+export interface TitleWord {
+  /** Normalized word (see utils/analyzers normalizeWord) */
+  word: string;
+  pageId: string;
+}
+
+/**
+ * Aggregated visit timeline of a page
+ */
+export interface VisitSummary {
+  /** Page ID */
+  pageId: string;
+
+  /** Number of recorded visits */
+  visitCount: number;
+
+  /** First and most recent visit start (ms since epoch) */
+  firstVisit: number;
+  lastVisit: number;
+
+  /** Total time spent on the page across visits in seconds */
+  totalDwellTime: number;
+
+  /** Visits in chronological order */
+  visits: PageVisit[];
+}
+
+/**
+ * Passage embedding with the minimal fields needed for scoring
+ * Stored separately from passage text so search can stream vectors only
+ */
+export interface PassageVector {
+  /** Passage identifier (matches Passage.id) */
+  passageId: string;
+
+  /** Quality score of the passage (0-1) */
+  quality: number;
+
+  /** Normalized embedding vector */
+  embedding: Float32Array;
+}
+
+/**
+ * All passage vectors belonging to a single page
+ */
+export interface PageVectors {
+  /** Owning page ID */
+  pageId: string;
+
+  /** Passage vectors in passage order */
+  vectors: PassageVector[];
+
+  /** Signature shared by all of the page's vectors */
+  signature: EmbeddingSignature;
+}
+
+/**
+ * ANN index posting for a single page
+ * A page is posted to every inverted list one of its passages falls into
+ */
+export interface AnnAssignment {
+  /** Page ID */
+  pageId: string;
+
+  /** Inverted list IDs (centroid indexes) the page's passages were assigned to */
+  listIds: number[];
+
+  /** Number of passage vectors assigned */
+  vectorCount: number;
+}
+
+/**
+ * Fields covered by the keyword inverted index
+ * 'summary' holds the joined passage text (matches FIELD_WEIGHTS)
+ */
+export type KeywordField = 'title' | 'summary' | 'url' | 'content';
+
+/**
+ * Keyword index posting for a single term in a single page
+ */
+export interface KeywordPosting {
+  /** Normalized term */
+  term: string;
+
+  /** Page ID */
+  pageId: string;
+
+  /** Token positions of the term in each field it occurs in */
+  positions: Partial<Record<KeywordField, number[]>>;
+
+  /** Token count of every field of the page (for TF normalization) */
+  fieldLengths: Record<KeywordField, number>;
+}
+
+/**
+ * Keyword index entry for a page
+ * Lists the page's terms so its postings can be removed on update/delete
+ */
+export interface KeywordDocument {
+  /** Page ID */
+  pageId: string;
+
+  /** Unique terms posted for the page */
+  terms: string[];
+
+  /** Token count of every field of the page */
+  fieldLengths: Record<KeywordField, number>;
+}
+
+/**
+ * Keyword index corpus statistics (single record, kept in sync on every write)
+ */
+export interface KeywordStats {
+  /** Record key */
+  id: 'corpus';
+
+  /** Number of indexed pages */
+  documentCount: number;
+
+  /** Sum of field token counts over all indexed pages */
+  fieldLengthTotals: Record<KeywordField, number>;
+}
+
+/**
+ * Result of looking up query terms in the keyword index
+ */
+export interface KeywordLookup {
+  /** Number of indexed pages (for IDF) */
+  totalDocuments: number;
+
+  /** Average token count per field (for BM25F length normalization) */
+  averageFieldLengths: Record<KeywordField, number>;
+
+  /** Postings per term (document frequency = postings length) */
+  postings: Map<string, KeywordPosting[]>;
 }
 
 /**
@@ -134,8 +439,42 @@ export interface DatabaseConfig {
   /** Database version */
   version: number;
 
-  /** Object store name */
+  /** Object store name for page metadata */
   storeName: string;
+
+  /** Object store name for raw content and passage text */
+  contentStoreName: string;
+
+  /** Object store name for passage embeddings */
+  vectorStoreName: string;
+
+  /** Object store name for ANN index centroids */
+  annCentroidStoreName: string;
+
+  /** Object store name for ANN index page-to-list assignments */
+  annAssignmentStoreName: string;
+
+  /** Object store name for keyword index postings (term, page) */
+  keywordPostingStoreName: string;
+
+  /** Object store name for keyword index per-page term lists */
+  keywordDocumentStoreName: string;
+
+  /** Object store name for keyword index corpus statistics */
+  keywordStatsStoreName: string;
+
+  /** Object store name for the per-visit history log */
+  visitStoreName: string;
+
+  /** Object store name for archived page versions */
+  versionStoreName: string;
+
+  /** Object store name for the search query log */
+  searchLogStoreName: string;
+  impressionStoreName: string;
+
+  /** Prior versions kept per page (0 disables versioning) */
+  maxVersionsPerPage: number;
 }
 
 /**
@@ -168,11 +507,14 @@ export interface SerializedPageMetadata {
   dwellTime: number;
   lastAccessed: number;
   visitCount: number;
+  embeddingSignature?: EmbeddingSignature;
+  versionCount?: number;
+  language?: string;
 }
 
 /**
- * Serialized page record for IndexedDB storage
- * Chrome approach: Only passage embeddings (title as passage #0)
+ * Serialized page record as stored before the v7 store split
+ * Only read during migration; new data is split across metadata, content and vector stores
  */
 export interface SerializedPageRecord {
   id: string;
@@ -185,3 +527,41 @@ export interface SerializedPageRecord {
   lastAccessed: number;
   visitCount: number;
 }
+
+/**
+ * Serialized page content for IndexedDB storage
+ * Holds raw text and passages without their embeddings
+ */
+export interface SerializedPageContent {
+  pageId: string;
+  content: string;
+  passages: Omit<SerializedPassage, 'embedding'>[];
+}
+
+/**
+ * Serialized passage vectors for IndexedDB storage
+ */
+export interface SerializedPageVectors {
+  pageId: string;
+  signature?: EmbeddingSignature;
+  vectors: Array<{
+    passageId: string;
+    quality: number;
+    embedding: ArrayBuffer;
+  }>;
+}
+
+/**
+ * Serialized page version for IndexedDB storage
+ */
+export interface SerializedPageVersion extends Omit<PageVersion, 'passages'> {
+  passages: SerializedPassage[];
+}
+
+/**
+ * Serialized ANN centroid for IndexedDB storage
+ */
+export interface SerializedAnnCentroid {
+  listId: number;
+  centroid: ArrayBuffer;
+}
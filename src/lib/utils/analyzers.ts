@@ -0,0 +1,211 @@
+/**
+ * Text analyzers - language-aware tokenization for the keyword index
+ *
+ * An analyzer splits text into normalized terms with their character offsets:
+ * - European languages: Unicode letter/digit runs, lowercased, diacritics folded,
+ *   stop words removed, then stemmed (en, de, fr, es, it, pt, nl)
+ * - Chinese, Japanese, Korean and Thai: Intl.Segmenter word segmentation; Latin
+ *   words inside them are analyzed as English
+ *
+ * Pages are indexed with the analyzer of their language (unknown languages use
+ * English). Queries are too short to detect a language reliably, so analyzeQuery
+ * expands each query word to its stem in every European analyzer.
+ */
+
+import { STOP_WORDS, ENGLISH_STOP_WORDS } from './stopWords';
+import { STEMMERS, type Stemmer } from './stemmers';
+
+/**
+ * Term and the range of text it came from (start inclusive, end exclusive)
+ */
+export interface AnalyzedToken {
+  term: string;
+  start: number;
+  end: number;
+}
+
+/**
+ * Splits text of one language into index terms
+ */
+export interface Analyzer {
+  /** Language code (ISO 639-1) */
+  language: string;
+
+  analyze(text: string): AnalyzedToken[];
+}
+
+/**
+ * Query word with the index terms it may appear as
+ */
+export interface QueryTerm {
+  /** Normalized word as typed (lowercased, diacritics folded) */
+  word: string;
+
+  /** Distinct index terms for the word, English stem first */
+  variants: string[];
+}
+
+export const DEFAULT_LANGUAGE = 'en';
+
+// Shorter words in space-delimited scripts are not indexed
+const MIN_WORD_LENGTH = 3;
+
+const WORD_PATTERN = /[\p{L}\p{N}]+/gu;
+const LATIN_WORD_PATTERN = /^[\p{Script=Latin}\p{N}]+$/u;
+const SEGMENTED_SCRIPTS: ReadonlyArray<readonly [language: string, pattern: RegExp]> = [
+  ['ja', /[\p{Script=Hiragana}\p{Script=Katakana}]/u],
+  ['ko', /\p{Script=Hangul}/u],
+  ['th', /\p{Script=Thai}/u],
+  ['zh', /\p{Script=Han}/u],
+];
+
+const analyzers = new Map<string, Analyzer>();
+
+/**
+ * Lowercase and strip diacritics (é → e, ß → ss)
+ */
+export function normalizeWord(word: string): string {
+  return word.toLowerCase().normalize('NFD').replace(/\p{M}/gu, '').replace(/ß/g, 'ss');
+}
+
+/**
+ * Primary language subtag of a BCP 47 tag ('en-US' → 'en'), or undefined
+ */
+export function normalizeLanguage(language: string | undefined): string | undefined {
+  const primary = language?.trim().toLowerCase().split(/[-_]/)[0];
+  return primary && /^[a-z]{2,3}$/.test(primary) ? primary : undefined;
+}
+
+/**
+ * Normalize, drop stop words and short words, then stem
+ */
+function analyzeWord(word: string, stopWords: ReadonlySet<string>, stem: Stemmer): string | null {
+  const normalized = normalizeWord(word);
+  if (normalized.length < MIN_WORD_LENGTH || stopWords.has(normalized)) {
+    return null;
+  }
+  return stem(normalized);
+}
+
+/**
+ * Analyzer for a space-delimited language
+ */
+export function createWordAnalyzer(language: string): Analyzer {
+  const stopWords = STOP_WORDS[language] ?? new Set<string>();
+  const stem = STEMMERS[language] ?? ((word: string) => word);
+
+  return {
+    language,
+    analyze(text) {
+      const tokens: AnalyzedToken[] = [];
+      for (const match of text.matchAll(WORD_PATTERN)) {
+        const term = analyzeWord(match[0], stopWords, stem);
+        if (term) {
+          tokens.push({ term, start: match.index!, end: match.index! + match[0].length });
+        }
+      }
+      return tokens;
+    },
+  };
+}
+
+/**
+ * Analyzer for a language written without spaces (dictionary word segmentation)
+ */
+export function createSegmentingAnalyzer(language: string): Analyzer {
+  const stopWords = STOP_WORDS[language] ?? new Set<string>();
+  let segmenter: Intl.Segmenter | null = null;
+
+  return {
+    language,
+    analyze(text) {
+      segmenter ??= new Intl.Segmenter(language, { granularity: 'word' });
+
+      const tokens: AnalyzedToken[] = [];
+      for (const { segment, index, isWordLike } of segmenter.segment(text)) {
+        if (!isWordLike) {
+          continue;
+        }
+
+        const term = LATIN_WORD_PATTERN.test(segment)
+          ? analyzeWord(segment, ENGLISH_STOP_WORDS, STEMMERS.en)
+          : stopWords.has(segment) ? null : segment.toLowerCase();
+        if (term) {
+          tokens.push({ term, start: index, end: index + segment.length });
+        }
+      }
+      return tokens;
+    },
+  };
+}
+
+/**
+ * Register (or replace) the analyzer for a language
+ */
+export function registerAnalyzer(analyzer: Analyzer): void {
+  analyzers.set(analyzer.language, analyzer);
+}
+
+/**
+ * Analyzer for a language (English for unknown or missing languages)
+ */
+export function getAnalyzer(language?: string): Analyzer {
+  return analyzers.get(normalizeLanguage(language) ?? DEFAULT_LANGUAGE) ?? analyzers.get(DEFAULT_LANGUAGE)!;
+}
+
+/**
+ * Analyze text as index terms of a language
+ */
+export function analyze(text: string, language?: string): string[] {
+  return getAnalyzer(language).analyze(text).map(token => token.term);
+}
+
+/**
+ * Language whose segmenter should split the text, if it uses a script written without spaces
+ */
+function segmentedLanguageOf(text: string): string | undefined {
+  return SEGMENTED_SCRIPTS.find(([, pattern]) => pattern.test(text))?.[0];
+}
+
+/**
+ * Analyze a search query
+ * Latin-script words expand to their stem in every European analyzer; English
+ * stop words are dropped. Words of other scripts are segmented like pages.
+ */
+export function analyzeQuery(text: string): QueryTerm[] {
+  const segmentedLanguage = segmentedLanguageOf(text);
+  const words = segmentedLanguage
+    ? getAnalyzer(segmentedLanguage).analyze(text).map(token => text.slice(token.start, token.end))
+    : [...text.matchAll(WORD_PATTERN)].map(match => match[0]);
+
+  const terms: QueryTerm[] = [];
+  for (const word of words) {
+    if (!LATIN_WORD_PATTERN.test(word)) {
+      const term = word.toLowerCase();
+      terms.push({ word: term, variants: [term] });
+      continue;
+    }
+
+    const normalized = normalizeWord(word);
+    if (normalized.length < MIN_WORD_LENGTH || ENGLISH_STOP_WORDS.has(normalized)) {
+      continue;
+    }
+
+    const variants = new Set<string>();
+    for (const [language, stem] of Object.entries(STEMMERS)) {
+      if (language === DEFAULT_LANGUAGE || !STOP_WORDS[language]?.has(normalized)) {
+        variants.add(stem(normalized));
+      }
+    }
+    terms.push({ word: normalized, variants: [...variants] });
+  }
+
+  return terms;
+}
+
+for (const language of Object.keys(STEMMERS)) {
+  registerAnalyzer(createWordAnalyzer(language));
+}
+for (const [language] of SEGMENTED_SCRIPTS) {
+  registerAnalyzer(createSegmentingAnalyzer(language));
+}
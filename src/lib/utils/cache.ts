@@ -165,11 +165,17 @@ export const globalCaches = {
 
 /**
  * Cache key generators
+ * Search keys include the index generation (VectorStore.getIndexGeneration) read
+ * before the search, so entries written by a search that raced an index change
+ * are never hit. queryCache holds search results only and is cleared on every change.
  */
 export const cacheKeys = {
-  searchQuery: (query: string, options: any) => `search:${query}:${JSON.stringify(options)}`,
-  vectorSearch: (embeddingHash: string, options: any) => `vector:${embeddingHash}:${JSON.stringify(options)}`,
-  keywordSearch: (query: string, options: any) => `keyword:${query}:${JSON.stringify(options)}`,
+  searchQuery: (query: string, options: any, generation: number) =>
+    `search:${generation}:${query}:${JSON.stringify(options)}`,
+  vectorSearch: (embeddingHash: string, options: any, generation: number) =>
+    `vector:${generation}:${embeddingHash}:${JSON.stringify(options)}`,
+  keywordSearch: (query: string, options: any, generation: number) =>
+    `keyword:${generation}:${query}:${JSON.stringify(options)}`,
   pageMetadata: (pageId: string) => `metadata:${pageId}`,
   dbStats: () => 'stats:db',
   embedding: (text: string) => `embedding:${text.slice(0, 100)}`, // First 100 chars as key
@@ -0,0 +1,69 @@
+/**
+ * Language detection for extracted page text
+ *
+ * Scripts written without spaces are recognized by their characters. Latin-script
+ * text is attributed to the language whose stop words it uses most; the page's
+ * declared language (<html lang>) is used when the text is inconclusive.
+ */
+
+import { STOP_WORDS } from './stopWords';
+import { normalizeLanguage, normalizeWord } from './analyzers';
+
+// Characters of text sampled for detection
+const SAMPLE_LENGTH = 4000;
+
+// Stop word hits needed, and the lead over the runner-up, to trust a Latin guess
+const MIN_STOP_WORD_HITS = 5;
+const MIN_LEAD_RATIO = 1.5;
+
+const SCRIPT_PATTERNS: ReadonlyArray<readonly [language: string, pattern: RegExp]> = [
+  ['ja', /[\p{Script=Hiragana}\p{Script=Katakana}]/gu],
+  ['ko', /\p{Script=Hangul}/gu],
+  ['th', /\p{Script=Thai}/gu],
+  ['zh', /\p{Script=Han}/gu],
+];
+
+/**
+ * Detect the language of page text
+ * @param text Extracted text
+ * @param declared Declared language tag (e.g. document.documentElement.lang)
+ * @returns Language code (ISO 639-1), or undefined when unknown
+ */
+export function detectLanguage(text: string, declared?: string): string | undefined {
+  const sample = text.slice(0, SAMPLE_LENGTH);
+  const declaredLanguage = normalizeLanguage(declared);
+  const letterCount = (sample.match(/\p{L}/gu) ?? []).length;
+  if (letterCount === 0) {
+    return declaredLanguage;
+  }
+
+  // Japanese mixes kana into Han text, so any notable kana share means Japanese
+  const scriptCounts = SCRIPT_PATTERNS.map(([language, pattern]) => [language, (sample.match(pattern) ?? []).length] as const);
+  const kana = scriptCounts[0][1];
+  if (kana / letterCount > 0.05) {
+    return 'ja';
+  }
+  for (const [language, count] of scriptCounts.slice(1)) {
+    if (count / letterCount > 0.3) {
+      // Han alone cannot tell Chinese from Japanese without kana
+      return language === 'zh' && declaredLanguage === 'ja' ? 'ja' : language;
+    }
+  }
+
+  const hits = new Map<string, number>();
+  for (const match of sample.matchAll(/\p{L}+/gu)) {
+    const word = normalizeWord(match[0]);
+    for (const [language, stopWords] of Object.entries(STOP_WORDS)) {
+      if (stopWords.has(word)) {
+        hits.set(language, (hits.get(language) ?? 0) + 1);
+      }
+    }
+  }
+
+  const [best, runnerUp] = [...hits.entries()].sort((a, b) => b[1] - a[1]);
+  if (best && best[1] >= MIN_STOP_WORD_HITS && best[1] >= (runnerUp?.[1] ?? 0) * MIN_LEAD_RATIO) {
+    return best[0];
+  }
+
+  return declaredLanguage;
+}
@@ -91,7 +91,12 @@ export class Logger {
       return result;
     } catch (error) {
       this.timeEnd(label);
-      this.error(`${label} failed:`, error);
+      // Cancelled work (AbortSignal) is not a failure
+      if ((error as Error)?.name === 'AbortError') {
+        this.debug(`${label} cancelled`);
+      } else {
+        this.error(`${label} failed:`, error);
+      }
       throw error;
     }
   }
@@ -112,8 +117,13 @@ export const loggers = {
   keywordSearch: createLogger('KeywordSearch'),
   hybridSearch: createLogger('HybridSearch'),
   vectorStore: createLogger('VectorStore'),
+  annIndex: createLogger('AnnIndex'),
   embeddingService: createLogger('EmbeddingService'),
   indexingPipeline: createLogger('IndexingPipeline'),
+  indexImporter: createLogger('IndexImporter'),
+  reembeddingJob: createLogger('ReembeddingJob'),
+  retentionManager: createLogger('RetentionManager'),
+  rankingTuner: createLogger('RankingTuner'),
   contentExtractor: createLogger('ContentExtractor'),
   documentChunker: createLogger('DocumentChunker'),
   background: createLogger('Background'),
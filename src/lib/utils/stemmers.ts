@@ -0,0 +1,125 @@
+/**
+ * Light stemmers for major European languages
+ *
+ * Each strips one inflectional or derivational suffix so that variants share a
+ * term ("deploying", "deployment" → "deploy"). They are deliberately light: a
+ * missed conflation costs some recall, an aggressive one mixes unrelated words.
+ * Input is lowercased and diacritic-folded.
+ */
+
+/**
+ * Reduce a word to its stem
+ */
+export type Stemmer = (word: string) => string;
+
+/**
+ * Suffix and its replacement
+ */
+type SuffixRule = readonly [suffix: string, replacement: string];
+
+/**
+ * Stemmer that applies the first matching rule (list longer suffixes first)
+ * @param minStem Shortest stem a rule may leave
+ */
+function suffixStemmer(rules: readonly SuffixRule[], minStem: number): Stemmer {
+  return (word) => {
+    for (const [suffix, replacement] of rules) {
+      if (word.endsWith(suffix) && word.length - suffix.length >= minStem) {
+        return word.slice(0, word.length - suffix.length) + replacement;
+      }
+    }
+    return word;
+  };
+}
+
+const VOWELS = /[aeiouy]/;
+
+/**
+ * English: plurals, then -ing/-ed/-ly/-ment/-ness, then a final -e
+ */
+function englishStem(word: string): string {
+  if (word.length <= 3) {
+    return word;
+  }
+
+  let stem = word;
+
+  // Plurals and third person
+  if (stem.endsWith('sses')) {
+    stem = stem.slice(0, -2);
+  } else if (stem.endsWith('ies') || stem.endsWith('ied')) {
+    stem = stem.length > 4 ? `${stem.slice(0, -3)}y` : stem.slice(0, -1);
+  } else if (stem.endsWith('s') && !/(ss|us|is)$/.test(stem)) {
+    stem = stem.slice(0, -1);
+  }
+
+  // Derivational and verbal suffixes (the remaining stem must keep a vowel)
+  for (const suffix of ['ingly', 'edly', 'ment', 'ness', 'ing', 'ed', 'ly']) {
+    const rest = stem.slice(0, -suffix.length);
+    if (stem.endsWith(suffix) && rest.length >= 3 && VOWELS.test(rest)) {
+      stem = rest;
+      // running → run, but keep -ll, -ss and -zz (install, pass, buzz)
+      if (/([^aeiouylsz])\1$/.test(stem)) {
+        stem = stem.slice(0, -1);
+      }
+      break;
+    }
+  }
+
+  // make/making, require/required
+  if (stem.length > 4 && stem.endsWith('e')) {
+    stem = stem.slice(0, -1);
+  }
+
+  return stem;
+}
+
+/**
+ * Stemmers by language code (ISO 639-1)
+ */
+export const STEMMERS: Readonly<Record<string, Stemmer>> = {
+  en: englishStem,
+  de: suffixStemmer(
+    [['ungen', 'ung'], ['heiten', 'heit'], ['keiten', 'keit'], ['ern', ''], ['em', ''], ['en', ''], ['er', ''], ['es', ''], ['e', ''], ['s', ''], ['n', '']],
+    4
+  ),
+  fr: suffixStemmer(
+    [
+      ['issements', ''], ['issement', ''], ['ations', ''], ['ation', ''], ['ements', ''], ['ement', ''],
+      ['ments', ''], ['ment', ''], ['euses', ''], ['euse', ''], ['eaux', 'eau'], ['aux', 'al'], ['eux', ''],
+      ['ees', ''], ['ee', ''], ['es', ''], ['er', ''], ['ez', ''], ['e', ''], ['s', ''], ['x', ''],
+    ],
+    3
+  ),
+  es: suffixStemmer(
+    [
+      ['amientos', ''], ['imientos', ''], ['amiento', ''], ['imiento', ''], ['aciones', ''], ['acion', ''],
+      ['mente', ''], ['ando', ''], ['iendo', ''], ['adas', ''], ['idas', ''], ['ados', ''], ['idos', ''],
+      ['ada', ''], ['ida', ''], ['ado', ''], ['ido', ''], ['es', ''], ['os', ''], ['as', ''], ['ar', ''],
+      ['er', ''], ['ir', ''], ['a', ''], ['o', ''], ['e', ''], ['s', ''],
+    ],
+    3
+  ),
+  it: suffixStemmer(
+    [
+      ['azioni', ''], ['azione', ''], ['amenti', ''], ['amento', ''], ['imenti', ''], ['imento', ''],
+      ['mente', ''], ['ando', ''], ['endo', ''], ['ate', ''], ['ati', ''], ['ato', ''], ['ata', ''],
+      ['ite', ''], ['iti', ''], ['ito', ''], ['ita', ''], ['are', ''], ['ere', ''], ['ire', ''],
+      ['i', ''], ['e', ''], ['o', ''], ['a', ''],
+    ],
+    3
+  ),
+  pt: suffixStemmer(
+    [
+      ['amentos', ''], ['amento', ''], ['acoes', ''], ['acao', ''], ['mente', ''], ['ando', ''], ['endo', ''],
+      ['indo', ''], ['adas', ''], ['idas', ''], ['ados', ''], ['idos', ''], ['ada', ''], ['ida', ''],
+      ['ado', ''], ['ido', ''], ['ar', ''], ['er', ''], ['ir', ''], ['es', ''], ['os', ''], ['as', ''],
+      ['a', ''], ['o', ''], ['e', ''], ['s', ''],
+    ],
+    3
+  ),
+  nl: suffixStemmer(
+    [['heden', 'heid'], ['ingen', ''], ['ing', ''], ['lijk', ''], ['en', ''], ['er', ''], ['e', ''], ['s', '']],
+    3
+  ),
+};
@@ -0,0 +1,73 @@
+/**
+ * Stop words per language
+ * Terms too common to rank on; matched after lowercasing and diacritic folding
+ */
+
+/**
+ * English stop words (the historical keyword search list)
+ */
+export const ENGLISH_STOP_WORDS: ReadonlySet<string> = new Set([
+  'the', 'a', 'an', 'and', 'or', 'but', 'in', 'on', 'at', 'to', 'for',
+  'of', 'with', 'by', 'from', 'as', 'is', 'was', 'are', 'were', 'been',
+  'be', 'have', 'has', 'had', 'do', 'does', 'did', 'will', 'would', 'could',
+  'should', 'may', 'might', 'can', 'this', 'that', 'these', 'those', 'it',
+  'its', 'if', 'then', 'than', 'so', 'just', 'about', 'into', 'through',
+  'during', 'before', 'after', 'above', 'below', 'between', 'under', 'over',
+  'not', 'no', 'yes', 'all', 'any', 'both', 'each', 'few', 'more', 'most',
+  'some', 'such', 'only', 'own', 'same', 'other', 'also', 'when', 'where',
+  'who', 'which', 'what', 'how', 'why', 'there', 'here', 'out', 'up', 'down',
+]);
+
+/**
+ * Stop words by language code (ISO 639-1)
+ */
+export const STOP_WORDS: Readonly<Record<string, ReadonlySet<string>>> = {
+  en: ENGLISH_STOP_WORDS,
+  de: new Set([
+    'der', 'die', 'das', 'den', 'dem', 'des', 'ein', 'eine', 'einen', 'einem', 'einer', 'eines',
+    'und', 'oder', 'aber', 'nicht', 'auch', 'auf', 'aus', 'bei', 'mit', 'nach', 'von', 'vor',
+    'zu', 'zum', 'zur', 'fur', 'uber', 'unter', 'ist', 'sind', 'war', 'waren', 'wird', 'werden',
+    'hat', 'haben', 'sich', 'sie', 'ich', 'wir', 'ihr', 'es', 'er', 'als', 'wie', 'wenn', 'dass',
+    'noch', 'nur', 'schon', 'sehr', 'kann', 'dies', 'diese', 'dieser', 'dieses', 'man', 'im', 'am',
+  ]),
+  fr: new Set([
+    'le', 'la', 'les', 'un', 'une', 'des', 'du', 'de', 'et', 'ou', 'mais', 'donc', 'car', 'ne',
+    'pas', 'plus', 'que', 'qui', 'quoi', 'dans', 'sur', 'sous', 'pour', 'par', 'avec', 'sans',
+    'est', 'sont', 'etait', 'etre', 'avoir', 'ont', 'a', 'au', 'aux', 'ce', 'cet', 'cette', 'ces',
+    'il', 'elle', 'ils', 'elles', 'nous', 'vous', 'on', 'se', 'son', 'sa', 'ses', 'leur', 'leurs',
+    'comme', 'tres', 'aussi', 'tout', 'tous', 'toute', 'toutes',
+  ]),
+  es: new Set([
+    'el', 'la', 'los', 'las', 'un', 'una', 'unos', 'unas', 'de', 'del', 'al', 'y', 'o', 'pero',
+    'no', 'que', 'quien', 'en', 'con', 'sin', 'por', 'para', 'sobre', 'entre', 'es', 'son',
+    'era', 'fue', 'ser', 'estar', 'esta', 'este', 'esto', 'estos', 'estas', 'ese', 'esa', 'lo',
+    'le', 'les', 'se', 'su', 'sus', 'como', 'mas', 'muy', 'tambien', 'ya', 'hay', 'todo', 'todos',
+  ]),
+  it: new Set([
+    'il', 'lo', 'la', 'gli', 'le', 'un', 'uno', 'una', 'di', 'del', 'della', 'dei', 'delle', 'da',
+    'dal', 'in', 'nel', 'nella', 'con', 'su', 'per', 'tra', 'fra', 'e', 'o', 'ma', 'non', 'che',
+    'chi', 'come', 'piu', 'molto', 'anche', 'sono', 'era', 'essere', 'avere', 'ha', 'hanno', 'si',
+    'questo', 'questa', 'quello', 'quella', 'suo', 'sua', 'tutto', 'tutti',
+  ]),
+  pt: new Set([
+    'o', 'a', 'os', 'as', 'um', 'uma', 'uns', 'umas', 'de', 'do', 'da', 'dos', 'das', 'em', 'no',
+    'na', 'nos', 'nas', 'por', 'para', 'com', 'sem', 'sobre', 'e', 'ou', 'mas', 'nao', 'que',
+    'quem', 'como', 'mais', 'muito', 'tambem', 'ser', 'estar', 'ter', 'foi', 'sao', 'esta', 'este',
+    'isso', 'isto', 'esse', 'essa', 'seu', 'sua', 'se', 'ao', 'aos', 'todo', 'todos',
+  ]),
+  nl: new Set([
+    'de', 'het', 'een', 'en', 'of', 'maar', 'niet', 'ook', 'op', 'in', 'aan', 'met', 'voor',
+    'van', 'bij', 'naar', 'uit', 'over', 'onder', 'is', 'zijn', 'was', 'waren', 'wordt', 'worden',
+    'heeft', 'hebben', 'dat', 'die', 'dit', 'deze', 'er', 'als', 'dan', 'wat', 'wie', 'hoe', 'te',
+    'zich', 'ze', 'hij', 'wij', 'ik', 'je', 'jij', 'nog', 'al', 'zo',
+  ]),
+  zh: new Set([
+    '的', '了', '是', '在', '和', '与', '及', '或', '也', '就', '都', '而', '这', '那', '之',
+    '有', '我', '你', '他', '她', '它', '们', '个', '着', '把', '被', '从', '对', '为', '上', '中',
+  ]),
+  ja: new Set([
+    'の', 'に', 'は', 'を', 'た', 'が', 'で', 'て', 'と', 'し', 'れ', 'さ', 'ある', 'いる', 'も',
+    'する', 'から', 'な', 'こと', 'として', 'い', 'や', 'など', 'なっ', 'ない', 'この', 'ため',
+    'その', 'あっ', 'よう', 'また', 'もの', 'です', 'ます', 'へ', 'か', 'まで', 'より',
+  ]),
+};
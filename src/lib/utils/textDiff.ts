@@ -0,0 +1,73 @@
+/**
+ * Text diff utilities
+ * Sentence-level diff of extracted page text (used by the sidebar version view)
+ */
+
+export type DiffOperation = 'equal' | 'insert' | 'delete';
+
+/**
+ * Run of consecutive sentences with the same diff operation
+ */
+export interface DiffSegment {
+  op: DiffOperation;
+  text: string;
+}
+
+/**
+ * Split text into sentences (extracted content is mostly a single line)
+ * @param text Text to split
+ * @returns Trimmed, non-empty sentences
+ */
+export function splitSentences(text: string): string[] {
+  return text
+    .split(/(?<=[.!?])\s+|\n+/)
+    .map(sentence => sentence.trim())
+    .filter(sentence => sentence.length > 0);
+}
+
+/**
+ * Diff two texts sentence by sentence (longest common subsequence)
+ * @param before Older text
+ * @param after Newer text
+ * @returns Segments in reading order; deletions precede insertions at the same position
+ */
+export function diffText(before: string, after: string): DiffSegment[] {
+  const a = splitSentences(before);
+  const b = splitSentences(after);
+
+  // lcs[i][j] = LCS length of a[i..] and b[j..]
+  const lcs: Uint16Array[] = Array.from({ length: a.length + 1 }, () => new Uint16Array(b.length + 1));
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lcs[i][j] = a[i] === b[j] ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+    }
+  }
+
+  const segments: DiffSegment[] = [];
+  const push = (op: DiffOperation, sentence: string) => {
+    const last = segments[segments.length - 1];
+    if (last && last.op === op) {
+      last.text += ` ${sentence}`;
+    } else {
+      segments.push({ op, text: sentence });
+    }
+  };
+
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      push('equal', a[i]);
+      i++;
+      j++;
+    } else if (lcs[i + 1][j] >= lcs[i][j + 1]) {
+      push('delete', a[i++]);
+    } else {
+      push('insert', b[j++]);
+    }
+  }
+  while (i < a.length) push('delete', a[i++]);
+  while (j < b.length) push('insert', b[j++]);
+
+  return segments;
+}
@@ -0,0 +1,106 @@
+/**
+ * Text highlight utilities
+ * Keyword-in-context windows and highlighted runs of result passages (used by the sidebar)
+ */
+
+import type { HighlightRange, HighlightKind } from '../search/types';
+import { HIGHLIGHT_CONFIG } from '../config/searchConfig';
+
+/**
+ * Run of text covered by the same highlight kinds
+ */
+export interface HighlightSegment {
+  text: string;
+  kinds: HighlightKind[];
+}
+
+/**
+ * Part of a passage with ranges relative to it
+ */
+export interface HighlightedSnippet {
+  text: string;
+  ranges: HighlightRange[];
+}
+
+const ELLIPSIS = '…';
+
+/**
+ * Cut a window of text around its matches (keyword-in-context)
+ * Centres on the first keyword inside the semantic sentence, else the semantic
+ * sentence, else the first keyword. Cut ends are marked with an ellipsis.
+ * @param maxLength Window length in characters (default: HIGHLIGHT_CONFIG.SNIPPET_LENGTH)
+ */
+export function keywordInContext(
+  text: string,
+  ranges: HighlightRange[],
+  maxLength: number = HIGHLIGHT_CONFIG.SNIPPET_LENGTH
+): HighlightedSnippet {
+  if (text.length <= maxLength) {
+    return { text, ranges };
+  }
+
+  const semantic = ranges.find(range => range.kind === 'semantic');
+  const keywords = ranges.filter(range => range.kind === 'keyword');
+  const focusKeyword = (semantic && keywords.find(range => range.start >= semantic.start && range.end <= semantic.end))
+    ?? (semantic ? undefined : keywords[0]);
+
+  let start = 0;
+  if (focusKeyword) {
+    start = Math.max(0, focusKeyword.start - Math.floor(maxLength / 4));
+  } else if (semantic) {
+    start = semantic.start;
+  }
+  start = Math.min(start, text.length - maxLength);
+
+  // Snap the cuts to word boundaries
+  if (start > 0) {
+    const space = text.indexOf(' ', start);
+    if (space !== -1 && space - start < 20) {
+      start = space + 1;
+    }
+  }
+  let end = Math.min(text.length, start + maxLength);
+  if (end < text.length) {
+    const space = text.lastIndexOf(' ', end);
+    if (space > start) {
+      end = space;
+    }
+  }
+
+  const prefix = start > 0 ? ELLIPSIS : '';
+  const suffix = end < text.length ? ELLIPSIS : '';
+  const shift = prefix.length - start;
+
+  return {
+    text: `${prefix}${text.slice(start, end)}${suffix}`,
+    ranges: ranges
+      .filter(range => range.end > start && range.start < end)
+      .map(range => ({
+        start: Math.max(range.start, start) + shift,
+        end: Math.min(range.end, end) + shift,
+        kind: range.kind,
+      })),
+  };
+}
+
+/**
+ * Split text at range boundaries into runs with the kinds covering each run
+ */
+export function highlightSegments(text: string, ranges: HighlightRange[]): HighlightSegment[] {
+  const boundaries = new Set<number>([0, text.length]);
+  for (const range of ranges) {
+    boundaries.add(Math.max(0, Math.min(range.start, text.length)));
+    boundaries.add(Math.max(0, Math.min(range.end, text.length)));
+  }
+  const points = [...boundaries].sort((a, b) => a - b);
+
+  const segments: HighlightSegment[] = [];
+  for (let i = 0; i < points.length - 1; i++) {
+    const [from, to] = [points[i], points[i + 1]];
+    const kinds = [...new Set(
+      ranges.filter(range => range.start <= from && range.end >= to).map(range => range.kind)
+    )];
+    segments.push({ text: text.slice(from, to), kinds });
+  }
+  return segments;
+}
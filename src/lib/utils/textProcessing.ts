@@ -3,22 +3,7 @@
  */
 
 /**
- * Common stop words for keyword search
- */
-export const STOP_WORDS = new Set([
-  'the', 'a', 'an', 'and', 'or', 'but', 'in', 'on', 'at', 'to', 'for',
-  'of', 'with', 'by', 'from', 'as', 'is', 'was', 'are', 'were', 'been',
-  'be', 'have', 'has', 'had', 'do', 'does', 'did', 'will', 'would', 'could',
-  'should', 'may', 'might', 'can', 'this', 'that', 'these', 'those', 'it',
-  'its', 'if', 'then', 'than', 'so', 'just', 'about', 'into', 'through',
-  'during', 'before', 'after', 'above', 'below', 'between', 'under', 'over',
-  'not', 'no', 'yes', 'all', 'any', 'both', 'each', 'few', 'more', 'most',
-  'some', 'such', 'only', 'own', 'same', 'other', 'also', 'when', 'where',
-  'who', 'which', 'what', 'how', 'why', 'there', 'here', 'out', 'up', 'down',
-]);
-
-/**
- * Field weights for TF-IDF scoring
+ * Default keyword field weights (overridable via SearchOptions.fieldWeights)
  */
 export const FIELD_WEIGHTS = {
   title: 3.0,
@@ -27,20 +12,6 @@ export const FIELD_WEIGHTS = {
   content: 1.0,
 } as const;
 
-/**
- * Tokenize text into searchable terms
- * @param text Text to tokenize
- * @returns Array of normalized tokens
- */
-export function tokenize(text: string): string[] {
-  return text
-    .toLowerCase()
-    .replace(/[^a-z0-9\s]/g, ' ') // Replace non-alphanumeric with spaces
-    .split(/\s+/)
-    .filter(term => term.length >= 3) // Filter short terms
-    .filter(term => !STOP_WORDS.has(term)); // Filter stop words
-}
-
 /**
  * Clean and normalize text content
  * @param text Raw text content
@@ -124,4 +95,13 @@ export function truncateToWordCount(text: string, maxWords: number): string {
     return text;
   }
   return words.slice(0, maxWords).join(' ');
-}
\ No newline at end of file
+}
+/**
+ * Hash text with SHA-256
+ * @param text Text to hash
+ * @returns Lowercase hex digest
+ */
+export async function hashText(text: string): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(text));
+  return Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, '0')).join('');
+}
@@ -19,9 +19,10 @@ declare global {
       topK?: number;
       systemPrompt?: string;
       monitor?: (m: any) => void;
+      signal?: AbortSignal;
     }): Promise<{
-      prompt(text: string): Promise<string>;
-      promptStreaming(text: string): AsyncIterable<string>;
+      prompt(text: string, options?: { signal?: AbortSignal }): Promise<string>;
+      promptStreaming(text: string, options?: { signal?: AbortSignal }): AsyncIterable<string>;
       destroy(): Promise<void>;
       countPromptTokens(text: string): Promise<number>;
     }>;
@@ -50,6 +51,7 @@ interface PromptResponse {
 class OffscreenPromptHandler {
   private promptApiAvailable: boolean = false;
   private isInitialized: boolean = false;
+  private runningPrompts: Map<string, AbortController> = new Map();
 
   /**
    * Initialize the Prompt API
@@ -88,11 +90,25 @@ class OffscreenPromptHandler {
     return this.promptApiAvailable && this.isInitialized;
   }
 
+  /**
+   * Abort a running prompt request (PROMPT_CANCEL)
+   */
+  public cancel(requestId: string): void {
+    const controller = this.runningPrompts.get(requestId);
+    if (controller) {
+      console.log(`[Rewind. Offscreen] Cancelling prompt request ${requestId}`);
+      controller.abort();
+    }
+  }
+
   /**
    * Process a prompt request (non-streaming)
+   * @returns Response to send back, or null when the request was cancelled
    */
-  public async processPromptRequest(request: PromptRequest): Promise<PromptResponse> {
+  public async processPromptRequest(request: PromptRequest): Promise<PromptResponse | null> {
     const startTime = Date.now();
+    const controller = new AbortController();
+    this.runningPrompts.set(request.id, controller);
 
     try {
       console.log(`[Rewind. Offscreen] Processing prompt request ${request.id}`);
@@ -102,11 +118,11 @@ class OffscreenPromptHandler {
       }
 
       // Create language model session
-      const session = await LanguageModel.create(request.options || {});
+      const session = await LanguageModel.create({ ...request.options, signal: controller.signal });
 
       try {
         // Generate answer
-        const answer = await session.prompt(request.prompt);
+        const answer = await session.prompt(request.prompt, { signal: controller.signal });
 
         if (!answer || typeof answer !== 'string') {
           throw new Error('Invalid response from Prompt API');
@@ -133,6 +149,11 @@ class OffscreenPromptHandler {
       }
 
     } catch (error) {
+      if (controller.signal.aborted) {
+        console.log(`[Rewind. Offscreen] Prompt request ${request.id} cancelled`);
+        return null;
+      }
+
       const processingTime = Date.now() - startTime;
       console.error(`[Rewind. Offscreen] Prompt request ${request.id} failed:`, error);
 
@@ -142,6 +163,8 @@ class OffscreenPromptHandler {
         error: error instanceof Error ? error.message : 'Unknown error',
         processingTime
       };
+    } finally {
+      this.runningPrompts.delete(request.id);
     }
   }
 
@@ -149,6 +172,9 @@ class OffscreenPromptHandler {
    * Process a prompt request with streaming
    */
   public async processPromptRequestStreaming(request: PromptRequest): Promise<void> {
+    const controller = new AbortController();
+    this.runningPrompts.set(request.id, controller);
+
     try {
       console.log(`[Rewind. Offscreen] Processing streaming prompt request ${request.id}`);
 
@@ -157,11 +183,11 @@ class OffscreenPromptHandler {
       }
 
       // Create language model session
-      const session = await LanguageModel.create(request.options || {});
+      const session = await LanguageModel.create({ ...request.options, signal: controller.signal });
 
       try {
         // Stream answer
-        const stream = session.promptStreaming(request.prompt);
+        const stream = session.promptStreaming(request.prompt, { signal: controller.signal });
 
         for await (const chunk of stream) {
           // Send chunk back to service worker
@@ -194,6 +220,12 @@ class OffscreenPromptHandler {
       }
 
     } catch (error) {
+      // The service worker stopped listening when it cancelled
+      if (controller.signal.aborted) {
+        console.log(`[Rewind. Offscreen] Streaming prompt request ${request.id} cancelled`);
+        return;
+      }
+
       console.error(`[Rewind. Offscreen] Streaming prompt request ${request.id} failed:`, error);
 
       // Send error signal
@@ -204,6 +236,8 @@ class OffscreenPromptHandler {
       }).catch(err => {
         console.error('[Rewind. Offscreen] Failed to send error:', err);
       });
+    } finally {
+      this.runningPrompts.delete(request.id);
     }
   }
 }
@@ -225,6 +259,9 @@ chrome.runtime.onMessage.addListener((message, _sender, sendResponse) => {
     // Handle prompt request asynchronously
     const request: PromptRequest = message.request;
     promptHandler.processPromptRequest(request).then(response => {
+      if (!response) {
+        return; // Cancelled
+      }
       chrome.runtime.sendMessage({
         type: 'PROMPT_RESPONSE',
         response
@@ -246,6 +283,12 @@ chrome.runtime.onMessage.addListener((message, _sender, sendResponse) => {
     return true;
   }
 
+  if (message.type === 'PROMPT_CANCEL') {
+    promptHandler.cancel(message.requestId);
+    sendResponse({ success: true });
+    return true;
+  }
+
   return false;
 });
 
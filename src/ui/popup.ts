@@ -17,12 +17,26 @@ const testSearchBtn = document.getElementById('testSearch') as HTMLButtonElement
 const testHybridSearchBtn = document.getElementById('testHybridSearch') as HTMLButtonElement;
 const addTestDataBtn = document.getElementById('addTestData') as HTMLButtonElement;
 const clearDataBtn = document.getElementById('clearData') as HTMLButtonElement;
+const previewRetentionBtn = document.getElementById('previewRetention') as HTMLButtonElement;
+const runRetentionBtn = document.getElementById('runRetention') as HTMLButtonElement;
+const saveRetentionBtn = document.getElementById('saveRetention') as HTMLButtonElement;
+const retentionMaxPagesEl = document.getElementById('retentionMaxPages') as HTMLInputElement;
+const retentionMaxMbEl = document.getElementById('retentionMaxMb') as HTMLInputElement;
+const retentionMaxAgeDaysEl = document.getElementById('retentionMaxAgeDays') as HTMLInputElement;
 
 // Pipeline status elements
 const indexingStatusEl = document.getElementById('indexingStatus') as HTMLSpanElement;
 const queueSizeEl = document.getElementById('queueSize') as HTMLSpanElement;
 const lastProcessedEl = document.getElementById('lastProcessed') as HTMLSpanElement;
 
+// Re-embedding elements
+const embeddingSignatureEl = document.getElementById('embeddingSignature') as HTMLSpanElement;
+const reembeddingStateEl = document.getElementById('reembeddingState') as HTMLSpanElement;
+const reembeddingProgressFillEl = document.getElementById('reembeddingProgressFill') as HTMLDivElement;
+const reembeddingCountsEl = document.getElementById('reembeddingCounts') as HTMLSpanElement;
+const startReembeddingBtn = document.getElementById('startReembedding') as HTMLButtonElement;
+const pauseReembeddingBtn = document.getElementById('pauseReembedding') as HTMLButtonElement;
+
 // AI metrics elements
 const totalSummariesEl = document.getElementById('totalSummaries') as HTMLSpanElement;
 const summarySuccessRateEl = document.getElementById('summarySuccessRate') as HTMLSpanElement;
@@ -164,6 +178,87 @@ async function checkPipelineStatus(): Promise<void> {
   }
 }
 
+/**
+ * Update re-embedding progress display
+ * @param progress ReembeddingProgress from the background job
+ */
+function updateReembeddingStatus(progress: {
+  status: 'idle' | 'running' | 'paused' | 'completed' | 'error';
+  target: { model: string; dimensions: number; promptVersion: number };
+  total: number;
+  processed: number;
+  failedPageIds: string[];
+  error?: string;
+}): void {
+  const stateClass: Record<typeof progress.status, string> = {
+    idle: 'idle',
+    running: 'processing',
+    paused: 'idle',
+    completed: 'active',
+    error: 'error',
+  };
+
+  if (embeddingSignatureEl) {
+    const { model, dimensions, promptVersion } = progress.target;
+    embeddingSignatureEl.textContent = `${model.split('/').pop()} · ${dimensions}d · v${promptVersion}`;
+    embeddingSignatureEl.title = model;
+  }
+
+  if (reembeddingStateEl) {
+    reembeddingStateEl.className = `status-value ${stateClass[progress.status]}`;
+    reembeddingStateEl.textContent = progress.status.charAt(0).toUpperCase() + progress.status.slice(1);
+    reembeddingStateEl.title = progress.error ?? '';
+  }
+
+  if (reembeddingProgressFillEl) {
+    const percent = progress.total > 0 ? Math.round((progress.processed / progress.total) * 100) : 0;
+    reembeddingProgressFillEl.style.width = `${progress.status === 'completed' ? 100 : percent}%`;
+  }
+
+  if (reembeddingCountsEl) {
+    const failed = progress.failedPageIds.length > 0 ? ` (${progress.failedPageIds.length} failed)` : '';
+    reembeddingCountsEl.textContent = `${progress.processed} / ${progress.total}${failed}`;
+  }
+
+  if (startReembeddingBtn) {
+    startReembeddingBtn.disabled = progress.status === 'running';
+  }
+
+  if (pauseReembeddingBtn) {
+    pauseReembeddingBtn.disabled = progress.status !== 'running';
+  }
+}
+
+/**
+ * Check re-embedding job status
+ */
+async function checkReembeddingStatus(): Promise<void> {
+  try {
+    const response = await chrome.runtime.sendMessage({ type: 'GET_REEMBEDDING_STATUS' });
+    if (response?.success) {
+      updateReembeddingStatus(response.progress);
+    }
+  } catch (error) {
+    console.error('[Rewind. Popup] Error checking re-embedding status:', error);
+  }
+}
+
+/**
+ * Start or pause the re-embedding job
+ */
+async function controlReembedding(type: 'START_REEMBEDDING' | 'PAUSE_REEMBEDDING'): Promise<void> {
+  try {
+    const response = await chrome.runtime.sendMessage({ type });
+    if (response?.success) {
+      updateReembeddingStatus(response.progress);
+    } else {
+      showStatus(`Re-embedding failed: ${response?.error || 'Unknown error'}`, 'error');
+    }
+  } catch (error) {
+    showStatus(`Re-embedding failed: ${(error as Error).message}`, 'error');
+  }
+}
+
 /**
  * Update AI metrics display
  */
@@ -810,6 +905,114 @@ async function clearAllData(): Promise<void> {
   }
 }
 
+/**
+ * Format a retention report for the status display
+ */
+function formatRetentionReport(report: any): string {
+  const mb = (bytes: number) => `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+  const limits = [
+    report.policy.maxPages > 0 ? `${report.policy.maxPages} pages` : null,
+    report.policy.maxBytes > 0 ? mb(report.policy.maxBytes) : null,
+    report.policy.maxAgeDays > 0 ? `${report.policy.maxAgeDays} days` : null,
+  ].filter(Boolean).join(', ') || 'none';
+
+  if (report.skipped === 'not-previewed') {
+    return `⚠️ Retention not enforced\n\nLimits: ${limits}\nPreview this policy before enforcing it.`;
+  }
+
+  let output = `${report.dryRun ? '🔎 Retention preview' : '🧹 Retention enforced'}\n\n`;
+  output += `Limits: ${limits}\n`;
+  output += `Pages: ${report.totalPages} → ${report.remainingPages}\n`;
+  output += `Size: ${mb(report.totalBytes)} → ${mb(report.remainingBytes)}\n`;
+  output += `${report.dryRun ? 'Would evict' : 'Evicted'}: ${report.evictedCount} pages\n`;
+
+  if (report.candidates.length > 0) {
+    output += '\n';
+    report.candidates.slice(0, 10).forEach((candidate: any) => {
+      output += `• [${candidate.reason}] ${candidate.title || candidate.url}\n`;
+    });
+    if (report.evictedCount > 10) {
+      output += `…and ${report.evictedCount - 10} more\n`;
+    }
+  }
+
+  return output;
+}
+
+/**
+ * Run the retention policy (dry run previews without deleting)
+ */
+async function runRetention(dryRun: boolean): Promise<void> {
+  if (!dryRun && !confirm('Evict pages outside the retention limits? This cannot be undone.')) {
+    return;
+  }
+
+  const button = dryRun ? previewRetentionBtn : runRetentionBtn;
+  setButtonLoading(button, true);
+
+  try {
+    const response = await chrome.runtime.sendMessage({ type: 'RUN_RETENTION', dryRun });
+
+    if (!response?.success) {
+      throw new Error(response?.error || 'Retention run failed');
+    }
+
+    showStatus(formatRetentionReport(response.report), 'success', true);
+  } catch (error) {
+    console.error('[Rewind. Popup] Error running retention:', error);
+    showStatus(`❌ Retention failed\n\n${error}`, 'error', true);
+  } finally {
+    setButtonLoading(button, false);
+  }
+}
+
+/**
+ * Load the stored retention policy into the policy inputs
+ */
+async function loadRetentionPolicy(): Promise<void> {
+  try {
+    const response = await chrome.runtime.sendMessage({ type: 'GET_RETENTION_POLICY' });
+
+    if (response?.success) {
+      retentionMaxPagesEl.value = String(response.policy.maxPages);
+      retentionMaxMbEl.value = String(Math.round(response.policy.maxBytes / (1024 * 1024)));
+      retentionMaxAgeDaysEl.value = String(response.policy.maxAgeDays);
+    }
+  } catch (error) {
+    console.error('[Rewind. Popup] Error loading retention policy:', error);
+  }
+}
+
+/**
+ * Save the retention policy from the inputs, then preview it
+ */
+async function saveRetentionPolicy(): Promise<void> {
+  const limit = (input: HTMLInputElement) => Math.max(0, Math.floor(Number(input.value) || 0));
+  const policy = {
+    maxPages: limit(retentionMaxPagesEl),
+    maxBytes: limit(retentionMaxMbEl) * 1024 * 1024,
+    maxAgeDays: limit(retentionMaxAgeDaysEl),
+  };
+
+  setButtonLoading(saveRetentionBtn, true);
+
+  try {
+    const response = await chrome.runtime.sendMessage({ type: 'SET_RETENTION_POLICY', policy });
+
+    if (!response?.success) {
+      throw new Error(response?.error || 'Saving the retention policy failed');
+    }
+  } catch (error) {
+    console.error('[Rewind. Popup] Error saving retention policy:', error);
+    showStatus(`❌ Failed to save retention policy\n\n${error}`, 'error', true);
+    setButtonLoading(saveRetentionBtn, false);
+    return;
+  }
+
+  setButtonLoading(saveRetentionBtn, false);
+  await runRetention(true);
+}
+
 /**
  * Initialize popup
  */
@@ -823,6 +1026,18 @@ function initialize(): void {
   testHybridSearchBtn?.addEventListener('click', testHybridSearch);
   addTestDataBtn?.addEventListener('click', addTestData);
   clearDataBtn?.addEventListener('click', clearAllData);
+  previewRetentionBtn?.addEventListener('click', () => runRetention(true));
+  runRetentionBtn?.addEventListener('click', () => runRetention(false));
+  saveRetentionBtn?.addEventListener('click', saveRetentionPolicy);
+  startReembeddingBtn?.addEventListener('click', () => controlReembedding('START_REEMBEDDING'));
+  pauseReembeddingBtn?.addEventListener('click', () => controlReembedding('PAUSE_REEMBEDDING'));
+
+  // Live re-embedding progress from the background job
+  chrome.runtime.onMessage.addListener((message) => {
+    if (message.type === 'REEMBEDDING_PROGRESS') {
+      updateReembeddingStatus(message.progress);
+    }
+  });
 
   // Check Chrome AI availability
   checkChromeAIAvailability();
@@ -830,9 +1045,15 @@ function initialize(): void {
   // Check pipeline status
   checkPipelineStatus();
 
+  // Check re-embedding progress
+  checkReembeddingStatus();
+
   // Load AI metrics
   loadAIMetrics();
 
+  // Load the retention policy
+  loadRetentionPolicy();
+
   // Set up periodic pipeline status updates
   setInterval(checkPipelineStatus, 3000); // Update every 3 seconds
 